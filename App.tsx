@@ -1,42 +1,306 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import MapCanvas from './components/MapCanvas';
 import Sidebar from './components/Sidebar';
 import BrandSearch from './components/BrandSearch';
-import { exhibitionHalls as initialHalls } from './data/exhibitionData';
-import { parseBrandsCSV } from './utils/csvLoader';
-import { Hall } from './types';
+import DataDiagnostics from './components/DataDiagnostics';
+import BrandDetail from './components/BrandDetail';
+import OfflineIndicator from './components/OfflineIndicator';
+import FavoritesPanel from './components/FavoritesPanel';
+import RoutePlanner from './components/RoutePlanner';
+import EventPicker from './components/EventPicker';
+import EditionDiff from './components/EditionDiff';
+import FilterPanel from './components/FilterPanel';
+import ShowChat from './components/ShowChat';
+import LaunchSchedule from './components/LaunchSchedule';
+import StatsDashboard from './components/StatsDashboard';
+import ReportExport from './components/ReportExport';
+import TeamShare from './components/TeamShare';
+import CSVEditor from './components/CSVEditor';
+import CompareTray from './components/CompareTray';
+import CompareView from './components/CompareView';
+import { defaultEvent, getEvent, getPreviousEdition, showEvents } from './data/events';
+import { invalidateEventData, loadEventData } from './utils/eventData';
+import { buildBrandEntities } from './utils/brandIndex';
+import { AppRoute, closeToRoute, initHistory, parseRoute, writeRoute } from './utils/router';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { countActiveFacets, emptyFilter, matchesFilter } from './utils/facets';
+import { buildLaunchSchedule, findNearbyLaunches, getHallsLaunchingSoon } from './utils/schedule';
+import { countFavoritesByHall, getModelKey, loadFavorites, saveFavorites, toggleListItem } from './utils/favorites';
+import { loadFieldNotes, saveFieldNotes } from './utils/fieldNotes';
+import { deletePhotos } from './utils/photoStore';
+import { loadRatings, saveRatings, setOwnRating } from './utils/ratings';
+import { TeamData } from './utils/teamBundle';
+import { loadCompareItems, resolveCompareItems, saveCompareItems, toggleCompareItem } from './utils/compare';
+import { getMarketDataSource } from './services/marketData';
+import { Hall, CSVDiagnostic, Favorites, RoutePlan, FacetFilter, MapColorMode, FieldNote, BrandRating, CompareItem, ChatMessage, MarketSnapshot } from './types';
 
 const App: React.FC = () => {
-  const [halls, setHalls] = useState<Hall[]>(initialHalls);
+  // Event, hall, brand and overlay state lives in the URL hash (see utils/router.ts)
+  const [route, setRoute] = useState<AppRoute>(() => {
+    initHistory();
+    return parseRoute(window.location.hash);
+  });
+  const activeEvent = getEvent(route.eventId);
+
+  const [loadedHalls, setLoadedHalls] = useState<Hall[]>(activeEvent.halls);
+  // Edited data from the CSV editor, shown instead of the loaded CSV until the preview is ended
+  const [previewHalls, setPreviewHalls] = useState<Hall[] | null>(null);
+  const halls = previewHalls || loadedHalls;
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedHallId, setSelectedHallId] = useState<string | null>(null);
-  const [highlightedBrandId, setHighlightedBrandId] = useState<string | null>(null);
-  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<CSVDiagnostic[]>([]);
+  const [updatedCSVPath, setUpdatedCSVPath] = useState<string | null>(null);
+  const [favorites, setFavorites] = useState<Favorites>(() => loadFavorites(activeEvent.id));
+  const favoritesEventId = useRef(activeEvent.id);
+  const [fieldNotes, setFieldNotes] = useState<FieldNote[]>(() => loadFieldNotes(activeEvent.id));
+  const fieldNotesEventId = useRef(activeEvent.id);
+  const [ratings, setRatings] = useState<BrandRating[]>(() => loadRatings(activeEvent.id));
+  const ratingsEventId = useRef(activeEvent.id);
+  const [compareItems, setCompareItems] = useState<CompareItem[]>(() => loadCompareItems(activeEvent.id));
+  const compareEventId = useRef(activeEvent.id);
+  // Floating panel shown over the map (one at a time)
+  const [mapPanel, setMapPanel] = useState<'route' | 'filter' | 'chat' | null>(null);
+  // Q&A conversation; kept for the session only and started afresh for another edition
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // Prices and market caps for listed exhibitors; the app works without them
+  const [marketData, setMarketData] = useState<MarketSnapshot | null>(null);
+  const [filter, setFilter] = useState<FacetFilter>(emptyFilter);
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null);
+  const [colorMode, setColorMode] = useState<MapColorMode>('zone');
+  // Wall clock for the launch schedule, ticking once a minute
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const syncRoute = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('popstate', syncRoute);
+    window.addEventListener('hashchange', syncRoute);
+    return () => {
+      window.removeEventListener('popstate', syncRoute);
+      window.removeEventListener('hashchange', syncRoute);
+    };
+  }, []);
+
+  // Routes stay within the current show edition unless they name another one
+  const navigate = (next: AppRoute, replace = false) => {
+    const full = { eventId: route.eventId, ...next };
+    writeRoute(full, replace);
+    setRoute(full);
+  };
+
+  // Closing steps back through history when possible; popstate then syncs the route
+  const closeTo = (next: AppRoute) => {
+    const full = { eventId: route.eventId, ...next };
+    if (!closeToRoute(full)) setRoute(full);
+  };
   
-  // Load CSV Data on Mount
+  // Load the active edition's CSV (parsed copies are cached per edition)
   useEffect(() => {
+    let cancelled = false;
     const loadData = async () => {
-      // Ensure the path matches where you place the file in public/
-      const updatedHalls = await parseBrandsCSV('/brands.csv', initialHalls);
-      setHalls(updatedHalls);
+      setIsLoading(true);
+      setLoadedHalls(activeEvent.halls);
+      setPreviewHalls(null);
+      setDiagnostics([]);
+      const result = await loadEventData(activeEvent);
+      if (cancelled) return;
+      setLoadedHalls(result.halls);
+      setDiagnostics(result.diagnostics);
       setIsLoading(false);
     };
     loadData();
+    return () => { cancelled = true; };
+  }, [activeEvent.id]);
+
+  // Offline support: the service worker tells us when a newer exhibitor CSV has been published
+  const loadMarketData = () => {
+    getMarketDataSource().load()
+      .then(setMarketData)
+      .catch(error => console.warn("Failed to load market data", error));
+  };
+
+  useEffect(() => registerServiceWorker({
+    onCSVUpdated: (path) => {
+      showEvents.filter(e => e.dataUrl === path).forEach(e => invalidateEventData(e.id));
+      setUpdatedCSVPath(path);
+    },
+    // Prices update quietly; the service worker has already cached the new snapshot
+    onMarketDataUpdated: loadMarketData
+  }), []);
+
+  useEffect(loadMarketData, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
   }, []);
 
+  // Favourites are kept per edition: swap lists when the edition changes, otherwise persist edits
+  useEffect(() => {
+    if (favoritesEventId.current !== activeEvent.id) {
+      favoritesEventId.current = activeEvent.id;
+      setFavorites(loadFavorites(activeEvent.id));
+      return;
+    }
+    saveFavorites(activeEvent.id, favorites);
+  }, [favorites, activeEvent.id]);
+
+  // Field notes and ratings follow the same per-edition pattern
+  useEffect(() => {
+    if (fieldNotesEventId.current !== activeEvent.id) {
+      fieldNotesEventId.current = activeEvent.id;
+      setFieldNotes(loadFieldNotes(activeEvent.id));
+      return;
+    }
+    saveFieldNotes(activeEvent.id, fieldNotes);
+  }, [fieldNotes, activeEvent.id]);
+
+  useEffect(() => {
+    if (ratingsEventId.current !== activeEvent.id) {
+      ratingsEventId.current = activeEvent.id;
+      setRatings(loadRatings(activeEvent.id));
+      return;
+    }
+    saveRatings(activeEvent.id, ratings);
+  }, [ratings, activeEvent.id]);
+
+  useEffect(() => {
+    if (compareEventId.current !== activeEvent.id) {
+      compareEventId.current = activeEvent.id;
+      setCompareItems(loadCompareItems(activeEvent.id));
+      return;
+    }
+    saveCompareItems(activeEvent.id, compareItems);
+  }, [compareItems, activeEvent.id]);
+
+  useEffect(() => {
+    setChatMessages([]);
+  }, [activeEvent.id]);
+
+  const addFieldNote = (note: FieldNote) => setFieldNotes(notes => [...notes, note]);
+  const deleteFieldNote = (note: FieldNote) => {
+    setFieldNotes(notes => notes.filter(n => n.id !== note.id));
+    deletePhotos(note.photoIds);
+  };
+
+  const rateBrand = (brandId: string, score: number) => setRatings(r => setOwnRating(r, brandId, score));
+
+  const toggleCompare = (item: CompareItem) => setCompareItems(items => toggleCompareItem(items, item));
+
+  // A colleague's bundle merged into this edition's data (see utils/teamBundle.ts)
+  const applyTeamData = (data: TeamData) => {
+    setFavorites(data.favorites);
+    setFieldNotes(data.notes);
+    setRatings(data.ratings);
+  };
+
+  const toggleFavoriteBrand = (brandId: string) =>
+    setFavorites(f => ({ ...f, brandIds: toggleListItem(f.brandIds, brandId) }));
+  const toggleFavoriteModel = (brandId: string, modelName: string) =>
+    setFavorites(f => ({ ...f, modelKeys: toggleListItem(f.modelKeys, getModelKey(brandId, modelName)) }));
+  const toggleVisited = (brandId: string) =>
+    setFavorites(f => ({ ...f, visitedBrandIds: toggleListItem(f.visitedBrandIds, brandId) }));
+
   const handleHallSelect = (hall: Hall) => {
-    setSelectedHallId(hall.id);
-    setHighlightedBrandId(null);
+    navigate({ hallCode: hall.code });
   };
 
   const handleBrandSelect = (hallId: string, brandId: string) => {
-    setSelectedHallId(hallId);
-    setHighlightedBrandId(brandId);
-    setIsSearchOpen(false);
+    const hall = halls.find(h => h.id === hallId);
+    if (hall) navigate({ hallCode: hall.code, brandId });
+  };
+
+  const handleModelSelect = (hallId: string, brandId: string, modelName: string) => {
+    const hall = halls.find(h => h.id === hallId);
+    if (hall) navigate({ hallCode: hall.code, brandId, modelName });
   };
 
-  const selectedHall = halls.find(h => h.id === selectedHallId) || null;
+  const openSearch = () => navigate({ ...route, search: '', detailId: undefined });
+  const closeSearch = () => closeTo({ ...route, search: undefined });
+  const handleSearchQueryChange = (query: string) => navigate({ ...route, search: query }, true);
+
+  const openFavorites = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, list: true });
+  const closeFavorites = () => closeTo({ ...route, list: undefined });
+
+  const openBrandDetail = (entityId: string) => navigate({ ...route, detailId: entityId });
+  const closeBrandDetail = () => closeTo({ ...route, detailId: undefined });
+
+  const openSchedule = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, schedule: true });
+  const closeSchedule = () => closeTo({ ...route, schedule: undefined });
+
+  const openStats = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, stats: true });
+  const closeStats = () => closeTo({ ...route, stats: undefined });
+
+  const openExport = () => navigate({ ...route, export: true }); // Over whatever is open, e.g. the list it exports
+  const closeExport = () => closeTo({ ...route, export: undefined });
+
+  const openShare = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, share: true });
+  const closeShare = () => closeTo({ ...route, share: undefined, shareData: undefined });
+  const clearShareData = () => navigate({ ...route, shareData: undefined }, true);
+
+  const openAdmin = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, admin: true });
+  const closeAdmin = () => closeTo({ ...route, admin: undefined });
+  const previewEditedData = (edited: Hall[]) => {
+    setPreviewHalls(edited);
+    closeAdmin();
+  };
+
+  const openCompare = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, compare: true });
+  const closeCompare = () => closeTo({ ...route, compare: undefined });
+
+  const closeSidebar = () => closeTo({
+    search: route.search, detailId: route.detailId, list: route.list, changes: route.changes, schedule: route.schedule,
+    stats: route.stats, export: route.export, share: route.share, admin: route.admin, compare: route.compare
+  });
+
+  // Switching edition starts from the overview map; the default edition keeps the short URL
+  const selectEvent = (eventId: string) => navigate({ eventId: eventId === defaultEvent.id ? undefined : eventId });
+
+  const openChanges = () => navigate({ hallCode: route.hallCode, brandId: route.brandId, changes: true });
+  const closeChanges = () => closeTo({ ...route, changes: undefined });
+
+  const selectedHall = halls.find(h => h.code === route.hallCode) || null;
+  const selectedHallId = selectedHall?.id || null;
+  const highlightedBrandId = route.brandId || null;
+  const isSearchOpen = route.search !== undefined;
+  const detailBrandId = route.detailId || null;
+  const isFavoritesOpen = !!route.list;
+  const isChangesOpen = !!route.changes;
+  const isScheduleOpen = !!route.schedule;
+  const isStatsOpen = !!route.stats;
+  const isExportOpen = !!route.export;
+  const isShareOpen = !!route.share;
+  const isAdminOpen = !!route.admin;
+  const isCompareOpen = !!route.compare;
+  const isCSVUpdateAvailable = updatedCSVPath === activeEvent.dataUrl;
+
+  const brandEntities = useMemo(() => buildBrandEntities(halls), [halls]);
+  const detailBrand = brandEntities.find(e => e.id === detailBrandId) || null;
+  const detailSiblings = detailBrand?.group
+    ? brandEntities.filter(e => e.group?.id === detailBrand.group?.id && e.id !== detailBrand.id)
+    : [];
+  const favoriteCounts = useMemo(() => countFavoritesByHall(halls, favorites), [halls, favorites]);
+  const favoriteTotal = halls.reduce((sum, h) => sum + favoriteCounts[h.id], 0);
+  const activeFacetCount = countActiveFacets(filter);
+  const matchingHallIds = useMemo(
+    () => activeFacetCount > 0
+      ? new Set(halls.filter(h => h.brands.some(b => matchesFilter(filter, h, b))).map(h => h.id))
+      : null,
+    [halls, filter, activeFacetCount]
+  );
+
+  const compareColumns = useMemo(() => resolveCompareItems(halls, compareItems), [halls, compareItems]);
+  // The tray floats over the map, the hall list and search, where items are picked
+  const isCompareTrayVisible = compareColumns.length > 0 && !isCompareOpen && !isFavoritesOpen && !isChangesOpen &&
+    !isScheduleOpen && !isStatsOpen && !isExportOpen && !isShareOpen && !isAdminOpen && !detailBrand;
+
+  const launchSchedule = useMemo(() => buildLaunchSchedule(halls), [halls]);
+  const launchingHallIds = useMemo(() => getHallsLaunchingSoon(launchSchedule, now), [launchSchedule, now]);
+  const nearbyLaunches = useMemo(
+    () => (selectedHallId ? findNearbyLaunches(launchSchedule, selectedHallId, now, activeEvent.graph) : []),
+    [launchSchedule, selectedHallId, now, activeEvent.graph]
+  );
+
+  const toggleMapPanel = (panel: 'route' | 'filter' | 'chat') => setMapPanel(mapPanel === panel ? null : panel);
 
   return (
     <div className="flex flex-col h-screen supports-[height:100dvh]:h-[100dvh] bg-slate-950 text-white overflow-hidden font-sans overscroll-none">
@@ -46,13 +310,91 @@ const App: React.FC = () => {
             <div className="w-7 h-7 sm:w-8 sm:h-8 bg-blue-600 rounded flex items-center justify-center font-bold text-lg shadow-lg text-white shrink-0">
                 G
             </div>
-            <div>
-                <h1 className="font-bold text-sm sm:text-base tracking-tight text-white leading-tight">广州车展 <span className="text-blue-400 font-normal text-xs block sm:inline sm:text-sm sm:font-bold">投资人地图</span></h1>
-            </div>
+            <EventPicker 
+                events={showEvents}
+                activeEvent={activeEvent}
+                onSelectEvent={selectEvent}
+                onOpenChanges={openChanges}
+                onOpenExport={openExport}
+                onOpenShare={openShare}
+            />
         </div>
         <div className="flex items-center gap-2">
+            <OfflineIndicator />
+            <DataDiagnostics diagnostics={diagnostics} />
+            <button 
+                onClick={() => toggleMapPanel('filter')}
+                className={`flex items-center gap-1.5 border px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                    mapPanel === 'filter' || activeFacetCount > 0
+                        ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' 
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+                }`}
+                title="筛选展位"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 3c2.755 0 5.455.232 8.083.678.533.09.917.556.917 1.096v1.044a2.25 2.25 0 0 1-.659 1.591l-5.432 5.432a2.25 2.25 0 0 0-.659 1.591v2.927a2.25 2.25 0 0 1-1.244 2.013L9.75 21v-6.568a2.25 2.25 0 0 0-.659-1.591L3.659 7.409A2.25 2.25 0 0 1 3 5.818V4.774c0-.54.384-1.006.917-1.096A48.32 48.32 0 0 1 12 3Z" />
+                </svg>
+                <span className="hidden sm:inline">筛选</span>
+                {activeFacetCount > 0 && <span className="font-bold">{activeFacetCount}</span>}
+            </button>
             <button 
-                onClick={() => setIsSearchOpen(true)}
+                onClick={() => toggleMapPanel('chat')}
+                className={`flex items-center gap-1.5 border px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                    mapPanel === 'chat' 
+                        ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' 
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+                }`}
+                title="展会问答"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M8.625 12a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Zm0 0H8.25m4.125 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Zm0 0H12m4.125 0a.375.375 0 1 1-.75 0 .375.375 0 0 1 .75 0Zm0 0h-.375M21 12c0 4.556-4.03 8.25-9 8.25a9.764 9.764 0 0 1-2.555-.337A5.972 5.972 0 0 1 5.41 20.97a5.969 5.969 0 0 1-.474-.065 4.48 4.48 0 0 0 .978-2.025c.09-.457-.133-.901-.467-1.226C3.93 16.178 3 14.189 3 12c0-4.556 4.03-8.25 9-8.25s9 3.694 9 8.25Z" />
+                </svg>
+                <span className="hidden sm:inline">问答</span>
+            </button>
+            {activeEvent.graph && (
+                <button 
+                    onClick={() => toggleMapPanel('route')}
+                    className={`flex items-center gap-1.5 border px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                        mapPanel === 'route' 
+                            ? 'bg-amber-500/20 border-amber-500/60 text-amber-300' 
+                            : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+                    }`}
+                    title="参观路线规划"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M9 6.75V15m6-6v8.25m.503 3.498 4.875-2.437c.381-.19.622-.58.622-1.006V4.82c0-.836-.88-1.38-1.628-1.006l-3.869 1.934c-.317.159-.69.159-1.006 0L9.503 3.252a1.125 1.125 0 0 0-1.006 0L3.622 5.689C3.24 5.88 3 6.27 3 6.695V19.18c0 .836.88 1.38 1.628 1.006l3.869-1.934c.317-.159.69-.159 1.006 0l4.994 2.497c.317.158.69.158 1.006 0Z" />
+                    </svg>
+                    <span className="hidden sm:inline">路线</span>
+                </button>
+            )}
+            <button 
+                onClick={openSchedule}
+                className={`flex items-center gap-1.5 border px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                    launchingHallIds.size > 0
+                        ? 'bg-red-500/20 border-red-500/60 text-red-300' 
+                        : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+                }`}
+                title="发布会日程"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+                </svg>
+                <span className="hidden sm:inline">日程</span>
+                {launchingHallIds.size > 0 && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse"></span>}
+            </button>
+            <button 
+                onClick={openFavorites}
+                className="relative flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+                title="我的清单"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" fill={favoriteTotal > 0 ? 'currentColor' : 'none'} className={`w-4 h-4 ${favoriteTotal > 0 ? 'text-amber-400' : ''}`}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 0 1 1.04 0l2.125 5.111a.563.563 0 0 0 .475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 0 0-.182.557l1.285 5.385a.562.562 0 0 1-.84.61l-4.725-2.885a.562.562 0 0 0-.586 0L6.982 20.54a.562.562 0 0 1-.84-.61l1.285-5.386a.562.562 0 0 0-.182-.557l-4.204-3.602a.562.562 0 0 1 .321-.988l5.518-.442a.563.563 0 0 0 .475-.345L11.48 3.5Z" />
+                </svg>
+                <span className="hidden sm:inline">我的清单</span>
+                {favoriteTotal > 0 && <span className="font-bold text-amber-400">{favoriteTotal}</span>}
+            </button>
+            <button 
+                onClick={openSearch}
                 className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-slate-300 px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
             >
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
@@ -64,6 +406,49 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {/* New data published while the cached copy was shown */}
+      {isCSVUpdateAvailable && (
+        <div className="bg-blue-600 text-white text-xs sm:text-sm px-4 py-2 flex items-center justify-between shrink-0 z-30">
+            <span>展位数据已更新 (New exhibitor data available)</span>
+            <div className="flex items-center gap-2">
+                <button 
+                    onClick={() => window.location.reload()}
+                    className="font-bold bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full transition-colors"
+                >
+                    刷新
+                </button>
+                <button 
+                    onClick={() => setUpdatedCSVPath(null)}
+                    className="text-white/70 hover:text-white px-1"
+                    aria-label="Dismiss"
+                >
+                    ✕
+                </button>
+            </div>
+        </div>
+      )}
+
+      {/* Edited CSV shown in place of the published data */}
+      {previewHalls && (
+        <div className="bg-amber-500 text-slate-950 text-xs sm:text-sm px-4 py-2 flex items-center justify-between shrink-0 z-30">
+            <span className="font-medium">正在预览编辑中的数据 (尚未发布)</span>
+            <div className="flex items-center gap-2">
+                <button 
+                    onClick={openAdmin}
+                    className="font-bold bg-slate-950/15 hover:bg-slate-950/25 px-3 py-1 rounded-full transition-colors"
+                >
+                    返回编辑
+                </button>
+                <button 
+                    onClick={() => setPreviewHalls(null)}
+                    className="font-bold bg-slate-950/15 hover:bg-slate-950/25 px-3 py-1 rounded-full transition-colors"
+                >
+                    结束预览
+                </button>
+            </div>
+        </div>
+      )}
+
       {/* Main Content Area */}
       <main className="flex-1 flex overflow-hidden relative">
         {/* Map Area */}
@@ -72,7 +457,53 @@ const App: React.FC = () => {
                 halls={halls} 
                 selectedHallId={selectedHallId} 
                 onHallSelect={handleHallSelect}
+                favoriteCounts={favoriteCounts}
+                routePlan={routePlan}
+                matchingHallIds={matchingHallIds}
+                launchingHallIds={launchingHallIds}
+                colorMode={colorMode}
+                onColorModeChange={setColorMode}
+                onOpenStats={openStats}
+                layout={activeEvent.layout}
+                caption={`${activeEvent.year} ${activeEvent.name} · ${activeEvent.venue}`}
             />
+
+            {/* Walking Route Planner */}
+            {mapPanel === 'route' && activeEvent.graph && (
+                <RoutePlanner 
+                    key={activeEvent.id}
+                    graph={activeEvent.graph}
+                    halls={halls}
+                    favorites={favorites}
+                    highlightedBrandId={highlightedBrandId}
+                    onPlanChange={setRoutePlan}
+                    onSelectBrand={handleBrandSelect}
+                    onClose={() => setMapPanel(null)}
+                />
+            )}
+
+            {/* Facet Filters */}
+            {mapPanel === 'filter' && (
+                <FilterPanel 
+                    halls={halls}
+                    filter={filter}
+                    onChange={setFilter}
+                    onClose={() => setMapPanel(null)}
+                />
+            )}
+            
+            {/* Q&A grounded in the show data */}
+            {mapPanel === 'chat' && (
+                <ShowChat 
+                    halls={halls}
+                    fieldNotes={fieldNotes}
+                    event={activeEvent}
+                    messages={chatMessages}
+                    onMessagesChange={setChatMessages}
+                    onSelectBrand={handleBrandSelect}
+                    onClose={() => setMapPanel(null)}
+                />
+            )}
             
             {/* CSV Loading Indicator */}
             {isLoading && (
@@ -92,8 +523,124 @@ const App: React.FC = () => {
         {isSearchOpen && (
             <BrandSearch 
                 halls={halls} 
-                onClose={() => setIsSearchOpen(false)} 
+                initialQuery={route.search}
+                onQueryChange={handleSearchQueryChange}
+                onClose={closeSearch} 
+                onSelectBrand={handleBrandSelect}
+                onSelectModel={handleModelSelect}
+                onOpenBrand={openBrandDetail}
+                favorites={favorites}
+                onToggleFavoriteBrand={toggleFavoriteBrand}
+                fieldNotes={fieldNotes}
+                compareItems={compareItems}
+                onToggleCompare={toggleCompare}
+                marketData={marketData}
+            />
+        )}
+
+        {/* My List Overlay (favourites grouped by hall) */}
+        {isFavoritesOpen && (
+            <FavoritesPanel 
+                halls={halls}
+                favorites={favorites}
+                onClose={closeFavorites}
                 onSelectBrand={handleBrandSelect}
+                onToggleFavoriteBrand={toggleFavoriteBrand}
+                onToggleFavoriteModel={toggleFavoriteModel}
+                onToggleVisited={toggleVisited}
+                onExport={openExport}
+            />
+        )}
+
+        {/* Press-conference timeline */}
+        {isScheduleOpen && (
+            <LaunchSchedule 
+                schedule={launchSchedule}
+                now={now}
+                onClose={closeSchedule}
+                onSelectModel={handleModelSelect}
+            />
+        )}
+
+        {/* Statistics dashboard */}
+        {isStatsOpen && (
+            <StatsDashboard 
+                halls={halls}
+                title={`${activeEvent.year} ${activeEvent.name}`}
+                onClose={closeStats}
+                onSelectHall={handleHallSelect}
+                onOpenBrand={openBrandDetail}
+            />
+        )}
+
+        {/* Report export */}
+        {isExportOpen && (
+            <ReportExport 
+                halls={halls}
+                event={activeEvent}
+                favorites={favorites}
+                fieldNotes={fieldNotes}
+                marketData={marketData}
+                selectedHallId={selectedHallId}
+                onClose={closeExport}
+            />
+        )}
+
+        {/* Team sharing */}
+        {isShareOpen && (
+            <TeamShare 
+                event={activeEvent}
+                events={showEvents}
+                data={{ favorites, notes: fieldNotes, ratings }}
+                incomingPayload={route.shareData}
+                onMerge={applyTeamData}
+                onIncomingHandled={clearShareData}
+                onClose={closeShare}
+            />
+        )}
+
+        {/* Exhibitor CSV editor */}
+        {isAdminOpen && (
+            <CSVEditor 
+                event={activeEvent}
+                onPreview={previewEditedData}
+                onClose={closeAdmin}
+            />
+        )}
+
+        {/* Side-by-side comparison of the compare tray */}
+        {isCompareOpen && (
+            <CompareView 
+                columns={compareColumns}
+                event={activeEvent}
+                fieldNotes={fieldNotes}
+                marketData={marketData}
+                onRemove={toggleCompare}
+                onSelectBrand={handleBrandSelect}
+                onClose={closeCompare}
+            />
+        )}
+
+        {/* Changes vs the previous edition */}
+        {isChangesOpen && (
+            <EditionDiff 
+                event={activeEvent}
+                previousEvent={getPreviousEdition(activeEvent)}
+                currentHalls={halls}
+                onClose={closeChanges}
+                onOpenBrand={openBrandDetail}
+            />
+        )}
+
+        {/* Brand Detail Overlay (all booths of one brand) */}
+        {detailBrand && (
+            <BrandDetail 
+                entity={detailBrand}
+                siblings={detailSiblings}
+                onClose={closeBrandDetail}
+                onSelectBooth={handleBrandSelect}
+                onSelectEntity={openBrandDetail}
+                marketData={marketData}
             />
         )}
 
@@ -108,7 +655,7 @@ const App: React.FC = () => {
         >
             <div className="h-full w-full relative">
                 <button 
-                    onClick={() => setSelectedHallId(null)}
+                    onClick={closeSidebar}
                     className="absolute top-4 right-4 p-2 text-slate-400 hover:text-white bg-slate-800/50 rounded-full transition z-50 backdrop-blur-sm border border-slate-700"
                     aria-label="Close sidebar"
                 >
@@ -117,9 +664,42 @@ const App: React.FC = () => {
                     </svg>
                 </button>
 
-                 <Sidebar hall={selectedHall} highlightedBrandId={highlightedBrandId} />
+                 <Sidebar 
+                    hall={selectedHall} 
+                    zoneHalls={selectedHall ? halls.filter(h => h.type === selectedHall.type) : undefined}
+                    highlightedBrandId={highlightedBrandId} 
+                    highlightedModelName={route.modelName}
+                    onOpenBrand={openBrandDetail}
+                    favorites={favorites}
+                    onToggleFavoriteBrand={toggleFavoriteBrand}
+                    onToggleFavoriteModel={toggleFavoriteModel}
+                    event={activeEvent}
+                    filter={activeFacetCount > 0 ? filter : undefined}
+                    onClearFilter={() => setFilter(emptyFilter)}
+                    nearbyLaunches={nearbyLaunches}
+                    onSelectModel={handleModelSelect}
+                    onOpenSchedule={openSchedule}
+                    fieldNotes={fieldNotes}
+                    onAddNote={addFieldNote}
+                    onDeleteNote={deleteFieldNote}
+                    ratings={ratings}
+                    onRateBrand={rateBrand}
+                    compareItems={compareItems}
+                    onToggleCompare={toggleCompare}
+                    marketData={marketData}
+                 />
             </div>
         </aside>
+
+        {/* Compare tray */}
+        {isCompareTrayVisible && (
+            <CompareTray 
+                columns={compareColumns}
+                onRemove={toggleCompare}
+                onClear={() => setCompareItems([])}
+                onOpen={openCompare}
+            />
+        )}
       </main>
     </div>
   );
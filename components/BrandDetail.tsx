@@ -0,0 +1,125 @@
+import React from 'react';
+import { BrandEntity, MarketSnapshot } from '../types';
+import { getEntityModels } from '../utils/brandIndex';
+import TickerChip from './TickerChip';
+import BrandLogo from './BrandLogo';
+import { getTagStyle } from '../utils/tagStyle';
+import { resolveEntityListing } from '../services/marketData';
+
+interface BrandDetailProps {
+  entity: BrandEntity;
+  siblings: BrandEntity[]; // Other brands of the same parent group
+  onClose: () => void;
+  onSelectBooth: (hallId: string, brandId: string) => void;
+  onSelectEntity: (entityId: string) => void;
+  marketData?: MarketSnapshot | null;
+}
+
+// Brand-level view: every booth the brand occupies and all models across halls
+const BrandDetail: React.FC<BrandDetailProps> = ({ entity, siblings, onClose, onSelectBooth, onSelectEntity, marketData = null }) => {
+  const models = getEntityModels(entity);
+  const logo = entity.booths.find(b => b.brand.logo)?.brand.logo;
+  const listing = resolveEntityListing(entity, marketData);
+  const descriptions = [...new Set(entity.booths.map(b => b.brand.description).filter(Boolean))];
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        {logo && <BrandLogo src={logo} name={entity.name} className="w-7 h-7" />}
+        <div className="flex-1 min-w-0">
+          <h2 className="font-bold text-base text-white truncate">{entity.name}</h2>
+          {entity.group && <p className="text-[11px] text-slate-500 leading-tight">{entity.group.name}</p>}
+        </div>
+        {listing && <TickerChip listing={listing} />}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+        {descriptions.length > 0 && (
+          <div className="p-3 bg-blue-950/30 border border-blue-900/30 rounded text-sm text-blue-200 leading-relaxed space-y-1">
+            {descriptions.map((d, idx) => <p key={idx}>{d}</p>)}
+          </div>
+        )}
+
+        {/* Booths */}
+        <section>
+          <div className="text-[10px] font-bold text-amber-500/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+            <span className="w-1 h-1 rounded-full bg-amber-500 inline-block"></span>
+            展位 (BOOTHS · {entity.booths.length})
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {entity.booths.map(b => (
+              <button
+                key={b.brand.id}
+                onClick={() => onSelectBooth(b.hallId, b.brand.id)}
+                className="flex items-center justify-between p-3 rounded-lg bg-slate-800/40 border border-slate-700/50 hover:bg-slate-800 hover:border-slate-600 transition-colors text-left"
+              >
+                <span className="text-amber-500 font-mono font-bold text-sm">{b.brand.booth}</span>
+                <span className="text-xs text-slate-400 bg-slate-900 px-1.5 py-0.5 rounded border border-slate-800">{b.hallCode}馆</span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* All models across booths */}
+        <section>
+          <div className="text-[10px] font-bold text-slate-500 mb-2 uppercase tracking-wider flex items-center gap-1">
+            <span className="w-1 h-1 rounded-full bg-slate-600 inline-block"></span>
+            全部车型 (ALL MODELS · {models.length})
+          </div>
+          {models.length === 0 ? (
+            <div className="text-sm text-slate-500">暂无车型数据</div>
+          ) : (
+            <div className="grid grid-cols-1 gap-2">
+              {models.map(({ model, hallCode, booth }, idx) => (
+                <div key={idx} className="flex items-center justify-between px-3 py-2 rounded border border-slate-800 bg-slate-900/30">
+                  <div className="min-w-0 mr-2">
+                    <span className={`truncate block ${model.isNewLaunch ? 'text-slate-100 font-bold' : 'text-slate-300'}`}>{model.name}</span>
+                    {entity.booths.length > 1 && (
+                      <span className="text-[10px] text-slate-500 font-mono">{hallCode} · {booth}</span>
+                    )}
+                  </div>
+                  {model.highlight && (
+                    <span className={`text-[10px] px-2 py-0.5 rounded whitespace-nowrap ${getTagStyle(model.highlight)}`}>
+                      {model.highlight}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Sibling brands in the same group */}
+        {entity.group && siblings.length > 0 && (
+          <section>
+            <div className="text-[10px] font-bold text-slate-500 mb-2 uppercase tracking-wider flex items-center gap-1">
+              <span className="w-1 h-1 rounded-full bg-slate-600 inline-block"></span>
+              同集团品牌 ({entity.group.name})
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {siblings.map(s => (
+                <button
+                  key={s.id}
+                  onClick={() => onSelectEntity(s.id)}
+                  className="text-sm px-3 py-1.5 rounded-full bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 transition-colors"
+                >
+                  {s.name}
+                  <span className="text-slate-500 text-xs ml-1">{s.booths.map(b => b.hallCode).join('/')}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+        <div className="h-8"></div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandDetail;
@@ -0,0 +1,25 @@
+import React, { useState } from 'react';
+
+interface BrandLogoProps {
+  src: string;
+  name: string;
+  className?: string;
+}
+
+// Brand logo from the CSV Logo column; hides itself if the image fails to load
+const BrandLogo: React.FC<BrandLogoProps> = ({ src, name, className = 'w-8 h-8' }) => {
+  const [hasError, setHasError] = useState(false);
+
+  if (hasError) return null;
+
+  return (
+    <img
+      src={src}
+      alt={`${name} logo`}
+      className={`${className} object-contain rounded bg-white/90 p-0.5 shrink-0`}
+      onError={() => setHasError(true)}
+    />
+  );
+};
+
+export default BrandLogo;
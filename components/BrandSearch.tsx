@@ -1,45 +1,206 @@
 
 import React, { useState, useMemo } from 'react';
-import { Hall } from '../types';
+import { Hall, BrandEntity, Favorites, FieldNote, SearchField, SearchResult, CompareItem, MarketSnapshot } from '../types';
+import { buildBrandEntities } from '../utils/brandIndex';
+import { buildSearchIndex, findMatches } from '../utils/searchIndex';
+import { getTagStyle } from '../utils/tagStyle';
+import { MAX_COMPARE_ITEMS, isInCompare } from '../utils/compare';
+import { resolveEntityListing } from '../services/marketData';
+import TickerChip from './TickerChip';
+import BrandLogo from './BrandLogo';
+import FavoriteStar from './FavoriteStar';
+import CompareToggle from './CompareToggle';
 
 interface BrandSearchProps {
   halls: Hall[];
+  initialQuery?: string;
+  onQueryChange?: (query: string) => void;
   onClose: () => void;
   onSelectBrand: (hallId: string, brandId: string) => void;
+  onSelectModel?: (hallId: string, brandId: string, modelName: string) => void;
+  onOpenBrand: (entityId: string) => void;
+  favorites?: Favorites;
+  onToggleFavoriteBrand?: (brandId: string) => void;
+  fieldNotes?: FieldNote[]; // The user's own notes, searched alongside the exhibitor data
+  compareItems?: CompareItem[]; // Compare tray; booths and models get a compare toggle when onToggleCompare is set
+  onToggleCompare?: (item: CompareItem) => void;
+  marketData?: MarketSnapshot | null; // Prices for the ticker chips
 }
 
-const BrandSearch: React.FC<BrandSearchProps> = ({ halls, onClose, onSelectBrand }) => {
-  const [searchQuery, setSearchQuery] = useState('');
+const FIELD_LABELS: Record<SearchField, string> = {
+  brand: '品牌',
+  alias: '别名',
+  group: '集团',
+  stock: '股票代码',
+  hall: '展馆',
+  description: '简介',
+  model: '车型',
+  tag: '标签',
+  note: '备注',
+  fieldNote: '我的笔记'
+};
+
+// Matched characters wrapped in <mark>
+const renderHighlighted = (text: string, ranges: Array<[number, number]>) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], idx) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={idx} className="bg-amber-500/30 text-amber-200 rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return parts;
+};
+
+// "Which field matched" line under a result
+const renderMatchLine = (result: SearchResult) => (
+  <p className="text-xs text-slate-400 mt-0.5 truncate">
+    <span className="text-[10px] text-slate-500 bg-slate-900 border border-slate-800 rounded px-1 mr-1.5">{FIELD_LABELS[result.field]}</span>
+    {renderHighlighted(result.text, result.ranges)}
+  </p>
+);
+
+const BrandSearch: React.FC<BrandSearchProps> = ({ halls, initialQuery = '', onQueryChange, onClose, onSelectBrand, onSelectModel, onOpenBrand, favorites, onToggleFavoriteBrand, fieldNotes,
+  compareItems = [] as CompareItem[], onToggleCompare, marketData = null }) => {
+  const [searchQuery, setSearchQuery] = useState(initialQuery);
 
-  // Flatten all brands into a single searchable list
+  const handleQueryChange = (query: string) => {
+    setSearchQuery(query);
+    onQueryChange?.(query);
+  };
+
+  // One row per brand, with every booth it occupies grouped underneath; shown before anything is typed
   const allBrands = useMemo(() => {
-    const list: Array<{ hallId: string, hallCode: string, brandId: string, brandName: string, booth: string, models: string }> = [];
-    halls.forEach(hall => {
-      hall.brands.forEach(brand => {
-        list.push({
-          hallId: hall.id,
-          hallCode: hall.code,
-          brandId: brand.id,
-          brandName: brand.name,
-          booth: brand.booth,
-          models: brand.models.map(m => m.name).join(' ')
-        });
-      });
-    });
+    const list = buildBrandEntities(halls);
     // Sort by name (Chinese compliant)
-    return list.sort((a, b) => a.brandName.localeCompare(b.brandName, 'zh-CN'));
+    return list.sort((a, b) => a.name.localeCompare(b.name, 'zh-CN'));
   }, [halls]);
 
-  // Filter logic
-  const filteredBrands = useMemo(() => {
-    if (!searchQuery.trim()) return allBrands;
-    const lowerQuery = searchQuery.toLowerCase();
-    return allBrands.filter(item => 
-      item.brandName.toLowerCase().includes(lowerQuery) || 
-      item.hallCode.includes(lowerQuery) ||
-      item.models.toLowerCase().includes(lowerQuery)
+  // Brands plus every key and full-list model, with pinyin / alias / typo matching (see utils/searchIndex.ts)
+  const searchIndex = useMemo(() => buildSearchIndex(halls, fieldNotes), [halls, fieldNotes]);
+  const results = useMemo(() => findMatches(searchIndex, searchQuery), [searchIndex, searchQuery]);
+  const isSearching = searchQuery.trim().length > 0;
+
+  const renderCompareToggle = (item: CompareItem) => {
+    if (!onToggleCompare) return null;
+    const active = isInCompare(compareItems, item);
+    return (
+      <CompareToggle
+          active={active}
+          disabled={!active && compareItems.length >= MAX_COMPARE_ITEMS}
+          onToggle={() => onToggleCompare(item)}
+          className="w-4 h-4"
+      />
+    );
+  };
+
+  // Single-booth brands go straight to the booth; multi-booth brands open the brand view
+  const handleRowClick = (entity: BrandEntity) => {
+    if (entity.booths.length === 1) {
+      onSelectBrand(entity.booths[0].hallId, entity.booths[0].brand.id);
+    } else {
+      onOpenBrand(entity.id);
+    }
+  };
+
+  const renderBrandRow = (entity: BrandEntity, match?: SearchResult) => {
+    const listing = resolveEntityListing(entity, marketData);
+    const logo = entity.booths.find(b => b.brand.logo)?.brand.logo;
+    const models = entity.booths.flatMap(b => b.brand.models.map(m => m.name)).join(' ');
+    const isNameMatch = match?.field === 'brand' && match.text === entity.name;
+
+    return (
+      <div
+          key={`brand-${entity.id}`}
+          role="button"
+          onClick={() => handleRowClick(entity)}
+          className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-colors text-left group cursor-pointer"
+      >
+          <div className="flex items-center gap-3 min-w-0">
+            {logo && <BrandLogo src={logo} name={entity.name} />}
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                  <h4 className="text-slate-200 font-bold text-base">
+                      {isNameMatch ? renderHighlighted(entity.name, match.ranges) : entity.name}
+                  </h4>
+                  {listing && <TickerChip listing={listing} />}
+              </div>
+              {entity.group && (
+                  <p className="text-[10px] text-slate-500">{entity.group.name}</p>
+              )}
+              {match && !isNameMatch ? renderMatchLine(match) : models && (
+                  <p className="text-xs text-slate-500 mt-0.5 truncate max-w-[200px]">{models}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1 shrink-0">
+              {entity.booths.map(b => (
+                  <div key={b.brand.id} className="flex items-center gap-0.5">
+                      <button
+                          onClick={(e) => { e.stopPropagation(); onSelectBrand(b.hallId, b.brand.id); }}
+                          className="flex items-center gap-1.5 hover:opacity-80"
+                      >
+                          <span className="text-amber-500 font-mono font-bold text-sm">{b.brand.booth}</span>
+                          <span className="text-xs text-slate-600 bg-slate-900 px-1.5 py-0.5 rounded border border-slate-800 group-hover:border-slate-600 group-hover:text-slate-500">
+                              {b.hallCode}馆
+                          </span>
+                      </button>
+                      {renderCompareToggle({ brandId: b.brand.id })}
+                      {favorites && onToggleFavoriteBrand && (
+                          <FavoriteStar
+                              active={favorites.brandIds.includes(b.brand.id)}
+                              onToggle={() => onToggleFavoriteBrand(b.brand.id)}
+                              className="w-4 h-4"
+                          />
+                      )}
+                  </div>
+              ))}
+          </div>
+      </div>
+    );
+  };
+
+  // A model at one booth; opens that booth with the model's card in view
+  const renderModelRow = (result: SearchResult) => {
+    const { booth, model, entity } = result;
+    if (!booth || !model) return null;
+    const open = () => onSelectModel
+      ? onSelectModel(booth.hallId, booth.brand.id, model.name)
+      : onSelectBrand(booth.hallId, booth.brand.id);
+
+    return (
+      <div
+          key={`model-${booth.brand.id}-${model.name}`}
+          role="button"
+          onClick={open}
+          className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-colors text-left group cursor-pointer"
+      >
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] text-sky-300 bg-sky-950/60 border border-sky-800 rounded px-1 shrink-0">车型</span>
+                <h4 className="text-slate-200 font-bold text-base truncate">
+                    {result.field === 'model' ? renderHighlighted(model.name, result.ranges) : model.name}
+                </h4>
+                {model.highlight && (
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded whitespace-nowrap shrink-0 ${getTagStyle(model.highlight)}`}>
+                        {result.field === 'tag' ? renderHighlighted(model.highlight, result.ranges) : model.highlight}
+                    </span>
+                )}
+            </div>
+            <p className="text-[10px] text-slate-500">{entity.name}</p>
+            {result.field === 'note' && renderMatchLine(result)}
+          </div>
+          <div className="flex items-center gap-1.5 shrink-0 ml-3">
+              <span className="text-amber-500 font-mono font-bold text-sm">{booth.brand.booth}</span>
+              <span className="text-xs text-slate-600 bg-slate-900 px-1.5 py-0.5 rounded border border-slate-800 group-hover:border-slate-600 group-hover:text-slate-500">
+                  {booth.hallCode}馆
+              </span>
+              {renderCompareToggle({ brandId: booth.brand.id, modelName: model.name })}
+          </div>
+      </div>
     );
-  }, [allBrands, searchQuery]);
+  };
 
   return (
     <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
@@ -54,12 +215,12 @@ const BrandSearch: React.FC<BrandSearchProps> = ({ halls, onClose, onSelectBrand
             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500">
               <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z" />
             </svg>
-            <input 
+            <input
                 type="text"
-                placeholder="搜索品牌、车型..."
+                placeholder="搜索品牌、车型、标签、备注 (支持拼音/英文)..."
                 className="w-full bg-slate-800 text-white text-sm rounded-full py-1.5 pl-8 pr-4 border border-slate-700 focus:outline-none focus:border-blue-500 placeholder-slate-500"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => handleQueryChange(e.target.value)}
                 autoFocus
             />
         </div>
@@ -67,30 +228,15 @@ const BrandSearch: React.FC<BrandSearchProps> = ({ halls, onClose, onSelectBrand
 
       {/* List */}
       <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
-        {filteredBrands.length === 0 ? (
-            <div className="text-center text-slate-500 mt-10">未找到相关品牌</div>
+        {!isSearching ? (
+            <div className="space-y-1">
+                {allBrands.map(entity => renderBrandRow(entity))}
+            </div>
+        ) : results.length === 0 ? (
+            <div className="text-center text-slate-500 mt-10">未找到相关品牌或车型</div>
         ) : (
             <div className="space-y-1">
-                {filteredBrands.map(item => (
-                    <button 
-                        key={`${item.hallId}-${item.brandId}`}
-                        onClick={() => onSelectBrand(item.hallId, item.brandId)}
-                        className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-slate-800 border border-transparent hover:border-slate-700 transition-colors text-left group"
-                    >
-                        <div>
-                            <h4 className="text-slate-200 font-bold text-base">{item.brandName}</h4>
-                            {item.models && (
-                                <p className="text-xs text-slate-500 mt-0.5 truncate max-w-[200px]">{item.models}</p>
-                            )}
-                        </div>
-                        <div className="flex flex-col items-end">
-                            <span className="text-amber-500 font-mono font-bold text-sm">{item.booth}</span>
-                            <span className="text-xs text-slate-600 bg-slate-900 px-1.5 py-0.5 rounded border border-slate-800 mt-1 group-hover:border-slate-600 group-hover:text-slate-500">
-                                {item.hallCode}馆
-                            </span>
-                        </div>
-                    </button>
-                ))}
+                {results.map(result => result.kind === 'brand' ? renderBrandRow(result.entity, result) : renderModelRow(result))}
             </div>
         )}
       </div>
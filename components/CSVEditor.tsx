@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Hall, ShowEvent } from '../types';
+import { CATEGORIES, KNOWN_COLUMNS } from '../utils/csvLoader';
+import {
+  EditorIssue, EditorSheet, buildPreview, createRow, lineOfRow, loadDraft, saveDraft, sheetFromCSV, sheetToCSV, validateSheet
+} from '../utils/csvEditor';
+import { downloadFile } from '../utils/report';
+
+interface CSVEditorProps {
+  event: ShowEvent;
+  onPreview: (halls: Hall[]) => void; // Show the edited data on the map and in the hall lists
+  onClose: () => void;
+}
+
+type LoadState = { status: 'loading' } | { status: 'error'; message: string } | { status: 'ready' };
+
+// Columns that get a narrow input; the rest share the remaining width
+const NARROW_COLUMNS = ['Hall', 'Booth', 'Category', 'Tag', 'BoothX', 'BoothY', 'Stage'];
+// Carried over when adding a row below another, so adding a model to a booth is one click
+const BOOTH_COLUMNS = ['Hall', 'Booth', 'Brand'];
+
+// Admin table editor for the edition's exhibitor CSV (#/admin), with inline validation and download
+const CSVEditor: React.FC<CSVEditorProps> = ({ event, onPreview, onClose }) => {
+  const [sheet, setSheet] = useState<EditorSheet | null>(() => loadDraft(event.id));
+  const [isDraft, setIsDraft] = useState(() => sheet !== null);
+  const [loadState, setLoadState] = useState<LoadState>(() => (sheet ? { status: 'ready' } : { status: 'loading' }));
+  const [hallFilter, setHallFilter] = useState('');
+  const [query, setQuery] = useState('');
+  const [onlyIssues, setOnlyIssues] = useState(false);
+
+  const hallCodes = useMemo(() => event.halls.map(h => h.code), [event]);
+  const filename = event.dataUrl.split('/').pop() || 'brands.csv';
+
+  const loadOriginal = async () => {
+    setLoadState({ status: 'loading' });
+    try {
+      const response = await fetch(event.dataUrl, { cache: 'no-cache' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setSheet(sheetFromCSV(await response.text()));
+      setIsDraft(false);
+      saveDraft(event.id, null);
+      setLoadState({ status: 'ready' });
+    } catch (error) {
+      setLoadState({ status: 'error', message: `无法加载 ${event.dataUrl}: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  useEffect(() => {
+    if (!sheet) loadOriginal();
+  }, [event.id]);
+
+  const issues = useMemo(() => (sheet ? validateSheet(sheet, hallCodes) : []), [sheet, hallCodes]);
+  const issuesByRow = useMemo(() => {
+    const map = new Map<number, EditorIssue[]>();
+    issues.forEach(issue => map.set(issue.rowId, [...(map.get(issue.rowId) || []), issue]));
+    return map;
+  }, [issues]);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  // Every edit goes through here and is kept as a draft
+  const updateSheet = (next: EditorSheet) => {
+    setSheet(next);
+    setIsDraft(true);
+    saveDraft(event.id, next);
+  };
+
+  if (!sheet || loadState.status !== 'ready') {
+    return (
+      <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col items-center justify-center gap-3 text-sm text-slate-400">
+        {loadState.status === 'error' ? (
+          <>
+            <p className="text-red-400">{loadState.message}</p>
+            <button onClick={loadOriginal} className="text-slate-200 underline">重试</button>
+            <button onClick={onClose} className="text-slate-500">返回</button>
+          </>
+        ) : '正在加载 CSV…'}
+      </div>
+    );
+  }
+
+  const col = (name: string) => sheet.columns.indexOf(name);
+  const setCell = (rowId: number, columnIndex: number, value: string) => updateSheet({
+    ...sheet,
+    rows: sheet.rows.map(row => row.id === rowId
+      ? { ...row, cells: row.cells.map((cell, i) => (i === columnIndex ? value : cell)) }
+      : row)
+  });
+
+  const addRowAfter = (rowId: number | null) => {
+    const source = rowId === null ? null : sheet.rows.find(r => r.id === rowId);
+    const cells = sheet.columns.map((name, i) => {
+      if (source && BOOTH_COLUMNS.includes(name)) return source.cells[i];
+      if (!source && name === 'Hall') return hallFilter;
+      if (name === 'Category') return source ? 'Key' : 'Info';
+      return '';
+    });
+    const at = source ? sheet.rows.indexOf(source) + 1 : sheet.rows.length;
+    updateSheet({ ...sheet, rows: [...sheet.rows.slice(0, at), createRow(cells), ...sheet.rows.slice(at)] });
+  };
+
+  const deleteRow = (rowId: number) => updateSheet({ ...sheet, rows: sheet.rows.filter(r => r.id !== rowId) });
+
+  const addColumn = (name: string) => {
+    if (!name || sheet.columns.includes(name)) return;
+    updateSheet({ columns: [...sheet.columns, name], rows: sheet.rows.map(r => ({ ...r, cells: [...r.cells, ''] })) });
+  };
+
+  const handleDownload = () => {
+    if (errorCount > 0 && !window.confirm(`还有 ${errorCount} 个错误，这些行在地图上会被跳过。仍要下载吗？`)) return;
+    downloadFile(filename, sheetToCSV(sheet), 'text/csv');
+  };
+
+  const handleReset = () => {
+    if (window.confirm('放弃所有未下载的修改，重新载入原文件？')) loadOriginal();
+  };
+
+  const scrollToRow = (rowId: number) => {
+    setHallFilter('');
+    setQuery('');
+    setTimeout(() => document.getElementById(`csv-row-${rowId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' }), 0);
+  };
+
+  const q = query.trim().toLowerCase();
+  const visibleRows = sheet.rows.filter(row =>
+    (!hallFilter || row.cells[col('Hall')] === hallFilter) &&
+    (!q || row.cells.some(cell => cell.toLowerCase().includes(q))) &&
+    (!onlyIssues || issuesByRow.has(row.id))
+  );
+  const missingColumns = KNOWN_COLUMNS.filter(name => !sheet.columns.includes(name));
+  const fileIssues = issuesByRow.get(0) || [];
+
+  const inputClass = (issue?: EditorIssue) =>
+    `w-full bg-transparent px-1.5 py-1 text-xs text-slate-200 rounded border focus:outline-none focus:border-amber-500 ${
+      issue ? (issue.severity === 'error' ? 'border-red-600 bg-red-950/40' : 'border-amber-600 bg-amber-950/30') : 'border-transparent hover:border-slate-700'
+    }`;
+
+  const renderCell = (rowId: number, cells: string[], name: string, index: number, rowIssues: EditorIssue[]) => {
+    const issue = rowIssues.find(i => i.column === name);
+    const value = cells[index];
+    const common = { className: inputClass(issue), title: issue?.message };
+    if (name === 'Hall' || name === 'Category') {
+      const options = name === 'Hall' ? hallCodes : CATEGORIES;
+      return (
+        <select {...common} value={value} onChange={(e) => setCell(rowId, index, e.target.value)}>
+          {!options.includes(value) && <option value={value}>{value || '—'}</option>}
+          {options.map(option => <option key={option} value={option} className="bg-slate-900">{option}</option>)}
+        </select>
+      );
+    }
+    return <input {...common} value={value} onChange={(e) => setCell(rowId, index, e.target.value)} />;
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white truncate">
+          数据编辑 · {filename}
+          {isDraft && <span className="ml-2 text-xs font-normal text-amber-400">未下载的修改</span>}
+        </h2>
+        <span className="text-xs text-slate-400 hidden sm:inline">
+          <span className={errorCount > 0 ? 'text-red-400 font-bold' : ''}>{errorCount} 错误</span> · {warningCount} 警告
+        </span>
+        <button
+          onClick={() => onPreview(buildPreview(sheet, event).halls)}
+          className="text-xs text-slate-200 bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-full shrink-0"
+        >
+          地图预览
+        </button>
+        <button
+          onClick={handleDownload}
+          className="text-xs font-bold text-slate-950 bg-amber-500 hover:bg-amber-400 px-3 py-1.5 rounded-full shrink-0"
+        >
+          下载 CSV
+        </button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-slate-800 bg-slate-900/60 text-xs shrink-0">
+        <select value={hallFilter} onChange={(e) => setHallFilter(e.target.value)} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300">
+          <option value="">全部展馆</option>
+          {hallCodes.map(code => <option key={code} value={code}>{code}</option>)}
+        </select>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索品牌、车型、备注…"
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 placeholder-slate-500 w-40 focus:outline-none focus:border-amber-500"
+        />
+        <label className="flex items-center gap-1 text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={onlyIssues} onChange={(e) => setOnlyIssues(e.target.checked)} className="accent-amber-500" />
+          只看有问题的行
+        </label>
+        <span className="text-slate-500">{visibleRows.length} / {sheet.rows.length} 行</span>
+        <div className="flex-1"></div>
+        {missingColumns.length > 0 && (
+          <select value="" onChange={(e) => addColumn(e.target.value)} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300">
+            <option value="">+ 添加列</option>
+            {missingColumns.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+        <button onClick={() => addRowAfter(null)} className="border border-slate-700 rounded px-2 py-1 text-slate-200 hover:bg-slate-800">+ 新增展位</button>
+        <button onClick={handleReset} className="border border-slate-700 rounded px-2 py-1 text-slate-400 hover:bg-slate-800">重新载入原文件</button>
+      </div>
+
+      {/* Problems */}
+      {issues.length > 0 && (
+        <details className="px-4 py-2 border-b border-slate-800 text-xs shrink-0">
+          <summary className="cursor-pointer text-slate-300">问题列表 ({issues.length})</summary>
+          <ul className="mt-2 max-h-32 overflow-y-auto custom-scrollbar space-y-0.5">
+            {fileIssues.map((issue, idx) => <li key={`file-${idx}`} className="text-red-400">{issue.message}</li>)}
+            {issues.filter(issue => issue.rowId !== 0).map((issue, idx) => (
+              <li key={idx}>
+                <button onClick={() => scrollToRow(issue.rowId)} className="text-left hover:underline">
+                  <span className="font-mono text-slate-500 mr-2">第 {lineOfRow(sheet, issue.rowId)} 行</span>
+                  <span className={issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}>
+                    {issue.column && `${issue.column}: `}{issue.message}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {/* Table */}
+      <div className="flex-1 overflow-auto custom-scrollbar">
+        <table className="text-xs border-separate border-spacing-0 min-w-full">
+          <thead className="sticky top-0 bg-slate-900 z-10">
+            <tr className="text-[10px] text-slate-500 uppercase tracking-wider text-left">
+              <th className="font-bold px-2 py-1.5 w-10 text-right">行</th>
+              {sheet.columns.map(name => (
+                <th key={name} className={`font-bold px-1.5 py-1.5 ${NARROW_COLUMNS.includes(name) ? 'w-20' : 'min-w-40'}`}>{name}</th>
+              ))}
+              <th className="px-2 py-1.5"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => {
+              const rowIssues = issuesByRow.get(row.id) || [];
+              const hasError = rowIssues.some(i => i.severity === 'error');
+              return (
+                <tr key={row.id} id={`csv-row-${row.id}`} className="border-b border-slate-800/60 hover:bg-slate-900/60">
+                  <td
+                    className={`px-2 text-right font-mono border-l-2 ${hasError ? 'border-red-500 text-red-400' : rowIssues.length > 0 ? 'border-amber-500 text-amber-400' : 'border-transparent text-slate-600'}`}
+                    title={rowIssues.map(i => i.message).join('\n')}
+                  >
+                    {lineOfRow(sheet, row.id)}
+                  </td>
+                  {sheet.columns.map((name, index) => (
+                    <td key={name} className="px-0.5 py-0.5">{renderCell(row.id, row.cells, name, index, rowIssues)}</td>
+                  ))}
+                  <td className="px-2 whitespace-nowrap">
+                    <button onClick={() => addRowAfter(row.id)} className="text-slate-500 hover:text-white px-1" title="在下方新增同展位的行">+</button>
+                    <button onClick={() => deleteRow(row.id)} className="text-slate-600 hover:text-red-400 px-1" title="删除该行">✕</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && <div className="text-center text-slate-500 py-10 text-sm">没有符合条件的行</div>}
+      </div>
+    </div>
+  );
+};
+
+export default CSVEditor;
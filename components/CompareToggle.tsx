@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface CompareToggleProps {
+  active: boolean;
+  disabled?: boolean; // Tray is full and this item isn't in it
+  onToggle: () => void;
+  className?: string;
+}
+
+// Adds a booth or model to the compare tray; like FavoriteStar it doesn't let the click reach the card
+const CompareToggle: React.FC<CompareToggleProps> = ({ active, disabled = false, onToggle, className = 'w-5 h-5' }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onToggle(); }}
+    disabled={disabled}
+    className={`p-1 rounded-full transition-colors shrink-0 disabled:opacity-30 disabled:cursor-not-allowed ${active ? 'text-sky-400 hover:text-sky-300' : 'text-slate-600 hover:text-slate-300'}`}
+    title={active ? '移出对比' : disabled ? '对比栏已满' : '加入对比'}
+    aria-pressed={active}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v17.25m0 0c-1.472 0-2.882.265-4.185.75M12 20.25c1.472 0 2.882.265 4.185.75M18.75 4.97A48.416 48.416 0 0 0 12 4.5c-2.291 0-4.545.16-6.75.47m13.5 0c1.01.143 2.01.317 3 .52m-3-.52 2.62 10.726c.122.499-.106 1.028-.589 1.202a5.988 5.988 0 0 1-2.031.352 5.988 5.988 0 0 1-2.031-.352c-.483-.174-.711-.703-.59-1.202L18.75 4.971Zm-16.5.52c.99-.203 1.99-.377 3-.52m0 0 2.62 10.726c.122.499-.106 1.028-.589 1.202a5.989 5.989 0 0 1-2.031.352 5.989 5.989 0 0 1-2.031-.352c-.483-.174-.711-.703-.59-1.202L5.25 4.971Z" />
+    </svg>
+  </button>
+);
+
+export default CompareToggle;
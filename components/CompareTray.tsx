@@ -0,0 +1,40 @@
+import React from 'react';
+import { CompareItem } from '../types';
+import { CompareColumn, MAX_COMPARE_ITEMS, columnLabel, getCompareKey } from '../utils/compare';
+
+interface CompareTrayProps {
+  columns: CompareColumn[];
+  onRemove: (item: CompareItem) => void;
+  onClear: () => void;
+  onOpen: () => void;
+}
+
+// Floating bar listing what has been picked for comparison, over the map, hall list and search
+const CompareTray: React.FC<CompareTrayProps> = ({ columns, onRemove, onClear, onOpen }) => (
+  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[55] w-[calc(100%-2rem)] max-w-2xl bg-slate-900/95 backdrop-blur border border-sky-800/60 rounded-xl shadow-2xl px-3 py-2 flex items-center gap-2">
+    <div className="flex-1 flex items-center gap-1.5 overflow-x-auto custom-scrollbar">
+      {columns.map(column => (
+        <span
+          key={getCompareKey(column.item)}
+          className="flex items-center gap-1 shrink-0 text-xs bg-sky-950/60 border border-sky-800 text-sky-100 rounded-full pl-2.5 pr-1 py-1"
+        >
+          {column.model && <span className="text-[10px] text-sky-400">车型</span>}
+          {columnLabel(column)}
+          <button onClick={() => onRemove(column.item)} className="px-1 text-sky-400 hover:text-white" aria-label="移出对比">✕</button>
+        </span>
+      ))}
+    </div>
+    <span className="text-[10px] text-slate-500 shrink-0">{columns.length}/{MAX_COMPARE_ITEMS}</span>
+    <button onClick={onClear} className="text-xs text-slate-400 hover:text-white px-1 shrink-0">清空</button>
+    <button
+      onClick={onOpen}
+      disabled={columns.length < 2}
+      className="text-xs font-bold px-3 py-1.5 rounded-full bg-sky-500 hover:bg-sky-400 text-slate-950 disabled:opacity-40 disabled:hover:bg-sky-500 shrink-0"
+      title={columns.length < 2 ? '至少选择两项' : undefined}
+    >
+      对比
+    </button>
+  </div>
+);
+
+export default CompareTray;
@@ -0,0 +1,294 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CarModel, CompareItem, ComparisonInsight, ComparisonSubject, FieldNote, MarketSnapshot, ShowEvent } from '../types';
+import { getComparisonInsight, getCachedComparison } from '../services/insightCache';
+import { resolveListing } from '../services/marketData';
+import { CompareColumn, MAX_COMPARE_ITEMS, columnLabel, getCompareKey } from '../utils/compare';
+import { getModelNotes } from '../utils/fieldNotes';
+import { formatClock } from '../utils/schedule';
+import { getTagStyle } from '../utils/tagStyle';
+import TickerChip from './TickerChip';
+import BrandLogo from './BrandLogo';
+
+interface CompareViewProps {
+  columns: CompareColumn[];
+  event: ShowEvent;
+  fieldNotes: FieldNote[];
+  marketData?: MarketSnapshot | null; // Ticker chips and the numbers sent with the comparison prompt
+  onRemove: (item: CompareItem) => void;
+  onSelectBrand: (hallId: string, brandId: string) => void;
+  onClose: () => void;
+}
+
+type ComparisonState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'done'; insight: ComparisonInsight };
+
+// Model name with its tag, price / powertrain / launch line and CSV note
+const ModelLine: React.FC<{ model: CarModel; showNote?: boolean }> = ({ model, showNote = false }) => {
+  const launch = model.launchTime ? new Date(model.launchTime) : null;
+  return (
+    <div className="py-1">
+      <div className="flex items-center gap-1.5 flex-wrap">
+        <span className="text-sm text-slate-100 font-medium">{model.name}</span>
+        {model.highlight && (
+          <span className={`text-[10px] px-1.5 py-0.5 rounded whitespace-nowrap ${getTagStyle(model.highlight)}`}>{model.highlight}</span>
+        )}
+      </div>
+      {(model.price || model.powertrain || model.launchTime) && (
+        <div className="flex items-center gap-1.5 flex-wrap text-[11px] text-slate-400 mt-0.5">
+          {launch && <span className="font-mono text-red-300">{launch.getMonth() + 1}/{launch.getDate()} {formatClock(launch)}</span>}
+          {model.powertrain && <span className="font-mono text-emerald-300">{model.powertrain}</span>}
+          {model.price && <span>{model.price}</span>}
+        </div>
+      )}
+      {showNote && model.note && <p className="text-xs text-slate-400 mt-1 leading-relaxed">{model.note}</p>}
+    </div>
+  );
+};
+
+// Comparative commentary, fetched on demand; remounted whenever the set of columns changes
+const ComparisonPanel: React.FC<{ subjects: ComparisonSubject[] }> = ({ subjects }) => {
+  const [state, setState] = useState<ComparisonState>(() => {
+    const cached = getCachedComparison(subjects);
+    return cached ? { status: 'done', insight: cached } : { status: 'idle' };
+  });
+
+  // Ignore responses that arrive after the view has been closed
+  const isMounted = useRef(true);
+  useEffect(() => {
+    isMounted.current = true;
+    return () => { isMounted.current = false; };
+  }, []);
+
+  const loadComparison = async (refresh = false) => {
+    setState({ status: 'loading' });
+    try {
+      const insight = await getComparisonInsight(subjects, refresh);
+      if (isMounted.current) setState({ status: 'done', insight });
+    } catch {
+      if (isMounted.current) setState({ status: 'error' });
+    }
+  };
+
+  return (
+    <section className="max-w-3xl">
+      <div className="text-[10px] font-bold text-sky-400/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+        <span className="w-1 h-1 rounded-full bg-sky-400 inline-block"></span>
+        AI 对比点评 (COMPARISON)
+      </div>
+
+      {state.status === 'idle' && (
+        <button
+          onClick={() => loadComparison()}
+          className="flex items-center gap-1.5 bg-sky-950/40 hover:bg-sky-900/50 border border-sky-800/60 text-sky-200 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09Z" />
+          </svg>
+          生成对比点评
+        </button>
+      )}
+
+      {state.status === 'loading' && (
+        <div className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-lg px-3 py-2.5 text-sm text-slate-300">
+          <svg className="animate-spin h-4 w-4 text-sky-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          正在对比 {subjects.length} 项...
+        </div>
+      )}
+
+      {state.status === 'error' && (
+        <div className="flex items-center justify-between gap-2 bg-red-950/40 border border-red-900/60 rounded-lg px-3 py-2.5 text-sm text-red-200">
+          <span>AI 请求失败，请检查网络后重试</span>
+          <button
+            onClick={() => loadComparison()}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-red-900/60 hover:bg-red-800/60 border border-red-700 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state.status === 'done' && state.insight.isFallback && (
+        <div className="flex items-center justify-between gap-2 bg-slate-900 border border-dashed border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-400">
+          <span>{state.insight.analysis}</span>
+          <button
+            onClick={() => loadComparison()}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-300 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state.status === 'done' && !state.insight.isFallback && (
+        <div className="bg-slate-900 rounded-lg p-3 border border-slate-800 text-sm text-slate-200 leading-relaxed">
+          <div className="flex items-center justify-between mb-2 gap-2">
+            {state.insight.leader ? (
+              <span className="text-xs font-bold px-2 py-0.5 rounded bg-emerald-900/60 text-emerald-200 border border-emerald-700">
+                领先: {state.insight.leader}
+              </span>
+            ) : <span></span>}
+            <button
+              onClick={() => loadComparison(true)}
+              className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+              title="重新生成"
+            >
+              刷新
+            </button>
+          </div>
+          {state.insight.analysis}
+        </div>
+      )}
+    </section>
+  );
+};
+
+// Booths and single models from any hall side by side, one column each, with rows aligned across columns
+const CompareView: React.FC<CompareViewProps> = ({ columns, event, fieldNotes, marketData = null, onRemove, onSelectBrand, onClose }) => {
+  const subjects: ComparisonSubject[] = columns.map(({ hall, brand, model }) => ({
+    brand,
+    model,
+    context: {
+      zone: hall.type,
+      hallCode: hall.code,
+      eventId: event.id,
+      eventName: `${event.year} ${event.name}`,
+      listing: resolveListing(brand, marketData)
+    }
+  }));
+  const subjectsKey = columns.map(c => getCompareKey(c.item)).join('|');
+
+  const notesFor = (column: CompareColumn) => column.model
+    ? getModelNotes(fieldNotes, column.brand.id, column.model.name)
+    : fieldNotes.filter(note => note.brandId === column.brand.id);
+
+  // Label in the first column, then one cell per compared item
+  const renderRow = (label: string, renderCell: (column: CompareColumn) => React.ReactNode) => (
+    <>
+      <div className="sticky left-0 z-10 bg-slate-950 py-3 pr-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider border-t border-slate-800">
+        {label}
+      </div>
+      {columns.map(column => (
+        <div key={getCompareKey(column.item)} className="py-3 px-3 border-t border-l border-slate-800 text-sm text-slate-300 min-w-0">
+          {renderCell(column)}
+        </div>
+      ))}
+    </>
+  );
+
+  const empty = <span className="text-slate-600">—</span>;
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white truncate">品牌对比</h2>
+        <span className="text-xs text-slate-500">{columns.length}/{MAX_COMPARE_ITEMS}</span>
+      </div>
+
+      <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-6">
+        {columns.length < 2 ? (
+          <div className="text-center text-slate-500 mt-10 text-sm">
+            至少需要两个品牌或车型才能对比。在展馆列表或搜索结果中点击天平图标加入对比。
+          </div>
+        ) : (
+          <>
+            <ComparisonPanel key={subjectsKey} subjects={subjects} />
+
+            <div
+              className="grid min-w-max"
+              style={{ gridTemplateColumns: `5.5rem repeat(${columns.length}, minmax(13rem, 18rem))` }}
+            >
+              {/* Column headers */}
+              <div className="sticky left-0 z-10 bg-slate-950"></div>
+              {columns.map((column, index) => (
+                <div key={getCompareKey(column.item)} className="px-3 pb-3 border-l border-slate-800 min-w-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {column.brand.logo && <BrandLogo src={column.brand.logo} name={column.brand.name} className="w-7 h-7" />}
+                      <div className="min-w-0">
+                        <h3 className="font-bold text-white text-base truncate">{column.model ? column.model.name : column.brand.name}</h3>
+                        {column.model && <p className="text-[11px] text-slate-500 truncate">{column.brand.name}</p>}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onRemove(column.item)}
+                      className="text-slate-500 hover:text-white px-1 shrink-0"
+                      aria-label={`移出对比: ${columnLabel(column)}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {subjects[index].context.listing && <TickerChip listing={subjects[index].context.listing} className="mt-1.5" />}
+                </div>
+              ))}
+
+              {renderRow('展位', column => (
+                <button
+                  onClick={() => onSelectBrand(column.hall.id, column.brand.id)}
+                  className="flex items-center gap-1.5 hover:opacity-80 text-left"
+                  title="在展馆中查看"
+                >
+                  <span className="text-amber-500 font-mono font-bold">{column.brand.booth}</span>
+                  <span className="text-xs text-slate-500 bg-slate-900 px-1.5 py-0.5 rounded border border-slate-800">
+                    {column.hall.code}馆 · {column.hall.floor}楼
+                  </span>
+                </button>
+              ))}
+
+              {renderRow('展区', column => <span className="text-emerald-400">{column.hall.type}</span>)}
+
+              {renderRow('简介', column => column.brand.description
+                ? <p className="text-xs leading-relaxed text-blue-200">{column.brand.description}</p>
+                : empty
+              )}
+
+              {renderRow('重点新车', column => {
+                const models = column.model ? [column.model] : column.brand.models;
+                return models.length > 0
+                  ? <div className="divide-y divide-slate-800/60">{models.map(m => <ModelLine key={m.name} model={m} showNote />)}</div>
+                  : empty;
+              })}
+
+              {renderRow('全系参展', column => {
+                // A single-model column lists the rest of its booth's line-up for context
+                const models = (column.brand.fullModelList || []).filter(m => m.name !== column.model?.name);
+                return models.length > 0
+                  ? <div className="divide-y divide-slate-800/60">{models.map(m => <ModelLine key={m.name} model={m} />)}</div>
+                  : empty;
+              })}
+
+              {renderRow('我的笔记', column => {
+                const notes = notesFor(column);
+                return notes.length > 0 ? (
+                  <ul className="space-y-1.5">
+                    {notes.map(note => (
+                      <li key={note.id} className="text-xs text-slate-300 leading-relaxed">
+                        {!column.model && note.modelName && <span className="text-sky-300 mr-1">{note.modelName}</span>}
+                        {note.author && <span className="text-slate-500 mr-1">{note.author}:</span>}
+                        {note.text}
+                        {note.photoIds.length > 0 && <span className="text-slate-500 ml-1">📷{note.photoIds.length}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                ) : empty;
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
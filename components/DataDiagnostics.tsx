@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { CSVDiagnostic } from '../types';
+
+interface DataDiagnosticsProps {
+  diagnostics: CSVDiagnostic[];
+}
+
+// Header badge listing problems found while loading brands.csv
+const DataDiagnostics: React.FC<DataDiagnosticsProps> = ({ diagnostics }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 px-2.5 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+          errorCount > 0
+            ? 'bg-red-950/60 border-red-800 text-red-200 hover:bg-red-900/60'
+            : 'bg-amber-950/60 border-amber-800 text-amber-200 hover:bg-amber-900/60'
+        }`}
+        title="数据加载问题"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126ZM12 15.75h.007v.008H12v-.008Z" />
+        </svg>
+        {diagnostics.length}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-h-80 overflow-y-auto custom-scrollbar bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-50">
+          <div className="px-3 py-2 border-b border-slate-800 text-xs font-bold text-slate-300 sticky top-0 bg-slate-900">
+            brands.csv 数据问题 ({diagnostics.length})
+          </div>
+          <ul className="divide-y divide-slate-800">
+            {diagnostics.map((d, idx) => (
+              <li key={idx} className="px-3 py-2 text-xs flex gap-2">
+                <span className={`font-mono shrink-0 ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                  {d.line > 0 ? `L${d.line}` : '文件'}
+                </span>
+                <span className="text-slate-300">{d.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataDiagnostics;
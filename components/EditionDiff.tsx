@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BrandChange, Hall, ShowEvent } from '../types';
+import { loadEventData } from '../utils/eventData';
+import { diffEditions } from '../utils/eventDiff';
+import { buildHallsFromRecords } from '../utils/csvLoader';
+import { parseCSV } from '../utils/csvParser';
+
+interface EditionDiffProps {
+  event: ShowEvent;
+  previousEvent?: ShowEvent; // Registered earlier edition of the same show, if any
+  currentHalls: Hall[];
+  onClose: () => void;
+  onOpenBrand: (entityId: string) => void;
+}
+
+type Baseline =
+  | { status: 'none' }
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; label: string; halls: Hall[]; skippedRows: number };
+
+const KIND_STYLES: Record<BrandChange['kind'], { label: string; className: string }> = {
+  added: { label: '新增', className: 'bg-emerald-900/60 text-emerald-200 border-emerald-700' },
+  moved: { label: '换展位', className: 'bg-amber-900/60 text-amber-200 border-amber-700' },
+  removed: { label: '缺席', className: 'bg-red-900/60 text-red-200 border-red-700' },
+  unchanged: { label: '未变', className: 'bg-slate-800 text-slate-400 border-slate-700' }
+};
+
+// "Changes vs last edition": which exhibitors are new, gone or in a different booth
+const EditionDiff: React.FC<EditionDiffProps> = ({ event, previousEvent, currentHalls, onClose, onOpenBrand }) => {
+  const [baseline, setBaseline] = useState<Baseline>({ status: previousEvent ? 'loading' : 'none' });
+  const [kindFilter, setKindFilter] = useState<BrandChange['kind'] | 'all'>('all');
+
+  useEffect(() => {
+    if (!previousEvent) return;
+    let cancelled = false;
+    setBaseline({ status: 'loading' });
+    loadEventData(previousEvent).then(result => {
+      if (cancelled) return;
+      // A file that couldn't be fetched at all is reported on line 0
+      const failure = result.diagnostics.find(d => d.line === 0 && d.severity === 'error');
+      if (failure) {
+        setBaseline({ status: 'error', message: failure.message });
+        return;
+      }
+      setBaseline({
+        status: 'ready',
+        label: `${previousEvent.year} ${previousEvent.name}`,
+        halls: result.halls,
+        skippedRows: result.diagnostics.filter(d => d.severity === 'error').length
+      });
+    }).catch(error => {
+      console.error("Failed to load previous edition:", error);
+      if (!cancelled) setBaseline({ status: 'error', message: '上一届数据加载失败' });
+    });
+    return () => { cancelled = true; };
+  }, [previousEvent]);
+
+  // Without a registered previous edition, last year's CSV can be picked from the device.
+  // Its rows are matched against this edition's halls.
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = ''; // Lets the same file be picked again after fixing it
+    setBaseline({ status: 'loading' });
+    try {
+      const result = buildHallsFromRecords(parseCSV(await file.text()), event.halls, {});
+      setBaseline({
+        status: 'ready',
+        label: file.name,
+        halls: result.halls,
+        skippedRows: result.diagnostics.filter(d => d.severity === 'error').length
+      });
+    } catch (error) {
+      console.error("Failed to read CSV file:", error);
+      setBaseline({ status: 'error', message: `无法读取 ${file.name}` });
+    }
+  };
+
+  const changes = useMemo(
+    () => (baseline.status === 'ready' ? diffEditions(baseline.halls, currentHalls) : []),
+    [baseline, currentHalls]
+  );
+  const counts = changes.reduce<Record<string, number>>((acc, c) => ({ ...acc, [c.kind]: (acc[c.kind] || 0) + 1 }), {});
+  const visible = kindFilter === 'all' ? changes.filter(c => c.kind !== 'unchanged') : changes.filter(c => c.kind === kindFilter);
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <div className="flex-1 min-w-0">
+          <h2 className="font-bold text-base text-white truncate">{event.year} {event.name} · 与上届对比</h2>
+          {baseline.status === 'ready' && <p className="text-[11px] text-slate-500 leading-tight truncate">对比基准: {baseline.label}</p>}
+        </div>
+        <label className="text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-full cursor-pointer shrink-0">
+          载入 CSV
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+        {baseline.status === 'none' && (
+          <div className="text-center text-slate-500 mt-10 text-sm leading-relaxed">
+            尚未登记上一届 {event.name} 的数据<br />
+            可点击右上角「载入 CSV」选择上一届的 brands.csv 进行对比
+          </div>
+        )}
+
+        {baseline.status === 'loading' && (
+          <div className="text-center text-slate-500 mt-10 text-sm">正在加载上一届数据...</div>
+        )}
+
+        {baseline.status === 'error' && (
+          <div className="text-center text-red-300 mt-10 text-sm leading-relaxed">
+            {baseline.message}<br />
+            <span className="text-slate-500">可点击右上角「载入 CSV」重新选择文件</span>
+          </div>
+        )}
+
+        {baseline.status === 'ready' && (
+          <>
+            {/* Summary / filter chips */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(['added', 'moved', 'removed', 'unchanged'] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setKindFilter(kindFilter === kind ? 'all' : kind)}
+                  className={`text-xs px-3 py-1 rounded-full border transition-colors ${KIND_STYLES[kind].className} ${
+                    kindFilter === kind ? 'ring-2 ring-white/40' : 'opacity-80 hover:opacity-100'
+                  }`}
+                >
+                  {KIND_STYLES[kind].label} {counts[kind] || 0}
+                </button>
+              ))}
+            </div>
+            {baseline.skippedRows > 0 && (
+              <p className="text-[11px] text-amber-400/80 mb-3">上一届数据中有 {baseline.skippedRows} 行无法匹配本届展馆，已忽略</p>
+            )}
+
+            {visible.length === 0 ? (
+              <div className="text-center text-slate-500 mt-10 text-sm">没有变化</div>
+            ) : (
+              <ul className="space-y-1">
+                {visible.map(change => (
+                  <li key={change.id}>
+                    <button
+                      onClick={() => change.kind !== 'removed' && onOpenBrand(change.id)}
+                      disabled={change.kind === 'removed'}
+                      className="w-full flex items-center justify-between gap-3 p-3 rounded-lg border border-transparent hover:bg-slate-800 hover:border-slate-700 disabled:hover:bg-transparent disabled:hover:border-transparent transition-colors text-left"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border shrink-0 ${KIND_STYLES[change.kind].className}`}>
+                          {KIND_STYLES[change.kind].label}
+                        </span>
+                        <span className="font-bold text-slate-200 truncate">{change.name}</span>
+                      </div>
+                      <div className="text-xs font-mono text-right shrink-0">
+                        {change.before.length > 0 && change.kind !== 'unchanged' && (
+                          <div className="text-slate-500 line-through">{change.before.join(', ')}</div>
+                        )}
+                        {change.after.length > 0 && <div className="text-amber-500">{change.after.join(', ')}</div>}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EditionDiff;
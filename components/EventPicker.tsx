@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ShowEvent } from '../types';
+
+interface EventPickerProps {
+  events: ShowEvent[];
+  activeEvent: ShowEvent;
+  onSelectEvent: (eventId: string) => void;
+  onOpenChanges: () => void;
+  onOpenExport: () => void;
+  onOpenShare: () => void;
+}
+
+const formatDates = (event: ShowEvent) =>
+  `${event.startDate.slice(5).replace('-', '/')} – ${event.endDate.slice(5).replace('-', '/')}`;
+
+// Header title doubling as the show-edition switcher
+const EventPicker: React.FC<EventPickerProps> = ({ events, activeEvent, onSelectEvent, onOpenChanges, onOpenExport, onOpenShare }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-1 text-left" title="切换车展">
+        <h1 className="font-bold text-sm sm:text-base tracking-tight text-white leading-tight">
+          {activeEvent.year} {activeEvent.name} <span className="text-blue-400 font-normal text-xs block sm:inline sm:text-sm sm:font-bold">投资人地图</span>
+        </h1>
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-4 h-4 text-slate-500 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-50 overflow-hidden">
+          <div className="px-3 py-2 border-b border-slate-800 text-xs font-bold text-slate-300">选择车展</div>
+          <ul className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-800">
+            {events.map(event => (
+              <li key={event.id}>
+                <button
+                  onClick={() => choose(() => onSelectEvent(event.id))}
+                  className={`w-full text-left px-3 py-2 hover:bg-slate-800 transition-colors ${event.id === activeEvent.id ? 'bg-slate-800/60' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={`text-sm font-bold ${event.id === activeEvent.id ? 'text-amber-400' : 'text-slate-200'}`}>
+                      {event.year} {event.name}
+                    </span>
+                    <span className="text-[10px] text-slate-500 font-mono">{formatDates(event)}</span>
+                  </div>
+                  <p className="text-[11px] text-slate-500 truncate">{event.venue}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => choose(onOpenChanges)}
+            className="w-full flex items-center justify-between px-3 py-2 border-t border-slate-800 text-xs text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            <span>与上届对比 (展商与展位变化)</span>
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+            </svg>
+          </button>
+          <button
+            onClick={() => choose(onOpenExport)}
+            className="w-full flex items-center justify-between px-3 py-2 border-t border-slate-800 text-xs text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            <span>导出报告 (Markdown / PDF / CSV)</span>
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+            </svg>
+          </button>
+          <button
+            onClick={() => choose(onOpenShare)}
+            className="w-full flex items-center justify-between px-3 py-2 border-t border-slate-800 text-xs text-slate-300 hover:bg-slate-800 transition-colors"
+          >
+            <span>团队共享 (收藏、笔记与评分)</span>
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+            </svg>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventPicker;
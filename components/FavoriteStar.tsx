@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface FavoriteStarProps {
+  active: boolean;
+  onToggle: () => void;
+  className?: string;
+}
+
+// Star toggle for booths and models; doesn't let the click reach the card underneath
+const FavoriteStar: React.FC<FavoriteStarProps> = ({ active, onToggle, className = 'w-5 h-5' }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onToggle(); }}
+    className={`p-1 rounded-full transition-colors shrink-0 ${active ? 'text-amber-400 hover:text-amber-300' : 'text-slate-600 hover:text-slate-300'}`}
+    title={active ? '取消收藏' : '加入我的清单'}
+    aria-pressed={active}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" fill={active ? 'currentColor' : 'none'} className={className}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 0 1 1.04 0l2.125 5.111a.563.563 0 0 0 .475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 0 0-.182.557l1.285 5.385a.562.562 0 0 1-.84.61l-4.725-2.885a.562.562 0 0 0-.586 0L6.982 20.54a.562.562 0 0 1-.84-.61l1.285-5.386a.562.562 0 0 0-.182-.557l-4.204-3.602a.562.562 0 0 1 .321-.988l5.518-.442a.563.563 0 0 0 .475-.345L11.48 3.5Z" />
+    </svg>
+  </button>
+);
+
+export default FavoriteStar;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Favorites, Hall } from '../types';
+import { buildItinerary } from '../utils/favorites';
+import FavoriteStar from './FavoriteStar';
+import { getTagStyle } from '../utils/tagStyle';
+
+interface FavoritesPanelProps {
+  halls: Hall[];
+  favorites: Favorites;
+  onClose: () => void;
+  onSelectBrand: (hallId: string, brandId: string) => void;
+  onToggleFavoriteBrand: (brandId: string) => void;
+  onToggleFavoriteModel: (brandId: string, modelName: string) => void;
+  onToggleVisited: (brandId: string) => void;
+  onExport?: () => void;
+}
+
+// "My list": starred booths and models grouped by hall, with visit check-offs
+const FavoritesPanel: React.FC<FavoritesPanelProps> = ({
+  halls, favorites, onClose, onSelectBrand, onToggleFavoriteBrand, onToggleFavoriteModel, onToggleVisited, onExport
+}) => {
+  const itinerary = buildItinerary(halls, favorites);
+  const total = itinerary.reduce((sum, group) => sum + group.entries.length, 0);
+  const visited = itinerary.reduce((sum, group) => sum + group.entries.filter(e => e.visited).length, 0);
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white">我的清单</h2>
+        {total > 0 && (
+          <span className="text-xs text-slate-400">
+            已看 <span className="text-emerald-400 font-bold">{visited}</span> / {total}
+          </span>
+        )}
+        {total > 0 && onExport && (
+          <button
+            onClick={onExport}
+            className="text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded-full shrink-0"
+          >
+            导出
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+        {itinerary.length === 0 ? (
+          <div className="text-center text-slate-500 mt-10 text-sm leading-relaxed">
+            还没有收藏<br />
+            在展馆列表或搜索结果中点击 ☆ 加入清单
+          </div>
+        ) : (
+          itinerary.map(({ hall, entries }) => (
+            <section key={hall.id}>
+              <div className="text-[10px] font-bold text-amber-500/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+                <span className="w-1 h-1 rounded-full bg-amber-500 inline-block"></span>
+                {hall.code}馆 · {hall.floor}F · {hall.type}
+                <span className="text-slate-500 font-normal ml-1">
+                  ({entries.filter(e => e.visited).length}/{entries.length})
+                </span>
+              </div>
+              <div className="space-y-2">
+                {entries.map(({ brand, isBrandFavorite, models, visited: isVisited }) => (
+                  <div
+                    key={brand.id}
+                    role="button"
+                    onClick={() => onSelectBrand(hall.id, brand.id)}
+                    className={`flex items-start gap-3 p-3 rounded-lg border transition-colors cursor-pointer ${
+                      isVisited
+                        ? 'bg-slate-900/40 border-slate-800 opacity-60'
+                        : 'bg-slate-800/40 border-slate-700/50 hover:bg-slate-800 hover:border-slate-600'
+                    }`}
+                  >
+                    {/* Visited check-off */}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onToggleVisited(brand.id); }}
+                      className={`mt-0.5 w-5 h-5 rounded border flex items-center justify-center shrink-0 transition-colors ${
+                        isVisited ? 'bg-emerald-600 border-emerald-500 text-white' : 'border-slate-500 hover:border-slate-300'
+                      }`}
+                      title={isVisited ? '标记为未看' : '标记为已看'}
+                      aria-pressed={isVisited}
+                    >
+                      {isVisited && (
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={3} stroke="currentColor" className="w-3.5 h-3.5">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="m4.5 12.75 6 6 9-13.5" />
+                        </svg>
+                      )}
+                    </button>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-amber-500 font-mono font-bold text-sm shrink-0">{brand.booth}</span>
+                        <span className={`font-bold truncate ${isVisited ? 'text-slate-400 line-through' : 'text-slate-100'}`}>{brand.name}</span>
+                      </div>
+                      {models.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {models.map(model => (
+                            <span key={model.name} className="flex items-center gap-1 text-xs bg-slate-900/60 border border-slate-700/60 rounded pl-2 pr-0.5 py-0.5 text-slate-300">
+                              {model.name}
+                              {model.highlight && (
+                                <span className={`text-[10px] px-1 rounded ${getTagStyle(model.highlight)}`}>{model.highlight}</span>
+                              )}
+                              <FavoriteStar active onToggle={() => onToggleFavoriteModel(brand.id, model.name)} className="w-3.5 h-3.5" />
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <FavoriteStar active={isBrandFavorite} onToggle={() => onToggleFavoriteBrand(brand.id)} />
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FavoritesPanel;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brand, FieldNote } from '../types';
+import { createFieldNote, formatNoteTime } from '../utils/fieldNotes';
+import { getPhoto, savePhoto } from '../utils/photoStore';
+
+interface FieldNotesProps {
+  brand: Brand;
+  notes: FieldNote[]; // This booth's notes, booth-level and per model, including colleagues' merged ones
+  onAddNote: (note: FieldNote) => void;
+  onDeleteNote: (note: FieldNote) => void;
+}
+
+interface PendingPhoto {
+  file: File;
+  previewUrl: string;
+}
+
+// Thumbnail of a stored photo; tapping it shows the full image over the page
+const NotePhoto: React.FC<{ photoId: string }> = ({ photoId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isEnlarged, setIsEnlarged] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getPhoto(photoId).then(blob => {
+      if (cancelled || !blob) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [photoId]);
+
+  if (!url) {
+    return <div className="w-14 h-14 rounded bg-slate-800 border border-slate-700 shrink-0" title="照片不可用"></div>;
+  }
+  return (
+    <>
+      <img src={url} alt="" onClick={() => setIsEnlarged(true)} className="w-14 h-14 rounded object-cover border border-slate-700 cursor-zoom-in shrink-0" />
+      {isEnlarged && (
+        <div onClick={() => setIsEnlarged(false)} className="fixed inset-0 z-[60] bg-black/90 flex items-center justify-center p-4 cursor-zoom-out">
+          <img src={url} alt="" className="max-w-full max-h-full object-contain" />
+        </div>
+      )}
+    </>
+  );
+};
+
+// The analyst's own notes and photos for a booth, shown in the expanded card
+const FieldNotes: React.FC<FieldNotesProps> = ({ brand, notes, onAddNote, onDeleteNote }) => {
+  const [text, setText] = useState('');
+  const [modelName, setModelName] = useState('');
+  const [photos, setPhotos] = useState<PendingPhoto[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const modelNames = [...new Set([...brand.models, ...(brand.fullModelList || [])].map(m => m.name))];
+  const sortedNotes = [...notes].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  // Previews are only needed until the note is saved or the card collapses
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  useEffect(() => () => photosRef.current.forEach(p => URL.revokeObjectURL(p.previewUrl)), []);
+
+  const addPhotos = (files: FileList | null) => {
+    if (!files) return;
+    const added = [...files].filter(f => f.type.startsWith('image/')).map(file => ({ file, previewUrl: URL.createObjectURL(file) }));
+    setPhotos(prev => [...prev, ...added]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const save = async () => {
+    if (!text.trim() && photos.length === 0) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const photoIds = await Promise.all(photos.map(p => savePhoto(p.file)));
+      onAddNote(createFieldNote(brand.id, text, photoIds, modelName || undefined));
+      setText('');
+      photos.forEach(p => URL.revokeObjectURL(p.previewUrl));
+      setPhotos([]);
+    } catch (err) {
+      console.warn("Failed to save photos:", err);
+      setError('照片保存失败，浏览器可能禁用了本地存储');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+      <div className="text-[10px] font-bold text-violet-400/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+        <span className="w-1 h-1 rounded-full bg-violet-400 inline-block"></span>
+        现场笔记 (FIELD NOTES)
+      </div>
+
+      {sortedNotes.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {sortedNotes.map(note => (
+            <li key={note.id} className="rounded-lg border border-violet-900/40 bg-violet-950/20 p-2.5">
+              <div className="flex items-center justify-between text-[11px] text-slate-500 mb-1">
+                <span>
+                  <span className="font-mono">{formatNoteTime(note.createdAt)}</span>
+                  {note.author && <span className="ml-2 text-slate-300">{note.author}</span>}
+                  {note.modelName && <span className="ml-2 text-violet-300">{note.modelName}</span>}
+                </span>
+                <button
+                  onClick={() => window.confirm('删除这条笔记？') && onDeleteNote(note)}
+                  className="text-slate-600 hover:text-red-400 px-1"
+                  aria-label="删除笔记"
+                >
+                  ✕
+                </button>
+              </div>
+              {note.text && <p className="text-sm text-slate-200 leading-relaxed whitespace-pre-wrap">{note.text}</p>}
+              {note.photoIds.length > 0 && (
+                <div className="flex gap-1.5 mt-2 overflow-x-auto">
+                  {note.photoIds.map(id => <NotePhoto key={id} photoId={id} />)}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Composer */}
+      <div className="rounded-lg border border-slate-700 bg-slate-900/60 p-2 space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="记录现场观察，例如人流、配置、价格口径…"
+          rows={2}
+          className="w-full bg-transparent text-sm text-slate-200 placeholder-slate-600 resize-none focus:outline-none"
+        />
+        {photos.length > 0 && (
+          <div className="flex gap-1.5 overflow-x-auto">
+            {photos.map((photo, idx) => (
+              <div key={photo.previewUrl} className="relative shrink-0">
+                <img src={photo.previewUrl} alt="" className="w-14 h-14 rounded object-cover border border-slate-700" />
+                <button
+                  onClick={() => removePhoto(idx)}
+                  className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-slate-950 border border-slate-600 text-[10px] leading-none text-slate-300"
+                  aria-label="移除照片"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          {modelNames.length > 0 && (
+            <select
+              value={modelName}
+              onChange={(e) => setModelName(e.target.value)}
+              className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-300"
+            >
+              <option value="">整个展位</option>
+              {modelNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          )}
+          <label className="shrink-0 text-xs text-slate-300 border border-slate-700 rounded px-2 py-1 cursor-pointer hover:bg-slate-800" title="拍照或选择照片">
+            📷 照片
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => { addPhotos(e.target.files); e.target.value = ''; }}
+            />
+          </label>
+          <button
+            onClick={save}
+            disabled={isSaving || (!text.trim() && photos.length === 0)}
+            className="shrink-0 text-xs font-bold px-3 py-1 rounded bg-violet-600 hover:bg-violet-500 text-white disabled:opacity-40 disabled:hover:bg-violet-600"
+          >
+            {isSaving ? '保存中…' : '保存'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default FieldNotes;
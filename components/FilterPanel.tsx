@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { FacetFilter, Hall } from '../types';
+import { buildFacetGroups, countActiveFacets, emptyFilter, FacetKey, matchesFilter, toggleFacetValue } from '../utils/facets';
+
+interface FilterPanelProps {
+  halls: Hall[];
+  filter: FacetFilter;
+  onChange: (filter: FacetFilter) => void;
+  onClose: () => void;
+}
+
+// Floating facet panel over the map; counts update live as facets are combined
+const FilterPanel: React.FC<FilterPanelProps> = ({ halls, filter, onChange, onClose }) => {
+  const groups = useMemo(() => buildFacetGroups(halls, filter), [halls, filter]);
+  const total = halls.reduce((sum, h) => sum + h.brands.length, 0);
+  const matching = halls.reduce((sum, h) => sum + h.brands.filter(b => matchesFilter(filter, h, b)).length, 0);
+  const activeCount = countActiveFacets(filter);
+
+  const isSelected = (key: FacetKey, value: string | number) => (filter[key] as Array<string | number>).includes(value);
+
+  return (
+    <div className="absolute top-4 left-4 right-4 sm:right-auto sm:w-80 z-30 max-h-[calc(100%-2rem)] flex flex-col bg-slate-900/95 backdrop-blur rounded-xl border border-slate-700 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800 shrink-0">
+        <div>
+          <h3 className="font-bold text-sm text-white">筛选展位</h3>
+          <p className="text-[11px] text-slate-500">
+            匹配 <span className="text-amber-400 font-bold">{matching}</span> / {total} 个展位
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {activeCount > 0 && (
+            <button onClick={() => onChange(emptyFilter)} className="text-xs text-slate-400 hover:text-white px-2 py-1">
+              清除
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded-full" aria-label="Close filters">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {groups.map(group => (
+          <section key={group.key}>
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">{group.label}</div>
+            <div className="flex flex-wrap gap-1.5">
+              {group.options.map(option => {
+                const selected = isSelected(group.key, option.value);
+                const disabled = !selected && option.count === 0;
+                return (
+                  <button
+                    key={String(option.value)}
+                    disabled={disabled}
+                    onClick={() => onChange(toggleFacetValue(filter, group.key, option.value))}
+                    className={`text-xs px-2.5 py-1 rounded-full border transition-colors ${
+                      selected
+                        ? 'bg-amber-500 border-amber-400 text-slate-950 font-bold'
+                        : disabled
+                          ? 'bg-slate-900 border-slate-800 text-slate-600 cursor-not-allowed'
+                          : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+                    }`}
+                  >
+                    {option.label}
+                    <span className={`ml-1 ${selected ? 'text-slate-800' : 'text-slate-500'}`}>{option.count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BriefingScope, Hall, InsightContext, InvestmentInsight, SectorBriefing } from '../types';
+import { getCachedBriefing, getSectorBriefing } from '../services/insightCache';
+import { SENTIMENT_STYLES } from './InsightPanel';
+
+interface HallBriefingProps {
+  hall: Hall;
+  zoneHalls: Hall[]; // Every hall of the same zone type, this one included
+  context?: InsightContext;
+}
+
+type BriefingState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'done'; briefing: SectorBriefing };
+
+// Winners first, then brands without a strong call, then losers
+const VERDICT_GROUPS: Array<{ sentiment: InvestmentInsight['sentiment']; title: string }> = [
+  { sentiment: 'Bullish', title: '看好' },
+  { sentiment: 'Neutral', title: '中性' },
+  { sentiment: 'Bearish', title: '承压' }
+];
+
+const scopeOf = (kind: BriefingScope['kind'], hall: Hall, zoneHalls: Hall[]): BriefingScope => kind === 'hall'
+  ? { kind, id: hall.code, label: `${hall.code}馆`, halls: [hall] }
+  : { kind, id: hall.type, label: `${hall.type}展区`, halls: zoneHalls };
+
+// "展馆速览": themes, standout launches and winners / losers across every exhibitor of the hall or its zone
+const HallBriefing: React.FC<HallBriefingProps> = ({ hall, zoneHalls, context }) => {
+  const [kind, setKind] = useState<BriefingScope['kind']>('hall');
+  const scope = scopeOf(kind, hall, zoneHalls);
+  const cachedState = (): BriefingState => {
+    const cached = getCachedBriefing(scope, context);
+    return cached ? { status: 'done', briefing: cached } : { status: 'idle' };
+  };
+  const [state, setState] = useState<BriefingState>(cachedState);
+
+  // Ignore responses that arrive after the hall or scope has changed
+  const requestId = useRef(0);
+  useEffect(() => {
+    requestId.current++;
+    setState(cachedState());
+  }, [kind]);
+  useEffect(() => () => { requestId.current++; }, []);
+
+  const loadBriefing = async (refresh = false) => {
+    const id = ++requestId.current;
+    setState({ status: 'loading' });
+    try {
+      const briefing = await getSectorBriefing(scope, context, refresh);
+      if (id === requestId.current) setState({ status: 'done', briefing });
+    } catch {
+      if (id === requestId.current) setState({ status: 'error' });
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-sky-900/50 bg-sky-950/20 p-3">
+      <div className="flex items-center justify-between mb-2 gap-2">
+        <span className="text-[10px] font-bold text-sky-400/80 uppercase tracking-wider flex items-center gap-1">
+          <span className="w-1 h-1 rounded-full bg-sky-400 inline-block"></span>
+          展馆速览 (BRIEFING)
+        </span>
+        {zoneHalls.length > 1 && (
+          <div className="flex text-[10px] rounded-full border border-slate-700 overflow-hidden shrink-0">
+            {(['hall', 'zone'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`px-2 py-0.5 transition-colors ${kind === option ? 'bg-sky-500/20 text-sky-200' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {option === 'hall' ? '本馆' : `同类 ${zoneHalls.length} 馆`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {state.status === 'idle' && (
+        <button
+          onClick={() => loadBriefing()}
+          className="w-full flex items-center justify-center gap-1.5 bg-sky-950/40 hover:bg-sky-900/50 border border-sky-800/60 text-sky-200 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09Z" />
+          </svg>
+          生成{scope.label}速览
+        </button>
+      )}
+
+      {state.status === 'loading' && (
+        <div className="flex items-center gap-2 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2.5 text-sm text-slate-300">
+          <svg className="animate-spin h-4 w-4 text-sky-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          正在分析{scope.label}...
+        </div>
+      )}
+
+      {state.status === 'error' && (
+        <div className="flex items-center justify-between gap-2 bg-red-950/40 border border-red-900/60 rounded-lg px-3 py-2.5 text-sm text-red-200">
+          <span>AI 请求失败，请检查网络后重试</span>
+          <button
+            onClick={() => loadBriefing()}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-red-900/60 hover:bg-red-800/60 border border-red-700 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state.status === 'done' && state.briefing.isFallback && (
+        <div className="flex items-center justify-between gap-2 bg-slate-950/60 border border-dashed border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-400">
+          <span>{state.briefing.themes[0]}</span>
+          <button
+            onClick={() => loadBriefing()}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-300 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state.status === 'done' && !state.briefing.isFallback && (
+        <div className="space-y-3 text-sm text-slate-200">
+          <ul className="space-y-1 list-disc pl-4 marker:text-sky-500 leading-relaxed">
+            {state.briefing.themes.map((theme, i) => <li key={i}>{theme}</li>)}
+          </ul>
+
+          {state.briefing.standoutLaunches.length > 0 && (
+            <div>
+              <div className="text-[10px] font-bold text-amber-500/80 mb-1 uppercase tracking-wider">重点发布</div>
+              <ul className="space-y-1">
+                {state.briefing.standoutLaunches.map((launch, i) => (
+                  <li key={i} className="text-xs leading-relaxed">
+                    <span className="font-bold text-slate-100">{launch.brandName} {launch.modelName}</span>
+                    {launch.reason && <span className="text-slate-400"> · {launch.reason}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {VERDICT_GROUPS.map(group => {
+            const verdicts = state.briefing.verdicts.filter(v => v.sentiment === group.sentiment);
+            return verdicts.length > 0 && (
+              <div key={group.sentiment}>
+                <div className="text-[10px] font-bold text-slate-500 mb-1 uppercase tracking-wider">{group.title}</div>
+                <ul className="space-y-1">
+                  {verdicts.map(verdict => (
+                    <li key={verdict.brandName} className="flex items-start gap-2 text-xs leading-relaxed">
+                      <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded whitespace-nowrap shrink-0 ${SENTIMENT_STYLES[verdict.sentiment].className}`}>
+                        {SENTIMENT_STYLES[verdict.sentiment].label.split(' ')[0]}
+                      </span>
+                      <span>
+                        <span className="font-bold text-slate-100">{verdict.brandName}</span>
+                        {verdict.reason && <span className="text-slate-400"> · {verdict.reason}</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => loadBriefing(true)}
+              className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+              title="重新生成"
+            >
+              刷新
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HallBriefing;
@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Hall } from '../types';
+
+interface HallMapViewerProps {
+  hall: Hall;
+  imageUrl: string;
+  focusedBrandId?: string | null; // Booth to highlight and centre on when opening
+  onSelectBrand: (brandId: string) => void;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const clampScale = (s: number) => Math.min(Math.max(s, MIN_SCALE), MAX_SCALE);
+
+// Full-screen floor plan with pan / zoom and a tappable marker per booth
+const HallMapViewer: React.FC<HallMapViewerProps> = ({ hall, imageUrl, focusedBrandId, onSelectBrand, onClose }) => {
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const imageWrapperRef = useRef<HTMLDivElement>(null);
+
+  // Active pointers for drag (one finger) and pinch (two fingers)
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gestureStart = useRef({ scale: 1, offset: { x: 0, y: 0 }, distance: 0, center: { x: 0, y: 0 } });
+  const hasMoved = useRef(false);
+  // Window listeners outlive the render they were created in, so they read the view from a ref
+  const view = useRef({ scale, offset });
+  view.current = { scale, offset };
+
+  const placedBrands = hall.brands.filter(b => b.boothPosition);
+
+  // Centre and zoom on the focused booth once the image has a size
+  const focusOnBooth = () => {
+    const brand = hall.brands.find(b => b.id === focusedBrandId);
+    const wrapper = imageWrapperRef.current;
+    if (!brand?.boothPosition || !wrapper) return;
+    const targetScale = 2.5;
+    setScale(targetScale);
+    setOffset({
+      x: -(brand.boothPosition.x / 100 - 0.5) * wrapper.offsetWidth * targetScale,
+      y: -(brand.boothPosition.y / 100 - 0.5) * wrapper.offsetHeight * targetScale
+    });
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // Gesture handlers only touch refs and state setters, so one stable instance can be
+  // added to and removed from window across renders
+  const snapshotGesture = useCallback(() => {
+    const pts = [...pointers.current.values()];
+    gestureStart.current = {
+      scale: view.current.scale,
+      offset: { ...view.current.offset },
+      distance: pts.length === 2 ? Math.hypot(pts[0].x - pts[1].x, pts[0].y - pts[1].y) : 0,
+      center: pts.length === 2
+        ? { x: (pts[0].x + pts[1].x) / 2, y: (pts[0].y + pts[1].y) / 2 }
+        : { x: pts[0].x, y: pts[0].y }
+    };
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (pointers.current.size === 0) hasMoved.current = false;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    snapshotGesture();
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+  };
+
+  const handlePointerMove = useCallback((e: PointerEvent) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pts = [...pointers.current.values()];
+    const start = gestureStart.current;
+
+    if (pts.length === 2 && start.distance > 0) {
+      const distance = Math.hypot(pts[0].x - pts[1].x, pts[0].y - pts[1].y);
+      const center = { x: (pts[0].x + pts[1].x) / 2, y: (pts[0].y + pts[1].y) / 2 };
+      hasMoved.current = true;
+      setScale(clampScale(start.scale * distance / start.distance));
+      setOffset({ x: start.offset.x + center.x - start.center.x, y: start.offset.y + center.y - start.center.y });
+    } else if (pts.length === 1) {
+      const dx = pts[0].x - start.center.x;
+      const dy = pts[0].y - start.center.y;
+      if (Math.abs(dx) > 5 || Math.abs(dy) > 5) hasMoved.current = true;
+      setOffset({ x: start.offset.x + dx, y: start.offset.y + dy });
+    }
+  }, []);
+
+  const handlePointerUp = useCallback((e: PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size > 0) {
+      snapshotGesture();
+      return;
+    }
+    window.removeEventListener('pointermove', handlePointerMove);
+    window.removeEventListener('pointerup', handlePointerUp);
+    window.removeEventListener('pointercancel', handlePointerUp);
+  }, []);
+
+  // Drop any gesture listeners still attached if the viewer closes mid-drag
+  useEffect(() => () => {
+    window.removeEventListener('pointermove', handlePointerMove);
+    window.removeEventListener('pointerup', handlePointerUp);
+    window.removeEventListener('pointercancel', handlePointerUp);
+  }, [handlePointerMove, handlePointerUp]);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setScale(s => clampScale(s * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+  };
+
+  const handleReset = () => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handleMarkerClick = (e: React.MouseEvent, brandId: string) => {
+    e.stopPropagation();
+    if (hasMoved.current) return;
+    onSelectBrand(brandId);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col backdrop-blur-sm">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-3 shrink-0">
+        <div className="bg-black/70 px-4 py-2 rounded-full text-white text-sm font-bold border border-white/10">
+          {hall.code} 展馆分布图
+          <span className="text-white/50 font-normal ml-2 text-xs">点击标记查看展台</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setScale(s => clampScale(s * 1.3))} className="w-9 h-9 bg-white/10 hover:bg-white/20 text-white rounded-full flex items-center justify-center" title="放大">
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+          </button>
+          <button onClick={() => setScale(s => clampScale(s / 1.3))} className="w-9 h-9 bg-white/10 hover:bg-white/20 text-white rounded-full flex items-center justify-center" title="缩小">
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" /></svg>
+          </button>
+          <button onClick={handleReset} className="w-9 h-9 bg-white/10 hover:bg-white/20 text-white rounded-full flex items-center justify-center" title="重置">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+          </button>
+          <button onClick={onClose} className="w-9 h-9 bg-white/10 hover:bg-white/20 text-white/70 hover:text-white rounded-full flex items-center justify-center" aria-label="Close map">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Pan / zoom surface */}
+      <div
+        className="flex-1 overflow-hidden flex items-center justify-center touch-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onWheel={handleWheel}
+      >
+        <div
+          style={{
+            transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+            transition: pointers.current.size > 0 ? 'none' : 'transform 0.15s ease-out',
+            transformOrigin: 'center'
+          }}
+        >
+          <div ref={imageWrapperRef} className="relative inline-block select-none">
+            <img
+              src={imageUrl}
+              alt={`${hall.code} Layout Full`}
+              className="block max-w-[95vw] max-h-[80vh] object-contain rounded shadow-2xl pointer-events-none"
+              draggable={false}
+              onLoad={focusOnBooth}
+            />
+
+            {/* Booth markers: positioned in % of the image, counter-scaled to stay a constant size */}
+            {placedBrands.map(brand => {
+              const isFocused = brand.id === focusedBrandId;
+              return (
+                <button
+                  key={brand.id}
+                  onClick={(e) => handleMarkerClick(e, brand.id)}
+                  className="absolute"
+                  style={{
+                    left: `${brand.boothPosition!.x}%`,
+                    top: `${brand.boothPosition!.y}%`,
+                    transform: `translate(-50%, -50%) scale(${1 / scale})`
+                  }}
+                  title={`${brand.booth} ${brand.name}`}
+                >
+                  {isFocused && <span className="absolute inset-0 rounded-full bg-amber-400 animate-ping opacity-75"></span>}
+                  <span className={`relative flex items-center gap-1 px-2 py-1 rounded-full text-xs font-bold shadow-lg border whitespace-nowrap ${
+                    isFocused
+                      ? 'bg-amber-500 text-slate-950 border-amber-200'
+                      : 'bg-slate-900/85 text-white border-slate-500 hover:bg-blue-600'
+                  }`}>
+                    <span className="font-mono">{brand.booth}</span>
+                    <span className="font-medium">{brand.name}</span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {placedBrands.length === 0 && (
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 bg-black/70 px-4 py-2 rounded-full text-white/70 text-xs border border-white/10">
+          该馆暂无展位坐标
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HallMapViewer;
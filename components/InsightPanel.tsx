@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brand, InsightContext, InvestmentInsight } from '../types';
+import { clearCachedInsight, getBrandInsight, getCachedInsight } from '../services/insightCache';
+
+interface InsightPanelProps {
+  brand: Brand;
+  context?: InsightContext;
+}
+
+type InsightState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'done'; insight: InvestmentInsight };
+
+export const SENTIMENT_STYLES: Record<InvestmentInsight['sentiment'], { label: string; className: string }> = {
+  Bullish: { label: '看多 Bullish', className: 'bg-emerald-900/60 text-emerald-200 border border-emerald-700' },
+  Neutral: { label: '中性 Neutral', className: 'bg-slate-700 text-slate-200 border border-slate-600' },
+  Bearish: { label: '看空 Bearish', className: 'bg-red-900/60 text-red-200 border border-red-700' }
+};
+
+const InsightPanel: React.FC<InsightPanelProps> = ({ brand, context }) => {
+  const [state, setState] = useState<InsightState>(() => {
+    const cached = getCachedInsight(brand.id, context);
+    return cached ? { status: 'done', insight: cached } : { status: 'idle' };
+  });
+
+  // Ignore responses that arrive after the card has been collapsed
+  const isMounted = useRef(true);
+  useEffect(() => {
+    isMounted.current = true;
+    return () => { isMounted.current = false; };
+  }, []);
+
+  const loadInsight = async (e: React.MouseEvent, refresh = false) => {
+    e.stopPropagation();
+    if (refresh) clearCachedInsight(brand.id, context);
+    setState({ status: 'loading' });
+    try {
+      const insight = await getBrandInsight(brand, context);
+      if (isMounted.current) setState({ status: 'done', insight });
+    } catch {
+      if (isMounted.current) setState({ status: 'error' });
+    }
+  };
+
+  return (
+    <div className="mt-4" onClick={(e) => e.stopPropagation()}>
+      <div className="text-[10px] font-bold text-sky-400/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+        <span className="w-1 h-1 rounded-full bg-sky-400 inline-block"></span>
+        AI 观点 (INVESTOR VIEW)
+      </div>
+
+      {state.status === 'idle' && (
+        <button
+          onClick={(e) => loadInsight(e)}
+          className="w-full flex items-center justify-center gap-1.5 bg-sky-950/40 hover:bg-sky-900/50 border border-sky-800/60 text-sky-200 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09Z" />
+          </svg>
+          生成 AI 观点
+        </button>
+      )}
+
+      {state.status === 'loading' && (
+        <div className="flex items-center gap-2 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2.5 text-sm text-slate-300">
+          <svg className="animate-spin h-4 w-4 text-sky-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          正在分析 {brand.name}...
+        </div>
+      )}
+
+      {state.status === 'error' && (
+        <div className="flex items-center justify-between gap-2 bg-red-950/40 border border-red-900/60 rounded-lg px-3 py-2.5 text-sm text-red-200">
+          <span>AI 请求失败，请检查网络后重试</span>
+          <button
+            onClick={(e) => loadInsight(e)}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-red-900/60 hover:bg-red-800/60 border border-red-700 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state.status === 'done' && state.insight.isFallback && (
+        <div className="flex items-center justify-between gap-2 bg-slate-950/60 border border-dashed border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-400">
+          <span>{state.insight.analysis}</span>
+          <button
+            onClick={(e) => loadInsight(e)}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 border border-slate-600 text-slate-300 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      )}
+
+      {state.status === 'done' && !state.insight.isFallback && (
+        <div className="bg-slate-950/60 rounded-lg p-3 border border-slate-800 text-sm text-slate-200 leading-relaxed">
+          <div className="flex items-center justify-between mb-2">
+            <span className={`text-xs font-bold px-2 py-0.5 rounded whitespace-nowrap shadow-sm ${SENTIMENT_STYLES[state.insight.sentiment].className}`}>
+              {SENTIMENT_STYLES[state.insight.sentiment].label}
+            </span>
+            <button
+              onClick={(e) => loadInsight(e, true)}
+              className="text-[10px] text-slate-500 hover:text-slate-300 transition-colors"
+              title="重新生成"
+            >
+              刷新
+            </button>
+          </div>
+          {state.insight.analysis}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightPanel;
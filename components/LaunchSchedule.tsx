@@ -0,0 +1,119 @@
+import React, { useEffect, useRef } from 'react';
+import { ScheduledLaunch } from '../types';
+import { formatClock, formatDay, LAUNCH_SOON_MINUTES, minutesUntil } from '../utils/schedule';
+import { getTagStyle } from '../utils/tagStyle';
+
+interface LaunchScheduleProps {
+  schedule: ScheduledLaunch[];
+  now: Date;
+  onClose: () => void;
+  onSelectModel: (hallId: string, brandId: string, modelName: string) => void;
+}
+
+// Press-conference timeline across all halls, grouped by day, with a "now" marker
+const LaunchSchedule: React.FC<LaunchScheduleProps> = ({ schedule, now, onClose, onSelectModel }) => {
+  const nowMarkerRef = useRef<HTMLLIElement>(null);
+  const nextIndex = schedule.findIndex(launch => minutesUntil(launch, now) >= 0);
+  const markerIndex = nextIndex === -1 ? schedule.length : nextIndex;
+  const upcomingCount = schedule.length - markerIndex;
+
+  // Open at the current point in the day rather than the first launch
+  useEffect(() => {
+    nowMarkerRef.current?.scrollIntoView({ block: 'center' });
+  }, []);
+
+  const renderNowMarker = () => (
+    <li ref={nowMarkerRef} className="flex items-center gap-2 py-1" aria-label="现在">
+      <span className="text-[11px] font-mono font-bold text-red-400 w-12 text-right shrink-0">{formatClock(now)}</span>
+      <span className="w-2 h-2 rounded-full bg-red-500 shrink-0"></span>
+      <span className="flex-1 h-px bg-red-500/70"></span>
+      <span className="text-[10px] font-bold text-red-400 uppercase tracking-wider">现在</span>
+    </li>
+  );
+
+  const renderLaunch = (launch: ScheduledLaunch) => {
+    const { hall, brand, model, start } = launch;
+    const minutes = minutesUntil(launch, now);
+    const isPast = minutes < 0;
+    const isSoon = !isPast && minutes <= LAUNCH_SOON_MINUTES;
+
+    return (
+      <li key={`${brand.id}-${model.name}`}>
+        <button
+          onClick={() => onSelectModel(hall.id, brand.id, model.name)}
+          className={`w-full flex items-start gap-2 p-2 rounded-lg border text-left transition-colors ${
+            isSoon
+              ? 'bg-red-950/30 border-red-900/60 hover:bg-red-950/50'
+              : 'border-transparent hover:bg-slate-800 hover:border-slate-700'
+          } ${isPast ? 'opacity-50' : ''}`}
+        >
+          <span className="text-sm font-mono font-bold text-slate-300 w-12 text-right shrink-0">{formatClock(start)}</span>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2">
+              <span className="font-bold text-slate-100 truncate">{model.name}</span>
+              {model.highlight && (
+                <span className={`text-[10px] px-1.5 py-0.5 rounded whitespace-nowrap shrink-0 ${getTagStyle(model.highlight)}`}>{model.highlight}</span>
+              )}
+            </div>
+            <p className="text-xs text-slate-400 truncate">
+              {brand.name} · <span className="font-mono text-amber-500">{hall.code}馆 {brand.booth}</span>
+              {model.stage && ` · ${model.stage}`}
+            </p>
+          </div>
+          {isSoon && (
+            <span className="text-[10px] font-bold text-red-300 shrink-0 mt-1">{Math.round(minutes)} 分钟后</span>
+          )}
+        </button>
+      </li>
+    );
+  };
+
+  // Day headings between launches on different dates
+  const items: React.ReactNode[] = [];
+  schedule.forEach((launch, idx) => {
+    const day = formatDay(launch.start);
+    if (idx === 0 || formatDay(schedule[idx - 1].start) !== day) {
+      items.push(
+        <li key={`day-${day}`} className="text-[10px] font-bold text-amber-500/80 uppercase tracking-wider flex items-center gap-1 pt-4 first:pt-0">
+          <span className="w-1 h-1 rounded-full bg-amber-500 inline-block"></span>
+          {day}
+        </li>
+      );
+    }
+    if (idx === markerIndex) items.push(<React.Fragment key="now">{renderNowMarker()}</React.Fragment>);
+    items.push(renderLaunch(launch));
+  });
+  if (markerIndex === schedule.length && schedule.length > 0) items.push(<React.Fragment key="now">{renderNowMarker()}</React.Fragment>);
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white">发布会日程</h2>
+        {schedule.length > 0 && (
+          <span className="text-xs text-slate-400">
+            待发布 <span className="text-red-400 font-bold">{upcomingCount}</span> / {schedule.length}
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+        {schedule.length === 0 ? (
+          <div className="text-center text-slate-500 mt-10 text-sm leading-relaxed">
+            暂无发布会时间<br />
+            在 brands.csv 的 LaunchTime / Stage 列填写车型的发布时间与地点
+          </div>
+        ) : (
+          <ul className="space-y-1">{items}</ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LaunchSchedule;
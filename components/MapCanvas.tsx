@@ -1,25 +1,35 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Hall, ZoneType } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Hall, HallStats, LayoutArea, LayoutHall, MapColorMode, RoutePlan, VenueLayout, ZoneType } from '../types';
+import { venueLayout } from '../data/venueLayout';
+import { computeHallStats } from '../utils/hallStats';
+import { COLOR_MODES, HEAT_STOPS, ZONE_COLORS, getHallMetric, heatColor } from '../utils/heatmap';
 
 interface MapCanvasProps {
   halls: Hall[];
   selectedHallId: string | null;
   onHallSelect: (hall: Hall) => void;
+  favoriteCounts?: Record<string, number>; // Starred booths per hall id
+  routePlan?: RoutePlan | null; // Walking route drawn on top of the halls
+  layout?: VenueLayout; // What to draw; defaults to the Canton Fair Complex
+  caption?: string; // Footer label naming the show
+  matchingHallIds?: Set<string> | null; // When filtering, halls outside this set are dimmed
+  launchingHallIds?: Set<string> | null; // Halls with a launch starting soon get a pulsing outline
+  colorMode?: MapColorMode; // What hall colours encode; numeric modes use a heat ramp
+  onColorModeChange?: (mode: MapColorMode) => void;
+  onOpenStats?: () => void;
 }
 
-const MapCanvas: React.FC<MapCanvasProps> = ({ halls, selectedHallId, onHallSelect }) => {
+const MapCanvas: React.FC<MapCanvasProps> = ({
+  halls, selectedHallId, onHallSelect, favoriteCounts = {}, routePlan, layout = venueLayout, caption = 'Guangzhou Auto Show Investor Map',
+  matchingHallIds, launchingHallIds, colorMode = 'zone', onColorModeChange, onOpenStats
+}) => {
   // ==================================================================================
   //  手机端强制参数配置 (Mobile First Configuration)
   // ==================================================================================
   
-  // 1. 强制缩放比例：0.32
-  // 这个比例能保证1800px宽的地图在手机上不会撑爆屏幕，且文字可见
-  const MOBILE_SCALE = 0.6;
-
-  // 2. 强制位置偏移：X=180, Y=100
-  // "画面偏左"意味着我们需要把地图向右推 (增加 X 值)
-  // 180px 的偏移量应该能把 D区/A区 推到屏幕正中间
-  const MOBILE_POS = { x: -600, y: 100 };
+  // 强制缩放比例与位置偏移，按场馆定义在 layout.initialView 中
+  const MOBILE_SCALE = layout.initialView.scale;
+  const MOBILE_POS = { x: layout.initialView.x, y: layout.initialView.y };
 
   // 初始化状态 (直接使用强制参数)
   const [scale, setScale] = useState(MOBILE_SCALE);
@@ -30,14 +40,14 @@ const MapCanvas: React.FC<MapCanvasProps> = ({ halls, selectedHallId, onHallSele
   // ==================================================================================
   
   // 解决手机浏览器地址栏/导航栏加载导致的布局跳动问题
-  // 页面挂载 100ms 后，强制再次应用正确的位置
+  // 页面挂载 100ms 后，强制再次应用正确的位置 (切换场馆布局时同样重置)
   useEffect(() => {
     const timer = setTimeout(() => {
       setScale(MOBILE_SCALE);
       setPosition(MOBILE_POS);
     }, 100);
     return () => clearTimeout(timer);
-  }, []);
+  }, [layout]);
 
   // ==================================================================================
   //  交互逻辑 (Interaction Logic)
@@ -109,20 +119,98 @@ const MapCanvas: React.FC<MapCanvasProps> = ({ halls, selectedHallId, onHallSele
     }
   };
 
+  const hallStats = useMemo(() => new Map<string, HallStats>(halls.map(h => [h.id, computeHallStats(h)])), [halls]);
+  const activeMode = COLOR_MODES.find(m => m.id === colorMode) || COLOR_MODES[0];
+  const mode = activeMode.id;
+  // Top of the heat scale: occupancy is a percentage, everything else scales to the busiest hall in use
+  const metricMax = mode === 'occupancy'
+    ? 100
+    : Math.max(0, ...[...hallStats.values()].filter(st => st.hall.occupancy > 0).map(st => getHallMetric(st, mode, favoriteCounts)));
+
   const getFillColor = (hall: Hall) => {
     const isSelected = hall.id === selectedHallId;
-    if (isSelected) return '#f59e0b'; 
-    if (hall.id === 'h1.2') return '#1e293b'; 
-
-    switch (hall.type) {
-      case ZoneType.NEV: return '#059669'; 
-      case ZoneType.LUXURY: return '#7c3aed'; 
-      case ZoneType.PASSENGER: return '#2563eb'; 
-      case ZoneType.COMPONENTS: return '#475569'; 
-      default: return '#334155'; 
-    }
+    if (isSelected && mode === 'zone') return '#f59e0b'; 
+    if (hall.occupancy === 0) return '#1e293b'; // Hall not in use this show
+    if (mode !== 'zone') return heatColor(getHallMetric(hallStats.get(hall.id)!, mode, favoriteCounts), metricMax);
+    return ZONE_COLORS[hall.type] || '#334155';
   };
 
+  // Star badge in the top-right corner of a hall block with favourites in it
+  const renderFavoriteBadge = (hall: Hall) => {
+    const count = favoriteCounts[hall.id] || 0;
+    if (count === 0) return null;
+    return (
+      <g transform={`translate(${layout.hallSize.width - 10}, 10)`} pointerEvents="none">
+        <circle r="18" fill="#fbbf24" stroke="#0f172a" strokeWidth="3" />
+        <text y="6" fill="#0f172a" fontSize="17" fontWeight="900" textAnchor="middle">★{count}</text>
+      </g>
+    );
+  };
+
+  // Pulsing outline and "发布" tag on halls with a press conference coming up
+  const renderLaunchHighlight = (hall: Hall) => {
+    if (!launchingHallIds?.has(hall.id)) return null;
+    const { width, height } = layout.hallSize;
+    return (
+      <g pointerEvents="none">
+        <rect x="-6" y="-6" width={width + 12} height={height + 12} rx="12" fill="none" stroke="#f43f5e" strokeWidth="6" className="animate-pulse" />
+        <g transform="translate(10, 10)">
+          <rect width="48" height="26" rx="6" fill="#e11d48" stroke="#0f172a" strokeWidth="2" />
+          <text x="24" y="19" fill="white" fontSize="15" fontWeight="900" textAnchor="middle">发布</text>
+        </g>
+      </g>
+    );
+  };
+
+  const hallsByCode = new Map<string, Hall>(halls.map(h => [h.code, h]));
+
+  const renderHall = (layoutHall: LayoutHall) => {
+    const hall = hallsByCode.get(layoutHall.code);
+    if (!hall) return null;
+    const { width, height } = layout.hallSize;
+    const hasBrands = hall.brands.length > 0;
+    const isFilteredOut = !!matchingHallIds && !matchingHallIds.has(hall.id);
+    return (
+      <g 
+        key={hall.id} 
+        data-hall-id={hall.id}
+        transform={`translate(${layoutHall.x}, ${layoutHall.y})`}
+        className={hasBrands
+          ? `cursor-pointer transition-opacity ${isFilteredOut ? 'opacity-20 hover:opacity-40' : 'hover:opacity-90'}`
+          : `cursor-not-allowed ${isFilteredOut ? 'opacity-20' : 'opacity-50'}`}
+        onClick={(e) => handleHallClick(e, hall)}
+      >
+        {/* Shadow */}
+        <rect x="10" y="10" width={width} height={height} rx="8" fill="rgba(0,0,0,0.5)" pointerEvents="none"/>
+        {/* Block */}
+        <rect width={width} height={height} rx="8" fill={getFillColor(hall)} stroke="white" strokeWidth={hall.id === selectedHallId ? 4 : 1} />
+        <text x={width / 2} y="60" fill="white" fontSize="28" fontWeight="bold" textAnchor="middle" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }} pointerEvents="none">{hall.code}</text>
+        <text x={width / 2} y="90" fill="rgba(255,255,255,0.9)" fontSize="16" textAnchor="middle" pointerEvents="none">{hall.floor}F</text>
+        {mode !== 'zone' && hall.occupancy > 0 && (
+          <text x={width / 2} y="120" fill="white" fontSize="18" fontWeight="bold" textAnchor="middle" pointerEvents="none">
+            {getHallMetric(hallStats.get(hall.id)!, mode, favoriteCounts)}{activeMode.unit}
+          </text>
+        )}
+        {renderLaunchHighlight(hall)}
+        {renderFavoriteBadge(hall)}
+      </g>
+    );
+  };
+
+  const renderArea = (area: LayoutArea) => (
+    <g key={area.id} transform={`translate(${area.x}, ${area.y})`}>
+      {/* Zone Label */}
+      <circle cx={area.badge.x} cy={area.badge.y} r="40" fill={area.color} opacity="0.9" />
+      <text x={area.badge.x} y={area.badge.y + 15} fill="white" fontSize="40" fontWeight="900" textAnchor="middle">{area.id}</text>
+
+      {/* Container Border */}
+      <rect x={area.border.x} y={area.border.y} width={area.border.width} height={area.border.height} rx="20" fill="none" stroke="#475569" strokeWidth="4" strokeDasharray="10 10" />
+
+      {/* Hall Blocks */}
+      {area.halls.map(renderHall)}
+    </g>
+  );
+
   return (
     <div className="relative w-full h-full overflow-hidden bg-[#0f172a] touch-none">
       {/* Compass (Top Right) */}
@@ -160,159 +248,135 @@ const MapCanvas: React.FC<MapCanvasProps> = ({ halls, selectedHallId, onHallSele
           }}
         >
           {/* SVG Map Container */}
-          <svg width="1800" height="1200" viewBox="0 0 1800 1200" className="select-none">
+          <svg width={layout.width} height={layout.height} viewBox={`0 0 ${layout.width} ${layout.height}`} className="select-none">
             
             {/* --- BACKGROUND / ENVIRONMENT --- */}
             <g className="pointer-events-none select-none">
-                {/* Pearl River */}
-                <path d="M -500 -200 C 200 -50, 1000 -150, 2500 -200 L 2500 -600 L -500 -600 Z" fill="#1e293b" opacity="0.5" />
-                <text x="900" y="-200" fill="#3b82f6" fontSize="50" fontWeight="bold" textAnchor="middle" opacity="0.4" letterSpacing="10">珠江 PEARL RIVER</text>
-
-                {/* Yuejiang Middle Road */}
-                <path d="M -200 50 L 2000 50 L 2000 180 L -200 180 Z" fill="#334155" />
-                <path d="M -200 115 L 2000 115" stroke="#475569" strokeWidth="2" strokeDasharray="30 30" />
-                <text x="900" y="130" fill="#94a3b8" fontSize="28" fontWeight="bold" textAnchor="middle" letterSpacing="2">阅江中路 Yuejiang Middle Rd</text>
-
-                {/* Xingang East Road */}
-                <path d="M -200 850 L 1300 850 L 1400 1000 L -100 1000 Z" fill="#334155" />
-                <text x="700" y="940" fill="#94a3b8" fontSize="28" fontWeight="bold" textAnchor="middle" letterSpacing="2">新港东路 Xingang East Rd</text>
-
-                {/* Fengpu Road */}
-                <path d="M 1300 850 L 2200 850 L 2200 1000 L 1400 1000 Z" fill="#334155" />
-                <text x="1800" y="940" fill="#94a3b8" fontSize="28" fontWeight="bold" textAnchor="middle" letterSpacing="2">凤浦中路 Fengpu Rd</text>
-
-                {/* Zhanchang West Rd */}
-                <path d="M 680 180 L 740 180 L 740 850 L 680 850 Z" fill="#334155" />
-                 <text x="710" y="500" fill="#94a3b8" fontSize="20" fontWeight="bold" textAnchor="middle" style={{ writingMode: 'vertical-rl' }}>展场西路</text>
+                {layout.shapes.map((shape, idx) => (
+                    <path 
+                        key={idx} 
+                        d={shape.path} 
+                        fill={shape.fill || 'none'} 
+                        stroke={shape.stroke} 
+                        strokeWidth={shape.strokeWidth} 
+                        strokeDasharray={shape.strokeDasharray} 
+                        opacity={shape.opacity} 
+                    />
+                ))}
+                {layout.labels.map((label, idx) => (
+                    <text 
+                        key={idx} 
+                        x={label.x} 
+                        y={label.y} 
+                        fill={label.color} 
+                        fontSize={label.fontSize} 
+                        fontWeight="bold" 
+                        textAnchor="middle" 
+                        opacity={label.opacity} 
+                        letterSpacing={label.letterSpacing}
+                        style={label.vertical ? { writingMode: 'vertical-rl' } : undefined}
+                    >
+                        {label.text}
+                    </text>
+                ))}
             </g>
 
-            {/* Subway Station */}
-            <g transform="translate(700, 800)">
-               <rect x="-20" y="-20" width="240" height="40" rx="20" fill="#b91c1c" />
-               <circle cx="0" cy="0" r="15" fill="white" />
-               <text x="0" y="5" textAnchor="middle" fill="#b91c1c" fontWeight="bold" fontSize="14">M</text>
-               <text x="25" y="5" fill="white" fontWeight="bold" fontSize="16">地铁新港东站 A出口</text>
-            </g>
+            {/* --- LANDMARKS --- */}
+            {layout.landmarks.map(landmark => landmark.kind === 'metro' ? (
+                <g key={landmark.id} transform={`translate(${landmark.x}, ${landmark.y})`}>
+                   <rect x="-20" y="-20" width="240" height="40" rx="20" fill="#b91c1c" />
+                   <circle cx="0" cy="0" r="15" fill="white" />
+                   <text x="0" y="5" textAnchor="middle" fill="#b91c1c" fontWeight="bold" fontSize="14">M</text>
+                   <text x="25" y="5" fill="white" fontWeight="bold" fontSize="16">{landmark.label}</text>
+                </g>
+            ) : (
+                <g key={landmark.id} transform={`translate(${landmark.x}, ${landmark.y})`}>
+                     <rect x="0" y="0" width={landmark.width} height={landmark.height} fill="#64748b" />
+                     <line x1="0" y1="0" x2={landmark.width} y2="0" stroke="#94a3b8" strokeWidth="4" />
+                     <line x1="0" y1={landmark.height} x2={landmark.width} y2={landmark.height} stroke="#94a3b8" strokeWidth="4" />
+                </g>
+            ))}
 
             {/* --- EXHIBITION ZONES --- */}
-            
-            {/* AREA D GROUP */}
-            <g transform="translate(200, 300)">
-               {/* Zone Label */}
-               <circle cx="-60" cy="150" r="40" fill="#4338ca" opacity="0.9" />
-               <text x="-60" y="165" fill="white" fontSize="40" fontWeight="900" textAnchor="middle">D</text>
-               
-               {/* D Container Border */}
-               <rect x="-20" y="-20" width="500" height="460" rx="20" fill="none" stroke="#475569" strokeWidth="4" strokeDasharray="10 10" />
-
-               {/* Hall Blocks */}
-               {['17.2', '18.2', '19.2', '20.2'].map((code, i) => {
-                const hall = halls.find(h => h.code === code);
-                if (!hall) return null;
-                return (
-                  <g 
-                    key={hall.id} 
-                    data-hall-id={hall.id} 
-                    transform={`translate(${i * 120}, 0)`} 
-                    className="cursor-pointer hover:opacity-90 transition-opacity"
-                    onClick={(e) => handleHallClick(e, hall)}
-                  >
-                    {/* Shadow */}
-                    <rect x="10" y="10" width="110" height="140" rx="8" fill="rgba(0,0,0,0.5)" pointerEvents="none"/>
-                    {/* Block */}
-                    <rect width="110" height="140" rx="8" fill={getFillColor(hall)} stroke="white" strokeWidth={hall.id === selectedHallId ? 4 : 1} />
-                    <text x="55" y="60" fill="white" fontSize="28" fontWeight="bold" textAnchor="middle" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }} pointerEvents="none">{code}</text>
-                    <text x="55" y="90" fill="rgba(255,255,255,0.9)" fontSize="16" textAnchor="middle" pointerEvents="none">2F</text>
-                  </g>
-                );
-              })}
-
-               {/* Hall 20.1 */}
-               {(() => {
-                  const hall201 = halls.find(h => h.id === 'h20.1');
-                  if (hall201) {
-                      return (
-                          <g 
-                            key={hall201.id}
-                            data-hall-id={hall201.id}
-                            transform={`translate(360, 160)`} 
-                            className="cursor-pointer hover:opacity-90"
-                            onClick={(e) => handleHallClick(e, hall201)}
-                          >
-                             <rect x="10" y="10" width="110" height="140" rx="8" fill="rgba(0,0,0,0.5)" pointerEvents="none"/>
-                             <rect width="110" height="140" rx="8" fill={getFillColor(hall201)} stroke="white" strokeWidth={hall201.id === selectedHallId ? 4 : 1} />
-                             <text x="55" y="60" fill="white" fontSize="28" fontWeight="bold" textAnchor="middle" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }} pointerEvents="none">20.1</text>
-                             <text x="55" y="90" fill="rgba(255,255,255,0.9)" fontSize="16" textAnchor="middle" pointerEvents="none">1F</text>
-                          </g>
-                      )
-                  }
-               })()}
-            </g>
-
-            {/* Pedestrian Bridge */}
-            <g transform="translate(680, 370)">
-                 <rect x="0" y="0" width="60" height="40" fill="#64748b" />
-                 <line x1="0" y1="0" x2="60" y2="0" stroke="#94a3b8" strokeWidth="4" />
-                 <line x1="0" y1="40" x2="60" y2="40" stroke="#94a3b8" strokeWidth="4" />
-            </g>
-
-             {/* AREA A GROUP */}
-             <g transform="translate(740, 300)">
-               {/* Zone Label */}
-               <circle cx="620" cy="150" r="40" fill="#7c3aed" opacity="0.9" />
-               <text x="620" y="165" fill="white" fontSize="40" fontWeight="900" textAnchor="middle">A</text>
-               
-               {/* A Container Border */}
-               <rect x="-20" y="-20" width="620" height="460" rx="20" fill="none" stroke="#475569" strokeWidth="4" strokeDasharray="10 10" />
-
-               {/* Floor 2 Row */}
-               {['1.2', '2.2', '3.2', '4.2', '5.2'].map((code, i) => {
-                 const hall = halls.find(h => h.code === code);
-                 if (!hall) return null;
-                 const hasBrands = hall.brands.length > 0;
-                 return (
-                  <g 
-                    key={hall.id} 
-                    data-hall-id={hall.id}
-                    transform={`translate(${i * 120}, 0)`}
-                    className={`${hasBrands ? 'cursor-pointer hover:opacity-90' : 'cursor-not-allowed opacity-50'}`}
-                    onClick={(e) => handleHallClick(e, hall)}
-                  >
-                    <rect x="10" y="10" width="110" height="140" rx="8" fill="rgba(0,0,0,0.5)" pointerEvents="none"/>
-                    <rect width="110" height="140" rx="8" fill={getFillColor(hall)} stroke="white" strokeWidth={hall.id === selectedHallId ? 4 : 1} />
-                    <text x="55" y="60" fill="white" fontSize="28" fontWeight="bold" textAnchor="middle" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }} pointerEvents="none">{code}</text>
-                    <text x="55" y="90" fill="rgba(255,255,255,0.9)" fontSize="16" textAnchor="middle" pointerEvents="none">2F</text>
-                  </g>
-                 )
-              })}
-
-              {/* Floor 1 Row */}
-              {['1.1', '2.1', '3.1', '4.1', '5.1'].map((code, i) => {
-                 const hall = halls.find(h => h.code === code);
-                 if (!hall) return null;
-                 return (
-                  <g 
-                    key={hall.id} 
-                    data-hall-id={hall.id}
-                    transform={`translate(${i * 120}, 160)`}
-                    className="cursor-pointer hover:opacity-90"
-                    onClick={(e) => handleHallClick(e, hall)}
-                  >
-                    <rect x="10" y="10" width="110" height="140" rx="8" fill="rgba(0,0,0,0.5)" pointerEvents="none"/>
-                    <rect width="110" height="140" rx="8" fill={getFillColor(hall)} stroke="white" strokeWidth={hall.id === selectedHallId ? 4 : 1} />
-                    <text x="55" y="60" fill="white" fontSize="28" fontWeight="bold" textAnchor="middle" style={{ textShadow: '0 2px 4px rgba(0,0,0,0.5)' }} pointerEvents="none">{code}</text>
-                    <text x="55" y="90" fill="rgba(255,255,255,0.9)" fontSize="16" textAnchor="middle" pointerEvents="none">1F</text>
-                  </g>
-                 )
-              })}
-             </g>
+            {layout.areas.map(renderArea)}
+
+            {/* --- WALKING ROUTE OVERLAY --- */}
+            {routePlan && (
+              <g pointerEvents="none">
+                <polyline
+                  points={routePlan.path.map(n => `${n.x},${n.y}`).join(' ')}
+                  fill="none" stroke="#0f172a" strokeWidth="16" strokeLinecap="round" strokeLinejoin="round" opacity="0.6"
+                />
+                <polyline
+                  points={routePlan.path.map(n => `${n.x},${n.y}`).join(' ')}
+                  fill="none" stroke="#fbbf24" strokeWidth="8" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="18 12"
+                />
+
+                {/* Start */}
+                <g transform={`translate(${routePlan.entrance.x}, ${routePlan.entrance.y})`}>
+                  <circle r="22" fill="#fbbf24" stroke="#0f172a" strokeWidth="4" />
+                  <text y="7" fill="#0f172a" fontSize="20" fontWeight="900" textAnchor="middle">起</text>
+                </g>
+
+                {/* Step numbers in the top-left corner of each hall block */}
+                {routePlan.stops.map((stop, idx) => {
+                  const node = routePlan.path.find(n => n.hallId === stop.hall.id);
+                  if (!node) return null;
+                  return (
+                    <g key={stop.hall.id} transform={`translate(${node.x - layout.hallSize.width / 2 + 10}, ${node.y - layout.hallSize.height / 2 + 10})`}>
+                      <circle r="20" fill="#f59e0b" stroke="#0f172a" strokeWidth="4" />
+                      <text y="7" fill="#0f172a" fontSize="20" fontWeight="900" textAnchor="middle">{idx + 1}</text>
+                    </g>
+                  );
+                })}
+              </g>
+            )}
 
           </svg>
         </div>
       </div>
       
+      {/* Colour mode picker and legend (Bottom Right, above the caption) */}
+      <div className="absolute bottom-12 right-4 z-20 w-44 bg-slate-900/90 backdrop-blur rounded-lg border border-slate-700 shadow-lg p-2 text-xs pointer-events-auto">
+        {onColorModeChange ? (
+          <select
+            value={mode}
+            onChange={(e) => onColorModeChange(e.target.value as MapColorMode)}
+            className="w-full bg-slate-800 text-slate-200 rounded border border-slate-700 px-1.5 py-1 mb-2 focus:outline-none focus:border-blue-500"
+            aria-label="地图着色方式"
+          >
+            {COLOR_MODES.map(m => <option key={m.id} value={m.id}>按{m.label}着色</option>)}
+          </select>
+        ) : (
+          <div className="font-bold text-slate-300 mb-2">{activeMode.label}</div>
+        )}
+        {mode === 'zone' ? (
+          <ul className="space-y-1">
+            {Object.values(ZoneType).filter(zone => halls.some(h => h.type === zone && h.occupancy > 0)).map(zone => (
+              <li key={zone} className="flex items-center gap-2 text-slate-300">
+                <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: ZONE_COLORS[zone] }}></span>
+                {zone}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div>
+            <div className="h-2.5 rounded-sm" style={{ background: `linear-gradient(to right, ${HEAT_STOPS.join(', ')})` }}></div>
+            <div className="flex justify-between text-[10px] text-slate-400 mt-1 font-mono">
+              <span>0</span>
+              <span>{metricMax}{activeMode.unit}</span>
+            </div>
+          </div>
+        )}
+        {onOpenStats && (
+          <button onClick={onOpenStats} className="mt-2 w-full text-left text-slate-400 hover:text-white border-t border-slate-800 pt-1.5">
+            统计概览 ›
+          </button>
+        )}
+      </div>
+
       <div className="absolute bottom-4 right-4 text-slate-500 text-xs pointer-events-none select-none bg-slate-900/80 px-2 py-1 rounded">
-         Guangzhou Auto Show Investor Map
+         {caption}
       </div>
     </div>
   );
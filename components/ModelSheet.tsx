@@ -0,0 +1,111 @@
+import React, { useEffect } from 'react';
+import { Brand, CarModel, FieldNote, Hall } from '../types';
+import { formatSpecs } from '../utils/modelSpecs';
+import { formatClock, formatDay } from '../utils/schedule';
+import { getTagStyle } from '../utils/tagStyle';
+
+interface ModelSheetProps {
+  hall: Hall;
+  brand: Brand;
+  model: CarModel;
+  notes: FieldNote[]; // The user's notes on this model
+  onClose: () => void;
+}
+
+// Bottom sheet over the hall list with one model's specs, launch slot, CSV note and your notes
+const ModelSheet: React.FC<ModelSheetProps> = ({ hall, brand, model, notes, onClose }) => {
+  const specs = formatSpecs(model.specs);
+  const launch = model.launchTime ? new Date(model.launchTime) : null;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-h-[85%] flex flex-col bg-slate-900 rounded-t-2xl border-t border-slate-700 shadow-2xl animate-in slide-in-from-bottom-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3 px-5 pt-4 pb-3 border-b border-slate-800 shrink-0">
+          <div className="min-w-0">
+            <p className="text-[11px] text-slate-500">
+              {brand.name} · <span className="font-mono text-amber-500">{hall.code}馆 {brand.booth}</span>
+            </p>
+            <h3 className="text-xl font-bold text-white">{model.name}</h3>
+            {model.highlight && (
+              <span className={`inline-block mt-1 text-xs font-bold px-2 py-0.5 rounded whitespace-nowrap ${getTagStyle(model.highlight)}`}>
+                {model.highlight}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded-full shrink-0" aria-label="Close model details">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar px-5 py-4 space-y-5">
+          {launch && (
+            <div className="flex items-center gap-2 text-xs text-red-200 rounded-lg border border-red-900/60 bg-red-950/20 px-3 py-2">
+              <span className="font-bold">发布会</span>
+              <span className="font-mono">{formatDay(launch)} {formatClock(launch)}</span>
+              {model.stage && <span className="text-red-300/80">· {model.stage}</span>}
+            </div>
+          )}
+
+          <section>
+            <div className="text-[10px] font-bold text-emerald-500/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+              <span className="w-1 h-1 rounded-full bg-emerald-500 inline-block"></span>
+              参数 (SPECS)
+            </div>
+            {specs.length > 0 ? (
+              <>
+                <dl className="grid grid-cols-2 gap-2">
+                  {specs.map(({ label, value }) => (
+                    <div key={label} className="rounded-lg bg-slate-800/60 border border-slate-700/50 px-3 py-2">
+                      <dt className="text-[10px] text-slate-500">{label}</dt>
+                      <dd className="text-sm font-bold text-slate-100">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <p className="mt-2 text-[10px] text-slate-600">参数来自 CSV 参数列，或从下方备注中自动提取，仅供参考</p>
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">暂无参数信息</p>
+            )}
+          </section>
+
+          {model.note && (
+            <section>
+              <div className="text-[10px] font-bold text-slate-500 mb-2 uppercase tracking-wider">备注 (NOTE)</div>
+              <p className="text-sm text-slate-300 leading-relaxed whitespace-pre-line">{model.note}</p>
+            </section>
+          )}
+
+          {notes.length > 0 && (
+            <section>
+              <div className="text-[10px] font-bold text-violet-400/80 mb-2 uppercase tracking-wider">我的笔记 ({notes.length})</div>
+              <ul className="space-y-1.5">
+                {notes.map(note => (
+                  <li key={note.id} className="text-sm text-slate-300 bg-violet-950/20 border border-violet-900/40 rounded px-2.5 py-1.5">
+                    {note.author && <span className="text-[10px] text-violet-300 mr-1">{note.author}</span>}
+                    {note.text}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSheet;
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+
+// Header pill shown while the device has no network connection
+const OfflineIndicator: React.FC = () => {
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOffline(!navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (!isOffline) return null;
+
+  return (
+    <div
+      className="flex items-center gap-1 px-2.5 py-1.5 rounded-full text-xs font-medium border bg-slate-800 border-slate-600 text-slate-300"
+      title="当前离线，显示已缓存的数据"
+    >
+      <span className="w-1.5 h-1.5 rounded-full bg-slate-400"></span>
+      离线
+    </div>
+  );
+};
+
+export default OfflineIndicator;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { MAX_RATING } from '../utils/ratings';
+
+interface RatingStarsProps {
+  value: number; // 0 when unrated
+  onChange?: (score: number) => void; // Read-only without it
+  className?: string;
+}
+
+// 1–5 star booth rating; tapping the current score clears it
+const RatingStars: React.FC<RatingStarsProps> = ({ value, onChange, className = 'w-5 h-5' }) => (
+  <div className="flex items-center" role={onChange ? 'radiogroup' : 'img'} aria-label={`评分 ${value}/${MAX_RATING}`}>
+    {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(score => {
+      const star = (
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className={className}>
+          <path fillRule="evenodd" d="M10.788 3.21c.448-1.077 1.976-1.077 2.424 0l2.082 5.006 5.404.434c1.164.093 1.636 1.545.749 2.305l-4.117 3.527 1.257 5.273c.271 1.136-.964 2.033-1.96 1.425L12 18.354 7.373 21.18c-.996.608-2.231-.29-1.96-1.425l1.257-5.273-4.117-3.527c-.887-.76-.415-2.212.749-2.305l5.404-.434 2.082-5.005Z" clipRule="evenodd" />
+        </svg>
+      );
+      const color = score <= value ? 'text-violet-400' : 'text-slate-700';
+      if (!onChange) return <span key={score} className={color}>{star}</span>;
+      return (
+        <button
+          key={score}
+          onClick={(e) => { e.stopPropagation(); onChange(score === value ? 0 : score); }}
+          className={`p-0.5 transition-colors ${color} hover:text-violet-300`}
+          role="radio"
+          aria-checked={score === value}
+          title={`${score} 星`}
+        >
+          {star}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default RatingStars;
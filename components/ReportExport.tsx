@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { Favorites, FieldNote, Hall, MarketSnapshot, ShowEvent } from '../types';
+import {
+  ReportOptions, ReportScope, buildReport, countReportBooths, downloadFile, printReport,
+  reportToCSV, reportToHTML, reportToMarkdown
+} from '../utils/report';
+
+interface ReportExportProps {
+  halls: Hall[];
+  event: ShowEvent;
+  favorites: Favorites;
+  fieldNotes: FieldNote[];
+  marketData: MarketSnapshot | null; // Finds insights cached against the current prices
+  selectedHallId?: string | null; // Preselected when choosing halls
+  onClose: () => void;
+}
+
+const SCOPES: Array<{ id: ReportScope; label: string }> = [
+  { id: 'favorites', label: '我的清单' },
+  { id: 'halls', label: '选定展馆' },
+  { id: 'all', label: '全部展位' }
+];
+
+// Export a post-show report (Markdown, printable HTML / PDF, flat CSV) built from the loaded data
+const ReportExport: React.FC<ReportExportProps> = ({ halls, event, favorites, fieldNotes, marketData, selectedHallId, onClose }) => {
+  const hasFavorites = favorites.brandIds.length > 0 || favorites.modelKeys.length > 0;
+  const [options, setOptions] = useState<ReportOptions>({
+    scope: hasFavorites ? 'favorites' : selectedHallId ? 'halls' : 'all',
+    hallIds: selectedHallId ? [selectedHallId] : [],
+    includeFullModelList: false,
+    includeInsights: true,
+    includeFieldNotes: true
+  });
+  const [isPopupBlocked, setIsPopupBlocked] = useState(false);
+
+  const report = useMemo(
+    () => buildReport(halls, event, favorites, fieldNotes, options, marketData),
+    [halls, event, favorites, fieldNotes, options, marketData]
+  );
+  const boothCount = countReportBooths(report);
+  const insightCount = report.halls.reduce((sum, h) => sum + h.booths.filter(b => b.insight).length, 0);
+  const filenameBase = `${event.id}-report`;
+
+  const update = (patch: Partial<ReportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+  const toggleHall = (hallId: string) => update({
+    hallIds: options.hallIds.includes(hallId) ? options.hallIds.filter(id => id !== hallId) : [...options.hallIds, hallId]
+  });
+
+  const handlePrint = () => setIsPopupBlocked(!printReport(reportToHTML(report)));
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white truncate">导出报告</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6 max-w-xl w-full mx-auto">
+        {/* Scope */}
+        <section>
+          <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">范围</div>
+          <div className="flex gap-2">
+            {SCOPES.map(scope => (
+              <button
+                key={scope.id}
+                onClick={() => update({ scope: scope.id })}
+                className={`flex-1 text-sm px-3 py-2 rounded-lg border transition-colors ${
+                  options.scope === scope.id
+                    ? 'bg-amber-500/20 border-amber-500/60 text-amber-200'
+                    : 'bg-slate-900 border-slate-700 text-slate-300 hover:bg-slate-800'
+                }`}
+              >
+                {scope.label}
+              </button>
+            ))}
+          </div>
+          {options.scope === 'favorites' && !hasFavorites && (
+            <p className="text-xs text-slate-500 mt-2">清单为空：先在展馆列表或搜索结果中点击 ☆ 收藏展位</p>
+          )}
+          {options.scope === 'halls' && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {halls.filter(h => h.brands.length > 0).map(hall => (
+                <button
+                  key={hall.id}
+                  onClick={() => toggleHall(hall.id)}
+                  className={`text-xs font-mono px-2 py-1 rounded border transition-colors ${
+                    options.hallIds.includes(hall.id)
+                      ? 'bg-amber-500/20 border-amber-500/60 text-amber-200'
+                      : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'
+                  }`}
+                >
+                  {hall.code}
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Content */}
+        <section className="space-y-2">
+          <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">内容</div>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.includeFullModelList}
+              onChange={(e) => update({ includeFullModelList: e.target.checked })}
+              className="accent-amber-500"
+            />
+            包含全系参展车型 (不勾选时只含重点新车与收藏的车型)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.includeInsights}
+              onChange={(e) => update({ includeInsights: e.target.checked })}
+              className="accent-amber-500"
+            />
+            包含已生成的 AI 投资观点
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.includeFieldNotes}
+              onChange={(e) => update({ includeFieldNotes: e.target.checked })}
+              className="accent-amber-500"
+            />
+            包含我的现场笔记 (照片只保留在本机，报告中仅注明张数)
+          </label>
+          <p className="text-xs text-slate-500">
+            共 {boothCount} 个展位 · {report.halls.length} 个展馆{options.includeInsights && ` · ${insightCount} 条 AI 观点`}
+            <br />只导出已在展位卡片中生成过的 AI 观点，导出时不会调用 AI
+          </p>
+        </section>
+
+        {/* Formats */}
+        <section className="space-y-2">
+          <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">格式</div>
+          <button
+            disabled={boothCount === 0}
+            onClick={() => downloadFile(`${filenameBase}.md`, reportToMarkdown(report), 'text/markdown')}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 text-left transition-colors"
+          >
+            <span className="text-sm font-bold text-white">Markdown</span>
+            <span className="text-xs text-slate-500">投资备忘录草稿 · .md</span>
+          </button>
+          <button
+            disabled={boothCount === 0}
+            onClick={handlePrint}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 text-left transition-colors"
+          >
+            <span className="text-sm font-bold text-white">打印 / PDF</span>
+            <span className="text-xs text-slate-500">在新标签页打开，选择「存储为 PDF」</span>
+          </button>
+          <button
+            disabled={boothCount === 0}
+            onClick={() => downloadFile(`${filenameBase}.csv`, reportToCSV(report), 'text/csv')}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 text-left transition-colors"
+          >
+            <span className="text-sm font-bold text-white">CSV</span>
+            <span className="text-xs text-slate-500">每行一款车型，可用 Excel 打开</span>
+          </button>
+          {isPopupBlocked && (
+            <p className="text-xs text-amber-400">浏览器拦截了新标签页，请允许弹出窗口后重试</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ReportExport;
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Favorites, Hall, RoutePlan, VenueGraph } from '../types';
+import { isBoothOnList } from '../utils/favorites';
+import { getEntrances, planRoute } from '../utils/routePlanner';
+
+interface RoutePlannerProps {
+  graph: VenueGraph;
+  halls: Hall[];
+  favorites: Favorites;
+  highlightedBrandId?: string | null; // The booth currently open in the sidebar
+  onPlanChange: (plan: RoutePlan | null) => void;
+  onSelectBrand: (hallId: string, brandId: string) => void;
+  onClose: () => void;
+}
+
+// Floating panel over the map: pick an entrance and booths, get a hall-by-hall walking order
+const RoutePlanner: React.FC<RoutePlannerProps> = ({ graph, halls, favorites, highlightedBrandId, onPlanChange, onSelectBrand, onClose }) => {
+  const entrances = getEntrances(graph);
+  const [entranceId, setEntranceId] = useState(entrances[0]?.id || '');
+  // Per-booth include/exclude choices; booths without a choice default to "not yet visited"
+  const [included, setIncluded] = useState<Record<string, boolean>>({});
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // Starred booths plus whichever booth is currently selected
+  const candidates = useMemo(() => halls.flatMap(hall => hall.brands
+    .filter(b => b.id === highlightedBrandId || isBoothOnList(favorites, b.id))
+    .map(brand => ({ hall, brand, visited: favorites.visitedBrandIds.includes(brand.id) }))
+  ), [halls, favorites, highlightedBrandId]);
+
+  const isIncluded = (brandId: string, visited: boolean) => included[brandId] ?? !visited;
+  const selectedIds = candidates.filter(c => isIncluded(c.brand.id, c.visited)).map(c => c.brand.id);
+  const selectionKey = selectedIds.join('|');
+
+  const plan = useMemo(
+    () => planRoute(graph, halls, selectedIds, entranceId),
+    // selectedIds is rebuilt every render; its joined key is the real dependency
+    [graph, halls, selectionKey, entranceId]
+  );
+
+  useEffect(() => {
+    onPlanChange(plan);
+  }, [plan]);
+
+  // Take the route off the map when the planner closes
+  useEffect(() => () => onPlanChange(null), []);
+
+  return (
+    <div className="absolute top-4 left-4 right-4 sm:right-auto sm:w-80 z-30 max-h-[calc(100%-2rem)] flex flex-col bg-slate-900/95 backdrop-blur rounded-xl border border-slate-700 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800 shrink-0">
+        <h3 className="font-bold text-sm text-white">参观路线规划</h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded-full" aria-label="Close route planner">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {/* Entrance */}
+        <label className="block">
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">出发入口</span>
+          <select
+            value={entranceId}
+            onChange={(e) => setEntranceId(e.target.value)}
+            className="mt-1 w-full bg-slate-800 text-sm text-white rounded-lg border border-slate-700 px-2 py-1.5 focus:outline-none focus:border-blue-500"
+          >
+            {entrances.map(e => <option key={e.id} value={e.id}>{e.label}</option>)}
+          </select>
+        </label>
+
+        {/* Booth picker */}
+        <div>
+          <button
+            onClick={() => setIsPickerOpen(!isPickerOpen)}
+            className="w-full flex items-center justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider"
+          >
+            <span>途经展位 ({selectedIds.length}/{candidates.length})</span>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-4 h-4 transition-transform ${isPickerOpen ? 'rotate-180' : ''}`}>
+              <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
+            </svg>
+          </button>
+          {isPickerOpen && (
+            <div className="mt-2 space-y-1">
+              {candidates.length === 0 && <p className="text-xs text-slate-500">收藏展位或在地图上选择展位后即可规划</p>}
+              {candidates.map(({ hall, brand, visited }) => (
+                <label key={brand.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isIncluded(brand.id, visited)}
+                    onChange={(e) => setIncluded(prev => ({ ...prev, [brand.id]: e.target.checked }))}
+                    className="accent-amber-500"
+                  />
+                  <span className="font-mono text-amber-500">{brand.booth}</span>
+                  <span className="truncate">{brand.name}</span>
+                  <span className="text-slate-600 ml-auto shrink-0">{hall.code}馆{visited ? ' · 已看' : ''}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Result */}
+        {!plan ? (
+          <p className="text-xs text-slate-500 text-center py-2">
+            {candidates.length === 0 ? '还没有可规划的展位：先在清单中收藏展位' : '请至少选择一个展位'}
+          </p>
+        ) : (
+          <div>
+            <div className="flex items-baseline gap-2 mb-3">
+              <span className="text-2xl font-bold text-amber-400">{Math.round(plan.totalMinutes)}</span>
+              <span className="text-xs text-slate-400">分钟步行 · 约 {(plan.totalMetres / 1000).toFixed(1)} 公里 · {plan.stops.length} 个展馆</span>
+            </div>
+            <ol className="space-y-2">
+              <li className="flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-5 h-5 rounded-full bg-slate-700 text-white flex items-center justify-center text-[10px] font-bold shrink-0">起</span>
+                {plan.entrance.label}
+              </li>
+              {plan.stops.map((stop, idx) => (
+                <li key={stop.hall.id}>
+                  <button
+                    onClick={() => onSelectBrand(stop.hall.id, stop.brands[0].id)}
+                    className="w-full flex items-start gap-2 text-left rounded-lg hover:bg-slate-800 p-1 -m-1 transition-colors"
+                  >
+                    <span className="w-5 h-5 rounded-full bg-amber-500 text-slate-950 flex items-center justify-center text-[10px] font-bold shrink-0 mt-0.5">{idx + 1}</span>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-bold text-white">{stop.hall.code}馆</span>
+                        <span className="text-[10px] text-slate-500 shrink-0">+{Math.max(1, Math.round(stop.legMinutes))} 分钟</span>
+                      </div>
+                      <p className="text-xs text-slate-400 truncate">
+                        {stop.brands.map(b => `${b.booth} ${b.name}`).join(' · ')}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoutePlanner;
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChatMessage, FieldNote, Hall, QAPassage, ShowEvent } from '../types';
+import { answerQuestion } from '../services/insightService';
+import { buildSearchIndex } from '../utils/searchIndex';
+import { findCitations, retrievePassages } from '../utils/showQA';
+
+interface ShowChatProps {
+  halls: Hall[];
+  fieldNotes: FieldNote[];
+  event: ShowEvent;
+  messages: ChatMessage[];
+  onMessagesChange: (update: (messages: ChatMessage[]) => ChatMessage[]) => void;
+  onSelectBrand: (hallId: string, brandId: string) => void;
+  onClose: () => void;
+}
+
+const EXAMPLE_QUESTIONS = ['哪些品牌发布插混 SUV？', '小鹏在哪个馆？', '有哪些全球首发车型？'];
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Booth link inside an answer; tapping it opens the Sidebar at that brand
+const CitationChip: React.FC<{ passage: QAPassage; onSelect: () => void }> = ({ passage, onSelect }) => (
+  <button
+    onClick={onSelect}
+    className="inline-flex items-center gap-1 align-baseline mx-0.5 px-1.5 py-px rounded bg-sky-950/60 border border-sky-800 text-sky-200 hover:bg-sky-900/60 text-xs font-medium transition-colors"
+  >
+    {passage.brand.name}
+    <span className="text-[10px] text-sky-400 font-mono">{passage.hall.code}馆 {passage.brand.booth}</span>
+  </button>
+);
+
+// Floating Q&A panel over the map: questions are answered from the loaded halls, citing the booths used
+const ShowChat: React.FC<ShowChatProps> = ({ halls, fieldNotes, event, messages, onMessagesChange, onSelectBrand, onClose }) => {
+  const searchIndex = useMemo(() => buildSearchIndex(halls, fieldNotes), [halls, fieldNotes]);
+  const [input, setInput] = useState('');
+  // Question being answered; it joins the conversation together with its answer
+  const [pending, setPending] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Answers arriving after the panel is closed are dropped along with their question
+  const requestId = useRef(0);
+  useEffect(() => () => { requestId.current++; }, []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length, pending]);
+
+  const ask = async (question: string, history: ChatMessage[] = messages) => {
+    const text = question.trim();
+    if (!text || pending) return;
+
+    // Follow-ups like "哪个最便宜？" name no booth, so they are asked about the previous answer's booths
+    let passages = retrievePassages(text, halls, searchIndex, fieldNotes);
+    if (passages.length === 0) {
+      const previous = [...history].reverse().find(m => m.role === 'assistant' && m.passages && m.passages.length > 0);
+      if (previous) passages = previous.passages || [];
+    }
+
+    const id = ++requestId.current;
+    setInput('');
+    setPending(text);
+    const userMessage: ChatMessage = { id: createId(), role: 'user', text };
+    let reply: ChatMessage;
+    try {
+      const answer = await answerQuestion(text, passages, history, {
+        eventId: event.id,
+        eventName: `${event.year} ${event.name}`
+      });
+      reply = { id: createId(), role: 'assistant', ...answer, passages };
+    } catch {
+      reply = { id: createId(), role: 'assistant', text: 'AI 请求失败，请检查网络后重试', passages, isError: true };
+    }
+    if (id !== requestId.current) return;
+    onMessagesChange(current => [...current, userMessage, reply]);
+    setPending(null);
+  };
+
+  // Drops the failed turn and asks its question again
+  const retry = (message: ChatMessage) => {
+    const index = messages.indexOf(message);
+    const question = messages[index - 1];
+    if (!question || pending) return;
+    onMessagesChange(current => current.filter(m => m !== message && m !== question));
+    ask(question.text, messages.slice(0, index - 1));
+  };
+
+  const renderText = (message: ChatMessage) => {
+    const byId = new Map((message.passages || []).map(p => [p.brand.id, p] as const));
+    return message.text.split(/(\[[^\]]+\])/).map((part, i) => {
+      const passage = byId.get(part.slice(1, -1));
+      return passage
+        ? <CitationChip key={i} passage={passage} onSelect={() => onSelectBrand(passage.hall.id, passage.brand.id)} />
+        : <React.Fragment key={i}>{part}</React.Fragment>;
+    });
+  };
+
+  const renderAnswer = (message: ChatMessage) => {
+    const passages = message.passages || [];
+    // Booths the answer relied on without naming them inline, e.g. every keyword hit when there's no AI
+    const inline = new Set(findCitations(message.text, passages));
+    const sources = passages.filter(p => (message.citedBrandIds || []).includes(p.brand.id) && !inline.has(p.brand.id));
+
+    if (message.isError) {
+      return (
+        <div className="flex items-center justify-between gap-2 bg-red-950/40 border border-red-900/60 rounded-lg px-3 py-2.5 text-sm text-red-200">
+          <span>{message.text}</span>
+          <button
+            onClick={() => retry(message)}
+            className="shrink-0 text-xs font-bold px-2 py-1 rounded bg-red-900/60 hover:bg-red-800/60 border border-red-700 transition-colors"
+          >
+            重试
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className={`rounded-lg px-3 py-2.5 text-sm leading-relaxed ${
+        message.isFallback ? 'bg-slate-950/60 border border-dashed border-slate-700 text-slate-400' : 'bg-slate-800/60 border border-slate-700 text-slate-200'
+      }`}>
+        <div className="whitespace-pre-line">{renderText(message)}</div>
+        {sources.length > 0 && (
+          <div className="mt-2 pt-2 border-t border-slate-700/60">
+            <div className="text-[10px] font-bold text-slate-500 mb-1 uppercase tracking-wider">
+              {message.isFallback ? '关键词匹配的展位' : '引用展位'}
+            </div>
+            <div className="flex flex-wrap gap-y-1">
+              {sources.map(passage => (
+                <CitationChip
+                  key={passage.brand.id}
+                  passage={passage}
+                  onSelect={() => onSelectBrand(passage.hall.id, passage.brand.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute top-4 left-4 right-4 sm:right-auto sm:w-96 z-30 max-h-[calc(100%-2rem)] flex flex-col bg-slate-900/95 backdrop-blur rounded-xl border border-slate-700 shadow-2xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800 shrink-0">
+        <div>
+          <h3 className="font-bold text-sm text-white">展会问答</h3>
+          <p className="text-[11px] text-slate-500">根据{event.year} {event.name}展位数据回答</p>
+        </div>
+        <div className="flex items-center gap-1">
+          {messages.length > 0 && (
+            <button
+              onClick={() => { requestId.current++; setPending(null); onMessagesChange(() => []); }}
+              className="text-xs text-slate-400 hover:text-white px-2 py-1"
+            >
+              清空
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded-full" aria-label="Close Q&A">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 min-h-[8rem] overflow-y-auto custom-scrollbar p-4 space-y-3">
+        {messages.length === 0 && !pending && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">问问展位、车型或动力形式，答案会标注引用的展位：</p>
+            <div className="flex flex-wrap gap-1.5">
+              {EXAMPLE_QUESTIONS.map(question => (
+                <button
+                  key={question}
+                  onClick={() => ask(question)}
+                  className="text-xs px-2.5 py-1 rounded-full border bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-500 transition-colors"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => (
+          message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <div className="max-w-[85%] rounded-lg px-3 py-2 text-sm bg-blue-600 text-white">{message.text}</div>
+            </div>
+          ) : (
+            <div key={message.id}>{renderAnswer(message)}</div>
+          )
+        ))}
+
+        {pending && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[85%] rounded-lg px-3 py-2 text-sm bg-blue-600/70 text-white">{pending}</div>
+            </div>
+            <div className="flex items-center gap-2 bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2.5 text-sm text-slate-300">
+              <svg className="animate-spin h-4 w-4 text-sky-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              正在查找展位...
+            </div>
+          </>
+        )}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(input); }}
+        className="flex items-center gap-2 px-3 py-3 border-t border-slate-800 shrink-0"
+      >
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="例如：哪些品牌发布插混 SUV？"
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-full px-3 py-1.5 text-sm text-white placeholder:text-slate-600 focus:outline-none focus:border-sky-600"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || !!pending}
+          className="text-xs font-bold px-3 py-1.5 rounded-full bg-sky-500 hover:bg-sky-400 text-slate-950 disabled:opacity-40 disabled:hover:bg-sky-500 shrink-0"
+        >
+          提问
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ShowChat;
@@ -1,62 +1,132 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Hall } from '../types';
+import { Hall, Brand, CarModel, Favorites, ShowEvent, FacetFilter, NearbyLaunch, FieldNote, BrandRating, CompareItem, MarketSnapshot, BrandListing } from '../types';
+import InsightPanel from './InsightPanel';
+import HallBriefing from './HallBriefing';
+import TickerChip from './TickerChip';
+import BrandLogo from './BrandLogo';
+import HallMapViewer from './HallMapViewer';
+import ModelSheet from './ModelSheet';
+import FavoriteStar from './FavoriteStar';
+import FieldNotes from './FieldNotes';
+import RatingStars from './RatingStars';
+import CompareToggle from './CompareToggle';
+import { getTagStyle } from '../utils/tagStyle';
+import { resolveBrandIdentity } from '../utils/brandIndex';
+import { getModelKey } from '../utils/favorites';
+import { matchesFilter } from '../utils/facets';
+import { formatClock, formatDay } from '../utils/schedule';
+import { getModelNotes } from '../utils/fieldNotes';
+import { getOwnRating, summarizeRatings } from '../utils/ratings';
+import { MAX_COMPARE_ITEMS, isInCompare } from '../utils/compare';
+import { compareByMarketCap, formatMarketCap, resolveListing } from '../services/marketData';
 
 interface SidebarProps {
   hall: Hall | null;
+  zoneHalls?: Hall[]; // Every hall of the same zone type, for the zone-wide briefing; the briefing is hidden without it
   highlightedBrandId?: string | null;
+  highlightedModelName?: string | null; // Model row within the highlighted brand's card to bring into view
+  onOpenBrand?: (entityId: string) => void;
+  favorites?: Favorites;
+  onToggleFavoriteBrand?: (brandId: string) => void;
+  onToggleFavoriteModel?: (brandId: string, modelName: string) => void;
+  event?: ShowEvent; // Show edition the hall belongs to, passed on to the insight panel
+  filter?: FacetFilter; // Active facet filter; non-matching cards are hidden
+  onClearFilter?: () => void;
+  nearbyLaunches?: NearbyLaunch[]; // "Next up near me": upcoming launches reachable from this hall
+  onSelectModel?: (hallId: string, brandId: string, modelName: string) => void;
+  onOpenSchedule?: () => void;
+  fieldNotes?: FieldNote[]; // The user's own notes for this edition; the notes section is hidden without onAddNote
+  onAddNote?: (note: FieldNote) => void;
+  onDeleteNote?: (note: FieldNote) => void;
+  ratings?: BrandRating[]; // Yours and any merged from colleagues; the rating row is hidden without onRateBrand
+  onRateBrand?: (brandId: string, score: number) => void;
+  compareItems?: CompareItem[]; // Compare tray; the compare toggles are hidden without onToggleCompare
+  onToggleCompare?: (item: CompareItem) => void;
+  marketData?: MarketSnapshot | null; // Prices for the ticker chips, the insight prompt and sorting by market cap
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
+const Sidebar: React.FC<SidebarProps> = ({
+  hall, zoneHalls, highlightedBrandId, highlightedModelName, onOpenBrand, favorites, onToggleFavoriteBrand, onToggleFavoriteModel, event, filter, onClearFilter,
+  nearbyLaunches = [], onSelectModel, onOpenSchedule, fieldNotes = [] as FieldNote[], onAddNote, onDeleteNote,
+  ratings = [] as BrandRating[], onRateBrand, compareItems = [] as CompareItem[], onToggleCompare, marketData = null
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [imgError, setImgError] = useState(false);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
+  const [mapFocusBrandId, setMapFocusBrandId] = useState<string | null>(null);
   const [isMapExpanded, setIsMapExpanded] = useState(true);
   // Track which brands are expanded to show details
   const [expandedBrands, setExpandedBrands] = useState<Record<string, boolean>>({});
+  // Model whose detail sheet is open
+  const [sheetModel, setSheetModel] = useState<{ brand: Brand; model: CarModel } | null>(null);
+  // Kept when switching halls
+  const [sortBy, setSortBy] = useState<'booth' | 'marketCap'>('booth');
   
   // Reset states when hall changes
   useEffect(() => {
     setImgError(false);
     setIsImageModalOpen(false);
+    setMapFocusBrandId(null);
     setIsMapExpanded(true);
     setExpandedBrands({}); // Collapse all when switching halls
+    setSheetModel(null);
     if (containerRef.current) {
         containerRef.current.scrollTop = 0;
     }
   }, [hall]);
 
-  // Handle scrolling to highlighted brand and auto-expanding it
-  useEffect(() => {
-    if (highlightedBrandId && hall) {
-        // Auto-expand the highlighted brand
-        setExpandedBrands(prev => ({ ...prev, [highlightedBrandId]: true }));
+  // Expand a brand card, scroll it (or one of its model rows) to the middle of the list and flash a ring around it
+  const focusBrandCard = (brandId: string, modelName?: string | null) => {
+    setExpandedBrands(prev => ({ ...prev, [brandId]: true }));
 
-        // Use a timeout to ensure the DOM is fully updated and sidebar transition is active/done
-        const timer = setTimeout(() => {
-            const el = document.getElementById(`brand-${highlightedBrandId}`);
-            const container = containerRef.current;
+    // Use a timeout to ensure the DOM is fully updated and sidebar transition is active/done
+    return setTimeout(() => {
+        const el = document.getElementById(`brand-${brandId}`);
+        const container = containerRef.current;
+        
+        if (el && container) {
+            const modelEl = modelName
+                ? el.querySelector<HTMLElement>(`[data-model-name="${CSS.escape(modelName)}"]`)
+                : null;
+            const target = modelEl || el;
+            const targetTop = target.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+            const containerHeight = container.offsetHeight;
             
-            if (el && container) {
-                const elTop = el.offsetTop;
-                const elHeight = el.offsetHeight;
-                const containerHeight = container.offsetHeight;
-                
-                container.scrollTo({
-                    top: elTop - (containerHeight / 2) + (elHeight / 2),
-                    behavior: 'smooth'
-                });
-
-                el.classList.add('ring-2', 'ring-amber-500', 'bg-slate-800');
-                
-                setTimeout(() => {
-                   if (el) el.classList.remove('ring-2', 'ring-amber-500');
-                }, 2000);
-            }
-        }, 300);
+            container.scrollTo({
+                top: targetTop - (containerHeight / 2) + (target.offsetHeight / 2),
+                behavior: 'smooth'
+            });
 
+            el.classList.add('ring-2', 'ring-amber-500', 'bg-slate-800');
+            modelEl?.classList.add('ring-2', 'ring-amber-400');
+            
+            setTimeout(() => {
+               if (el) el.classList.remove('ring-2', 'ring-amber-500');
+               modelEl?.classList.remove('ring-2', 'ring-amber-400');
+            }, 2000);
+        }
+    }, 300);
+  };
+
+  // Handle scrolling to highlighted brand and auto-expanding it
+  useEffect(() => {
+    if (highlightedBrandId && hall) {
+        const timer = focusBrandCard(highlightedBrandId, highlightedModelName);
         return () => clearTimeout(timer);
     }
-  }, [highlightedBrandId, hall]);
+  }, [highlightedBrandId, highlightedModelName, hall]);
+
+  const openMap = (brandId: string | null) => {
+    setMapFocusBrandId(brandId);
+    setIsImageModalOpen(true);
+  };
+
+  // Tapping a booth marker closes the floor plan and jumps to that brand's card
+  const handleMarkerSelect = (brandId: string) => {
+    setIsImageModalOpen(false);
+    setMapFocusBrandId(brandId);
+    focusBrandCard(brandId);
+  };
 
   const toggleBrand = (e: React.MouseEvent, brandId: string) => {
     e.stopPropagation();
@@ -76,11 +146,94 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
     }
   };
 
-  const getTagStyle = (tag: string) => {
-      if (tag.includes('新车')) return 'bg-red-900/60 text-red-200 border border-red-700';
-      if (tag.includes('首发')) return 'bg-purple-900/60 text-purple-200 border border-purple-700';
-      if (tag.includes('换代')) return 'bg-blue-900/60 text-blue-200 border border-blue-700';
-      return 'bg-slate-700 text-slate-200 border border-slate-600';
+  // Launch slot, powertrain and price line; powertrain and price may have been read from the note
+  const renderModelSpecs = (model: CarModel, className: string) => {
+      const powertrain = model.specs?.powertrainType || model.powertrain;
+      const price = model.specs?.priceBand || model.price;
+      if (!price && !powertrain && !model.launchTime) return null;
+      const launch = model.launchTime ? new Date(model.launchTime) : null;
+      return (
+          <div className={`flex items-center gap-2 text-[11px] text-slate-400 ${className}`}>
+              {launch && (
+                  <span className="font-mono px-1.5 py-0.5 rounded bg-red-950/50 text-red-300 border border-red-900" title="发布会时间">
+                      {launch.getMonth() + 1}/{launch.getDate()} {formatClock(launch)}{model.stage && ` · ${model.stage}`}
+                  </span>
+              )}
+              {powertrain && (
+                  <span className="font-mono px-1.5 py-0.5 rounded bg-emerald-950/50 text-emerald-300 border border-emerald-900">{powertrain}</span>
+              )}
+              {price && <span>{price}</span>}
+          </div>
+      );
+  };
+
+  // Opens the model's detail sheet without toggling the brand card
+  const renderModelSheetButton = (brand: Brand, model: CarModel) => (
+      <button
+          onClick={(e) => { e.stopPropagation(); setSheetModel({ brand, model }); }}
+          className="p-1 rounded-full text-slate-600 hover:text-slate-300 transition-colors"
+          title="车型详情"
+      >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="m11.25 11.25.041-.02a.75.75 0 0 1 1.063.852l-.708 2.836a.75.75 0 0 0 1.063.853l.041-.021M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9-3.75h.008v.008H12V8.25Z" />
+          </svg>
+      </button>
+  );
+
+  // Count of the user's notes on a model row
+  const renderModelNoteCount = (brand: Brand, model: CarModel) => {
+      const count = getModelNotes(fieldNotes, brand.id, model.name).length;
+      if (count === 0) return null;
+      return <span className="text-[10px] text-violet-300 px-1" title="现场笔记">📝{count}</span>;
+  };
+
+  // Your 1–5 rating of a booth, with the team average once colleagues' ratings have been merged
+  const renderRating = (brand: Brand) => {
+      if (!onRateBrand) return null;
+      const team = summarizeRatings(ratings, brand.id);
+      const hasColleagues = team.ratings.some(r => r.author);
+      return (
+          <div className="mt-4 flex items-center justify-between gap-2" onClick={(e) => e.stopPropagation()}>
+              <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold text-violet-400/80 uppercase tracking-wider">我的评分</span>
+                  <RatingStars value={getOwnRating(ratings, brand.id)} onChange={(score) => onRateBrand(brand.id, score)} />
+              </div>
+              {hasColleagues && (
+                  <span
+                      className="text-xs text-slate-400"
+                      title={team.ratings.map(r => `${r.author || '我'}: ${r.score}`).join('\n')}
+                  >
+                      团队 <span className="text-violet-300 font-bold">{team.average.toFixed(1)}</span> · {team.count} 人
+                  </span>
+              )}
+          </div>
+      );
+  };
+
+  // Compare toggle for a booth or one of its models; disabled once the tray is full
+  const renderCompareToggle = (item: CompareItem, className: string) => {
+      if (!onToggleCompare) return null;
+      const active = isInCompare(compareItems, item);
+      return (
+          <CompareToggle
+              active={active}
+              disabled={!active && compareItems.length >= MAX_COMPARE_ITEMS}
+              onToggle={() => onToggleCompare(item)}
+              className={className}
+          />
+      );
+  };
+
+  // Star on a model row; hidden when the parent doesn't track favourites
+  const renderModelStar = (brand: Brand, model: CarModel) => {
+      if (!favorites || !onToggleFavoriteModel) return null;
+      return (
+          <FavoriteStar
+              active={favorites.modelKeys.includes(getModelKey(brand.id, model.name))}
+              onToggle={() => onToggleFavoriteModel(brand.id, model.name)}
+              className="w-4 h-4"
+          />
+      );
   };
 
   if (!hall) {
@@ -98,7 +251,18 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
     );
   }
 
-  const sortedBrands = [...hall.brands].sort((a, b) => a.booth.localeCompare(b.booth));
+  // The booth the user navigated to stays visible even if the filter excludes it
+  const listings = new Map<string, BrandListing | undefined>(hall.brands.map((b: Brand) => [b.id, resolveListing(b, marketData)]));
+  const hasQuotes = [...listings.values()].some(listing => listing?.quote);
+  const sortedBrands = [...hall.brands]
+    .filter(b => !filter || b.id === highlightedBrandId || matchesFilter(filter, hall, b))
+    .sort((a, b) => (sortBy === 'marketCap' && hasQuotes && compareByMarketCap(listings.get(a.id), listings.get(b.id))) ||
+      a.booth.localeCompare(b.booth));
+  const insightContext = {
+    zone: hall.type,
+    hallCode: hall.code,
+    ...(event && { eventId: event.id, eventName: `${event.year} ${event.name}` })
+  };
   const mapImageUrl = `/hall-maps/${hall.code}.png`;
 
   return (
@@ -124,11 +288,42 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
             </div>
         </div>
 
+        {/* Next up near me: launches you can still walk to in time */}
+        {nearbyLaunches.length > 0 && (
+            <div className="mb-3 rounded-lg border border-red-900/60 bg-red-950/20 px-3 py-2">
+                <div className="flex items-center justify-between mb-1">
+                    <span className="text-[10px] font-bold text-red-300 uppercase tracking-wider flex items-center gap-1">
+                        <span className="w-1 h-1 rounded-full bg-red-500 inline-block"></span>
+                        附近即将发布
+                    </span>
+                    {onOpenSchedule && (
+                        <button onClick={onOpenSchedule} className="text-[10px] text-slate-400 hover:text-white">全部日程 ›</button>
+                    )}
+                </div>
+                <ul className="space-y-0.5">
+                    {nearbyLaunches.map(({ hall: launchHall, brand, model, start, walkMinutes }) => (
+                        <li key={`${brand.id}-${model.name}`}>
+                            <button
+                                onClick={() => onSelectModel?.(launchHall.id, brand.id, model.name)}
+                                className="w-full flex items-center gap-2 text-left text-xs hover:bg-red-950/40 rounded px-1 -mx-1 py-0.5"
+                            >
+                                <span className="font-mono font-bold text-red-200 shrink-0" title={formatDay(start)}>{formatClock(start)}</span>
+                                <span className="text-slate-200 truncate flex-1">{brand.name} {model.name}</span>
+                                <span className="text-slate-500 shrink-0">
+                                    {launchHall.id === hall.id ? '本馆' : `${launchHall.code}馆 · 步行${Math.max(1, Math.round(walkMinutes))}分`}
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
         {/* Collapsible Map Section */}
         <div className={`transition-all duration-300 ease-in-out overflow-hidden ${isMapExpanded ? 'max-h-40 opacity-100 mb-3' : 'max-h-0 opacity-0 mb-0'}`}>
             <div 
                 className="w-full h-28 bg-slate-950 rounded-lg border border-slate-800 relative overflow-hidden shadow-inner group cursor-pointer"
-                onClick={() => !imgError && setIsImageModalOpen(true)}
+                onClick={() => !imgError && openMap(highlightedBrandId || mapFocusBrandId)}
             >
                 {!imgError ? (
                     <>
@@ -155,32 +350,26 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
         </div>
       </div>
 
-      {/* Image Modal */}
+      {/* Interactive Floor Plan */}
       {isImageModalOpen && (
-        <div 
-            className="fixed inset-0 z-[100] bg-black/95 flex items-center justify-center p-4 backdrop-blur-sm"
-            onClick={() => setIsImageModalOpen(false)}
-        >
-            <div className="relative max-w-[95vw] max-h-[95vh] w-full h-full flex flex-col items-center justify-center">
-                <button 
-                    className="absolute top-4 right-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 p-2 rounded-full transition-colors"
-                    onClick={() => setIsImageModalOpen(false)}
-                >
-                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-8 h-8">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
-                    </svg>
-                </button>
-                <img 
-                    src={mapImageUrl} 
-                    alt={`${hall.code} Layout Full`}
-                    className="max-w-full max-h-full object-contain rounded shadow-2xl"
-                    onClick={(e) => e.stopPropagation()}
-                />
-                 <div className="absolute bottom-8 bg-black/70 px-4 py-2 rounded-full text-white text-sm font-bold border border-white/10">
-                    {hall.code} 展馆分布图
-                </div>
-            </div>
-        </div>
+        <HallMapViewer 
+            hall={hall}
+            imageUrl={mapImageUrl}
+            focusedBrandId={mapFocusBrandId}
+            onSelectBrand={handleMarkerSelect}
+            onClose={() => setIsImageModalOpen(false)}
+        />
+      )}
+
+      {/* Model Detail Sheet */}
+      {sheetModel && (
+        <ModelSheet 
+            hall={hall}
+            brand={sheetModel.brand}
+            model={sheetModel.model}
+            notes={getModelNotes(fieldNotes, sheetModel.brand.id, sheetModel.model.name)}
+            onClose={() => setSheetModel(null)}
+        />
       )}
 
       {/* Brand List */}
@@ -189,12 +378,42 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
         onScroll={handleScroll}
         className="flex-1 overflow-y-auto overflow-x-hidden p-4 space-y-4 custom-scrollbar relative"
       >
+        {/* Hall briefing across every exhibitor (fetched on demand) */}
+        {zoneHalls && hall.brands.length > 0 && (
+            <HallBriefing key={hall.id} hall={hall} zoneHalls={zoneHalls} context={insightContext} />
+        )}
+        {hasQuotes && sortedBrands.length > 1 && (
+            <div className="flex items-center justify-end gap-2 text-[10px] text-slate-500">
+                <span>排序</span>
+                <div className="flex rounded-full border border-slate-700 overflow-hidden">
+                    {(['booth', 'marketCap'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setSortBy(option)}
+                            className={`px-2 py-0.5 transition-colors ${sortBy === option ? 'bg-sky-500/20 text-sky-200' : 'text-slate-500 hover:text-slate-300'}`}
+                        >
+                            {option === 'booth' ? '展位号' : '市值'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+        {filter && (
+            <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-amber-950/30 border border-amber-900/50 text-xs text-amber-200">
+                <span>已筛选 · 显示 {sortedBrands.length} / {hall.brands.length} 个展位</span>
+                {onClearFilter && (
+                    <button onClick={onClearFilter} className="font-bold hover:text-white">清除筛选</button>
+                )}
+            </div>
+        )}
         {sortedBrands.length === 0 ? (
-             <div className="text-center text-slate-500 py-10 text-lg">暂无展位数据</div>
+             <div className="text-center text-slate-500 py-10 text-lg">{filter && hall.brands.length > 0 ? '没有符合筛选条件的展位' : '暂无展位数据'}</div>
         ) : (
             sortedBrands.map((brand) => {
                 const isHighlighted = brand.id === highlightedBrandId;
                 const isExpanded = expandedBrands[brand.id] || false;
+                const brandNotes = fieldNotes.filter(note => note.brandId === brand.id);
+                const listing = listings.get(brand.id);
 
                 return (
                     <div 
@@ -214,10 +433,21 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
                             <div className="flex flex-col gap-1 overflow-hidden flex-1 mr-2">
                                 <div className="flex items-center gap-3">
                                     <span className="text-amber-500 font-mono font-bold text-base shrink-0">{brand.booth}</span>
+                                    {brand.logo && <BrandLogo src={brand.logo} name={brand.name} className="w-7 h-7" />}
                                     <h4 className={`font-bold text-xl truncate ${isHighlighted ? 'text-amber-100' : 'text-white'}`}>
                                         {brand.name}
                                     </h4>
+                                    {listing && <TickerChip listing={listing} className="shrink-0" />}
+                                    {!isExpanded && brandNotes.length > 0 && (
+                                        <span className="text-xs text-violet-300 shrink-0" title="现场笔记">📝{brandNotes.length}</span>
+                                    )}
                                 </div>
+                                {sortBy === 'marketCap' && listing?.quote && (
+                                    <span className="text-[11px] text-slate-500">
+                                        {listing.viaGroup && `${listing.viaGroup} · `}市值 {formatMarketCap(listing.quote.marketCap)}
+                                        {listing.quote.pe !== undefined && ` · PE ${listing.quote.pe.toFixed(1)}`}
+                                    </span>
+                                )}
                                 {/* Brand Description (Hidden when collapsed) */}
                                 {isExpanded && brand.description && (
                                     <div className="mt-2 mb-1 p-2 bg-blue-950/30 border border-blue-900/30 rounded text-sm text-blue-200 leading-relaxed animate-in fade-in">
@@ -225,6 +455,14 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
                                     </div>
                                 )}
                             </div>
+                            {renderCompareToggle({ brandId: brand.id }, 'w-6 h-6')}
+                            {favorites && onToggleFavoriteBrand && (
+                                <FavoriteStar 
+                                    active={favorites.brandIds.includes(brand.id)} 
+                                    onToggle={() => onToggleFavoriteBrand(brand.id)} 
+                                    className="w-6 h-6" 
+                                />
+                            )}
                             {/* Chevron Icon */}
                              <div className={`text-slate-400 transition-transform duration-300 mt-1.5 shrink-0 ${isExpanded ? 'rotate-180' : ''}`}>
                                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-6 h-6">
@@ -242,16 +480,23 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
                                 </div>
                                 <div className="grid grid-cols-1 gap-2">
                                     {brand.models.map((model, idx) => (
-                                        <div key={idx} className="flex flex-col bg-slate-900/60 rounded-lg border border-slate-700/40 overflow-hidden">
+                                        <div key={idx} data-model-name={model.name} className="flex flex-col bg-slate-900/60 rounded-lg border border-slate-700/40 overflow-hidden">
                                             {/* Main Row: Name & Tag */}
                                             <div className="flex items-center justify-between px-3 py-2.5">
                                                 <span className="text-slate-100 font-bold text-lg truncate mr-2">{model.name}</span>
-                                                {model.highlight && (
-                                                    <span className={`text-xs font-bold px-2 py-0.5 rounded whitespace-nowrap shadow-sm ${getTagStyle(model.highlight)}`}>
-                                                        {model.highlight}
-                                                    </span>
-                                                )}
+                                                <div className="flex items-center gap-1 shrink-0">
+                                                    {model.highlight && (
+                                                        <span className={`text-xs font-bold px-2 py-0.5 rounded whitespace-nowrap shadow-sm ${getTagStyle(model.highlight)}`}>
+                                                            {model.highlight}
+                                                        </span>
+                                                    )}
+                                                    {renderModelNoteCount(brand, model)}
+                                                    {renderModelSheetButton(brand, model)}
+                                                    {renderCompareToggle({ brandId: brand.id, modelName: model.name }, 'w-4 h-4')}
+                                                    {renderModelStar(brand, model)}
+                                                </div>
                                             </div>
+                                            {renderModelSpecs(model, 'px-3 pb-2 -mt-1')}
                                             {/* Note (Displayed only when expanded, with distinct styling) */}
                                             {isExpanded && model.note && (
                                                 <div className="px-3 pb-3 pt-0 animate-in fade-in slide-in-from-top-1">
@@ -278,15 +523,22 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
                                 
                                 <div className="grid grid-cols-1 gap-2">
                                     {brand.fullModelList.map((model, idx) => (
-                                        <div key={idx} className="flex flex-col rounded border border-slate-800 bg-slate-900/30 transition-colors hover:bg-slate-900/50">
+                                        <div key={idx} data-model-name={model.name} className="flex flex-col rounded border border-slate-800 bg-slate-900/30 transition-colors hover:bg-slate-900/50">
                                             <div className="flex items-center justify-between px-3 py-2">
                                                 <span className="text-slate-300 text-base font-medium truncate mr-2">{model.name}</span>
-                                                {model.highlight && (
-                                                     <span className={`text-[10px] px-2 py-0.5 rounded whitespace-nowrap ${getTagStyle(model.highlight)}`}>
-                                                        {model.highlight}
-                                                    </span>
-                                                )}
+                                                <div className="flex items-center gap-1 shrink-0">
+                                                    {model.highlight && (
+                                                         <span className={`text-[10px] px-2 py-0.5 rounded whitespace-nowrap ${getTagStyle(model.highlight)}`}>
+                                                            {model.highlight}
+                                                        </span>
+                                                    )}
+                                                    {renderModelNoteCount(brand, model)}
+                                                    {renderModelSheetButton(brand, model)}
+                                                    {renderCompareToggle({ brandId: brand.id, modelName: model.name }, 'w-4 h-4')}
+                                                    {renderModelStar(brand, model)}
+                                                </div>
                                             </div>
+                                            {renderModelSpecs(model, 'px-3 pb-2 -mt-1')}
                                             {/* Note (Displayed only when expanded) */}
                                             {isExpanded && model.note && (
                                                 <div className="px-3 pb-2 pt-0 animate-in fade-in slide-in-from-top-1">
@@ -300,6 +552,43 @@ const Sidebar: React.FC<SidebarProps> = ({ hall, highlightedBrandId }) => {
                                 </div>
                             </div>
                         )}
+
+                        {/* Locate this booth on the floor plan */}
+                        {isExpanded && brand.boothPosition && !imgError && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); openMap(brand.id); }}
+                                className="mt-4 w-full flex items-center justify-between px-3 py-2 rounded-lg border border-amber-900/60 bg-amber-950/20 hover:bg-amber-950/40 text-sm text-amber-200 transition-colors"
+                            >
+                                <span>在展馆图中定位 {brand.booth}</span>
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 10.5a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" />
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 10.5c0 7.142-7.5 11.25-7.5 11.25S4.5 17.642 4.5 10.5a7.5 7.5 0 1 1 15 0Z" />
+                                </svg>
+                            </button>
+                        )}
+
+                        {/* Brand-level view across all booths and halls */}
+                        {isExpanded && onOpenBrand && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onOpenBrand(resolveBrandIdentity(brand.name).id); }}
+                                className="mt-4 w-full flex items-center justify-between px-3 py-2 rounded-lg border border-slate-700 bg-slate-900/40 hover:bg-slate-800 text-sm text-slate-300 transition-colors"
+                            >
+                                <span>品牌详情 · 全部展位与车型</span>
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="m8.25 4.5 7.5 7.5-7.5 7.5" />
+                                </svg>
+                            </button>
+                        )}
+
+                        {isExpanded && renderRating(brand)}
+
+                        {/* The user's own notes and photos (Expanded only) */}
+                        {isExpanded && onAddNote && onDeleteNote && (
+                            <FieldNotes brand={brand} notes={brandNotes} onAddNote={onAddNote} onDeleteNote={onDeleteNote} />
+                        )}
+
+                        {/* Section 3: AI Insight (Expanded only, fetched on demand) */}
+                        {isExpanded && <InsightPanel brand={brand} context={{ ...insightContext, listing }} />}
                     </div>
                 )
             })
@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { Hall } from '../types';
+import { computeHallStats, computeTopBrandsByLaunches, computeZoneStats } from '../utils/hallStats';
+import { ZONE_COLORS } from '../utils/heatmap';
+
+interface StatsDashboardProps {
+  halls: Hall[];
+  title: string; // Show edition, e.g. "2025 广州车展"
+  onClose: () => void;
+  onSelectHall: (hall: Hall) => void;
+  onOpenBrand: (entityId: string) => void;
+}
+
+// Horizontal bar scaled against the largest value in its table
+const Bar: React.FC<{ value: number; max: number; color: string }> = ({ value, max, color }) => (
+  <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+    <div className="h-full rounded-full" style={{ width: `${max > 0 ? (value / max) * 100 : 0}%`, backgroundColor: color }}></div>
+  </div>
+);
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-[10px] font-bold text-amber-500/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+    <span className="w-1 h-1 rounded-full bg-amber-500 inline-block"></span>
+    {children}
+  </div>
+);
+
+// Summary of the loaded exhibitor data: totals, per-zone and per-hall counts, top launch brands
+const StatsDashboard: React.FC<StatsDashboardProps> = ({ halls, title, onClose, onSelectHall, onOpenBrand }) => {
+  const hallStats = useMemo(() => halls.map(computeHallStats), [halls]);
+  const zoneStats = useMemo(() => computeZoneStats(hallStats), [hallStats]);
+  const topBrands = useMemo(() => computeTopBrandsByLaunches(halls), [halls]);
+
+  const inUse = hallStats.filter(s => s.hall.occupancy > 0);
+  const totals = [
+    { label: '使用展馆', value: inUse.length },
+    { label: '展商展位', value: inUse.reduce((sum, s) => sum + s.exhibitors, 0) },
+    { label: '参展车型', value: inUse.reduce((sum, s) => sum + s.models, 0) },
+    { label: '首发/新车', value: inUse.reduce((sum, s) => sum + s.launches, 0) }
+  ];
+  const maxZoneExhibitors = Math.max(0, ...zoneStats.map(z => z.exhibitors));
+  const maxHallExhibitors = Math.max(0, ...inUse.map(s => s.exhibitors));
+  const maxBrandLaunches = Math.max(0, ...topBrands.map(b => b.launches));
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white truncate">{title} · 统计概览</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
+        {/* Totals */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {totals.map(t => (
+            <div key={t.label} className="bg-slate-900 border border-slate-800 rounded-lg p-3">
+              <div className="text-2xl font-bold text-white">{t.value}</div>
+              <div className="text-xs text-slate-500">{t.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Per zone */}
+        <section>
+          <SectionTitle>按展区</SectionTitle>
+          <div className="space-y-2">
+            {zoneStats.map(z => (
+              <div key={z.zone}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="flex items-center gap-2 text-slate-200">
+                    <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: ZONE_COLORS[z.zone] }}></span>
+                    {z.zone}
+                  </span>
+                  <span className="text-xs text-slate-400">
+                    {z.halls} 馆 · {z.exhibitors} 展位 · {z.models} 车型 · <span className="text-red-300">{z.launches} 首发/新车</span>
+                  </span>
+                </div>
+                <Bar value={z.exhibitors} max={maxZoneExhibitors} color={ZONE_COLORS[z.zone]} />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Top brands by launches */}
+        {topBrands.length > 0 && (
+          <section>
+            <SectionTitle>首发/新车最多的品牌</SectionTitle>
+            <ol className="space-y-1">
+              {topBrands.map(({ entity, launches, models }, idx) => (
+                <li key={entity.id}>
+                  <button
+                    onClick={() => onOpenBrand(entity.id)}
+                    className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-slate-800 transition-colors text-left"
+                  >
+                    <span className="w-5 text-right text-xs font-mono text-slate-500 shrink-0">{idx + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="font-bold text-slate-200 truncate">{entity.name}</span>
+                        <span className="text-xs text-slate-400 shrink-0"><span className="text-red-300 font-bold">{launches}</span> / {models} 款</span>
+                      </div>
+                      <Bar value={launches} max={maxBrandLaunches} color="#f43f5e" />
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {/* Per hall */}
+        <section>
+          <SectionTitle>按展馆</SectionTitle>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] text-slate-500 uppercase tracking-wider text-left">
+                <th className="font-bold py-1">展馆</th>
+                <th className="font-bold py-1">展区</th>
+                <th className="font-bold py-1 w-1/4">展位</th>
+                <th className="font-bold py-1 text-right">车型</th>
+                <th className="font-bold py-1 text-right">首发/新车</th>
+                <th className="font-bold py-1 text-right">使用率</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/60">
+              {[...inUse].sort((a, b) => a.hall.code.localeCompare(b.hall.code, undefined, { numeric: true })).map(s => (
+                <tr
+                  key={s.hall.id}
+                  onClick={() => s.exhibitors > 0 && onSelectHall(s.hall)}
+                  className={s.exhibitors > 0 ? 'cursor-pointer hover:bg-slate-900' : 'opacity-50'}
+                >
+                  <td className="py-1.5 font-mono font-bold text-amber-500">{s.hall.code}</td>
+                  <td className="py-1.5 text-xs text-slate-400">{s.hall.type}</td>
+                  <td className="py-1.5 pr-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-200 w-6 text-right">{s.exhibitors}</span>
+                      <div className="flex-1"><Bar value={s.exhibitors} max={maxHallExhibitors} color={ZONE_COLORS[s.hall.type]} /></div>
+                    </div>
+                  </td>
+                  <td className="py-1.5 text-right text-slate-300">{s.models}</td>
+                  <td className="py-1.5 text-right text-red-300">{s.launches}</td>
+                  <td className="py-1.5 text-right text-slate-400">{s.hall.occupancy}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import qrcode from 'qrcode-generator';
+import { ShowEvent } from '../types';
+import {
+  BundleError, MergeSummary, TeamBundle, TeamData, bundleFilename, createBundle, decodeBundlePayload,
+  encodeBundlePayload, loadAuthorName, mergeBundle, parseBundle, saveAuthorName
+} from '../utils/teamBundle';
+import { downloadFile } from '../utils/report';
+import { formatRoute } from '../utils/router';
+
+interface TeamShareProps {
+  event: ShowEvent;
+  events: ShowEvent[];
+  data: TeamData;
+  incomingPayload?: string; // Bundle from a scanned QR-code link
+  onMerge: (data: TeamData) => void;
+  onIncomingHandled: () => void; // Drop the payload from the URL once it has been read
+  onClose: () => void;
+}
+
+// Links longer than this make QR codes too dense to scan reliably from a phone screen
+const MAX_QR_LINK_LENGTH = 2000;
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-[10px] font-bold text-amber-500/80 mb-2 uppercase tracking-wider flex items-center gap-1">
+    <span className="w-1 h-1 rounded-full bg-amber-500 inline-block"></span>
+    {children}
+  </div>
+);
+
+const countLine = (data: Pick<TeamData, 'favorites' | 'notes' | 'ratings'>) =>
+  `收藏 ${data.favorites.brandIds.length + data.favorites.modelKeys.length} · 已看 ${data.favorites.visitedBrandIds.length} · ` +
+  `笔记 ${data.notes.length} · 评分 ${data.ratings.length}`;
+
+const describeSummary = (summary: MergeSummary) => [
+  `新增笔记 ${summary.notesAdded} 条`,
+  summary.notesSkipped > 0 && `${summary.notesSkipped} 条已导入过`,
+  `新增评分 ${summary.ratingsAdded} 个`,
+  summary.ratingsUpdated > 0 && `更新 ${summary.ratingsUpdated} 个较新的评分`,
+  summary.ratingsKept > 0 && `${summary.ratingsKept} 个评分冲突，保留了本机较新的版本`,
+  summary.favoritesAdded > 0 && `清单新增 ${summary.favoritesAdded} 项`
+].filter(Boolean).join('，');
+
+// Share your favourites, visits, notes and ratings with colleagues, and merge theirs, without a server
+const TeamShare: React.FC<TeamShareProps> = ({ event, events, data, incomingPayload, onMerge, onIncomingHandled, onClose }) => {
+  const [author, setAuthor] = useState(loadAuthorName);
+  const [qr, setQr] = useState<{ dataUrl: string; withoutNotes: boolean } | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [pending, setPending] = useState<TeamBundle | null>(null);
+  const [includeFavorites, setIncludeFavorites] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [mergeResult, setMergeResult] = useState<string | null>(null);
+
+  const hasAuthor = author.trim().length > 0;
+  const pendingEvent = pending ? events.find(e => e.id === pending.eventId) : undefined;
+  const isOtherEdition = !!pending && pending.eventId !== event.id;
+
+  const showImportError = (error: unknown) => {
+    setPending(null);
+    setImportError(error instanceof BundleError ? error.message : '无法读取文件');
+  };
+
+  // A bundle arriving through a QR-code link goes straight to the import preview
+  useEffect(() => {
+    if (!incomingPayload) return;
+    decodeBundlePayload(incomingPayload)
+      .then(bundle => { setPending(bundle); setImportError(null); })
+      .catch(showImportError)
+      .finally(onIncomingHandled);
+  }, [incomingPayload]);
+
+  const handleAuthorChange = (name: string) => {
+    setAuthor(name);
+    saveAuthorName(name);
+    setQr(null);
+  };
+
+  const buildBundle = () => createBundle(event.id, author.trim(), data);
+
+  const handleDownload = () => {
+    const bundle = buildBundle();
+    downloadFile(bundleFilename(bundle), JSON.stringify(bundle, null, 2), 'application/json');
+  };
+
+  // Notes are dropped from the QR code when the full bundle won't fit; the file always has everything
+  const handleShowQr = async () => {
+    setShareError(null);
+    const toLink = async (bundle: TeamBundle) =>
+      `${window.location.origin}${window.location.pathname}${formatRoute({ eventId: event.id, share: true, shareData: await encodeBundlePayload(bundle) })}`;
+    try {
+      const bundle = buildBundle();
+      let link = await toLink(bundle);
+      let withoutNotes = false;
+      if (link.length > MAX_QR_LINK_LENGTH && bundle.notes.length > 0) {
+        link = await toLink({ ...bundle, notes: [] });
+        withoutNotes = true;
+      }
+      if (link.length > MAX_QR_LINK_LENGTH) {
+        setQr(null);
+        setShareError('内容太多，放不进二维码，请使用文件分享');
+        return;
+      }
+      const code = qrcode(0, 'L');
+      code.addData(link);
+      code.make();
+      setQr({ dataUrl: code.createDataURL(4, 4), withoutNotes });
+    } catch (error) {
+      console.warn("Failed to build QR code:", error);
+      setShareError('此浏览器不支持生成二维码，请使用文件分享');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMergeResult(null);
+    try {
+      setPending(parseBundle(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      showImportError(error);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!pending || isOtherEdition) return;
+    const { data: merged, summary } = mergeBundle(data, pending, author, { includeFavorites });
+    onMerge(merged);
+    setMergeResult(`已合并 ${pending.author} 的数据：${describeSummary(summary)}`);
+    setPending(null);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-950 z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 flex items-center px-4 border-b border-slate-800 bg-slate-900 shrink-0 gap-3">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400 hover:text-white">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 19.5 8.25 12l7.5-7.5" />
+          </svg>
+        </button>
+        <h2 className="flex-1 font-bold text-base text-white truncate">团队共享</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6 max-w-xl w-full mx-auto">
+        {/* Import */}
+        <section>
+          <SectionTitle>导入同事的数据</SectionTitle>
+          {pending ? (
+            <div className="rounded-lg border border-slate-700 bg-slate-900 p-3 space-y-2">
+              <div className="text-sm text-white font-bold">{pending.author}</div>
+              <div className="text-xs text-slate-400">{countLine(pending)}</div>
+              {pending.exportedAt && (
+                <div className="text-[11px] text-slate-500">导出于 {new Date(pending.exportedAt).toLocaleString('zh-CN')}</div>
+              )}
+              {isOtherEdition ? (
+                <p className="text-xs text-amber-400">
+                  这份数据属于 {pendingEvent ? `${pendingEvent.year} ${pendingEvent.name}` : pending.eventId}，请先切换到该届车展再导入
+                </p>
+              ) : (
+                <>
+                  <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={includeFavorites}
+                      onChange={(e) => setIncludeFavorites(e.target.checked)}
+                      className="accent-amber-500"
+                    />
+                    同时把对方的收藏与已看合并到我的清单
+                  </label>
+                  <p className="text-xs text-slate-500">笔记和评分会标注作者；同一人对同一展位的评分冲突时保留较新的一个</p>
+                </>
+              )}
+              <div className="flex gap-2 pt-1">
+                <button
+                  onClick={handleMerge}
+                  disabled={isOtherEdition}
+                  className="flex-1 text-sm font-bold px-3 py-2 rounded-lg bg-amber-500 hover:bg-amber-400 text-slate-950 disabled:opacity-40 disabled:hover:bg-amber-500"
+                >
+                  合并
+                </button>
+                <button
+                  onClick={() => setPending(null)}
+                  className="text-sm px-3 py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800"
+                >
+                  取消
+                </button>
+              </div>
+            </div>
+          ) : (
+            <label className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 cursor-pointer transition-colors">
+              <span className="text-sm font-bold text-white">选择文件</span>
+              <span className="text-xs text-slate-500">同事分享的 .json 文件；二维码直接用相机扫描</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+              />
+            </label>
+          )}
+          {importError && <p className="text-xs text-red-400 mt-2">{importError}</p>}
+          {mergeResult && <p className="text-xs text-emerald-400 mt-2">{mergeResult}</p>}
+        </section>
+
+        {/* Export */}
+        <section className="space-y-2">
+          <SectionTitle>分享我的数据</SectionTitle>
+          <input
+            value={author}
+            onChange={(e) => handleAuthorChange(e.target.value)}
+            placeholder="你的名字 (用于标注笔记和评分的作者)"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-amber-500"
+          />
+          <p className="text-xs text-slate-500">{event.year} {event.name} · {countLine(data)} · 照片只保留在本机</p>
+          <button
+            disabled={!hasAuthor}
+            onClick={handleDownload}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 text-left transition-colors"
+          >
+            <span className="text-sm font-bold text-white">下载文件</span>
+            <span className="text-xs text-slate-500">.json，可通过微信或邮件发给同事</span>
+          </button>
+          <button
+            disabled={!hasAuthor}
+            onClick={handleShowQr}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-slate-700 bg-slate-900 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-slate-900 text-left transition-colors"
+          >
+            <span className="text-sm font-bold text-white">二维码</span>
+            <span className="text-xs text-slate-500">同事用相机扫码即可导入</span>
+          </button>
+          {!hasAuthor && <p className="text-xs text-slate-500">先填写名字再分享</p>}
+          {shareError && <p className="text-xs text-amber-400">{shareError}</p>}
+          {qr && (
+            <div className="flex flex-col items-center gap-2 pt-2">
+              <img src={qr.dataUrl} alt="团队共享二维码" className="w-64 h-64 bg-white rounded-lg" style={{ imageRendering: 'pixelated' }} />
+              {qr.withoutNotes && <p className="text-xs text-amber-400">笔记太多，二维码只含收藏、已看与评分；完整内容请用文件分享</p>}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default TeamShare;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { BrandListing } from '../types';
+import { formatChange, formatMarketCap } from '../services/marketData';
+
+interface TickerChipProps {
+  stockCode?: string; // Bare ticker, when there's no market data to go with it
+  listing?: BrandListing;
+  className?: string;
+}
+
+// Same colours as the bullish / bearish insight badges
+const changeClass = (changePercent: number) =>
+  changePercent > 0 ? 'text-emerald-400' : changePercent < 0 ? 'text-red-400' : 'text-slate-400';
+
+const describe = ({ ticker, quote, viaGroup, asOf }: BrandListing) => [
+  quote ? `${quote.name} ${ticker}` : ticker,
+  viaGroup && `母公司 ${viaGroup}`,
+  quote && `${quote.price.toFixed(2)} ${quote.currency} (${formatChange(quote.changePercent)})`,
+  quote && `市值 ${formatMarketCap(quote.marketCap)}`,
+  quote && `PE ${quote.pe !== undefined ? quote.pe.toFixed(1) : '亏损'}`,
+  quote && asOf && `数据截至 ${asOf}`
+].filter(Boolean).join(' · ');
+
+// Small monospace chip marking a listed exhibitor, e.g. HK.1211, with the day change when prices are loaded.
+// Dashed when the ticker is the parent group's.
+const TickerChip: React.FC<TickerChipProps> = ({ stockCode, listing, className = '' }) => {
+  const ticker = listing?.ticker || stockCode;
+  if (!ticker) return null;
+  const quote = listing?.quote;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 font-mono text-[10px] font-bold px-1.5 py-0.5 rounded bg-sky-950/60 text-sky-300 border border-sky-800 whitespace-nowrap ${
+        listing?.viaGroup ? 'border-dashed' : ''
+      } ${className}`}
+      title={listing ? describe(listing) : '上市公司股票代码'}
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 18 9 11.25l4.306 4.306a11.95 11.95 0 0 1 5.814-5.518l2.74-1.22m0 0-5.94-2.281m5.94 2.28-2.28 5.941" />
+      </svg>
+      {ticker}
+      {quote && <span className={changeClass(quote.changePercent)}>{formatChange(quote.changePercent)}</span>}
+    </span>
+  );
+};
+
+export default TickerChip;
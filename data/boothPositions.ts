@@ -0,0 +1,105 @@
+import { BoothPositionTable } from '../types';
+
+// Booth positions on the floor plans in /public/hall-maps/{code}.png,
+// as percentages of the image width (x) and height (y), keyed by hall code then booth.
+// BoothX/BoothY columns in brands.csv override these per booth.
+
+export const boothPositions: BoothPositionTable = {
+  // --- AREA D ---
+  '17.2': {
+    '17-201': { x: 24.6, y: 30.8 },
+    '17-202': { x: 53.2, y: 30.8 },
+    '17-203': { x: 78.9, y: 30.8 },
+    '17-204': { x: 74.9, y: 73.8 },
+    '17-205': { x: 47.1, y: 73.8 },
+    '17-206': { x: 23.1, y: 73.8 }
+  },
+  '18.2': {
+    '18-201': { x: 43.0, y: 31.3 },
+    '18-202': { x: 85.2, y: 31.3 },
+    '18-204': { x: 73.1, y: 73.5 },
+    '18-205': { x: 35.9, y: 73.5 }
+  },
+  '19.2': {
+    '19-201': { x: 20.8, y: 31.2 },
+    '19-202': { x: 45.8, y: 31.2 },
+    '19-203': { x: 75.6, y: 31.2 },
+    '19-204': { x: 80.4, y: 73.3 },
+    '19-205': { x: 54.2, y: 73.3 },
+    '19-206': { x: 24.1, y: 73.3 }
+  },
+  '20.2': {
+    '20-201': { x: 16.1, y: 32.1 },
+    '20-202': { x: 39.2, y: 32.1 },
+    '20-203': { x: 74.0, y: 32.1 },
+    '20-204': { x: 73.6, y: 74.0 },
+    '20-205': { x: 36.9, y: 74.0 }
+  },
+
+  // --- AREA A (1st Floor) ---
+  '1.1': {
+    'A-101': { x: 15.6, y: 29.7 },
+    'A-102': { x: 56.7, y: 29.7 },
+    'A-104': { x: 61.9, y: 71.9 },
+    'A-105': { x: 20.8, y: 71.9 }
+  },
+  '2.1': {
+    'B-102': { x: 18.5, y: 31.5 },
+    'B-103': { x: 44.7, y: 31.5 },
+    'B-104': { x: 74.8, y: 31.5 },
+    'B-106': { x: 49.1, y: 74.6 }
+  },
+  '3.1': {
+    'C-101': { x: 40.1, y: 30.4 },
+    'C-102': { x: 82.5, y: 30.4 },
+    'C-103': { x: 71.8, y: 72.7 },
+    'C-104': { x: 45.6, y: 72.7 },
+    'C-106': { x: 28.4, y: 72.7 }
+  },
+  '4.1': {
+    'D-101': { x: 48.9, y: 31.8 },
+    'D-103': { x: 31.6, y: 73.1 },
+    'D-104': { x: 68.7, y: 73.1 }
+  },
+  '5.1': {
+    'E-101': { x: 36.3, y: 31.6 },
+    'E-102': { x: 78.2, y: 31.6 },
+    'E-103': { x: 66.6, y: 72.7 },
+    'E-104': { x: 36.3, y: 72.7 },
+    'E-105': { x: 23.8, y: 72.7 },
+    'E-106': { x: 12.1, y: 72.7 }
+  },
+
+  // --- AREA A (2nd Floor) ---
+  '2.2': {
+    'B-202': { x: 71.6, y: 32.2 },
+    'B-203': { x: 28.7, y: 74.2 },
+    'B-204': { x: 58.1, y: 74.2 },
+    'B-205': { x: 80.6, y: 74.2 }
+  },
+  '3.2': {
+    'C-202': { x: 31.7, y: 30.8 },
+    'C-203': { x: 60.8, y: 30.8 },
+    'C-204': { x: 84.8, y: 30.8 },
+    'C-205': { x: 81.2, y: 72.6 },
+    'C-206': { x: 55.3, y: 72.6 },
+    'C-207': { x: 25.4, y: 72.6 }
+  },
+  '4.2': {
+    'D-202': { x: 52.2, y: 32.2 },
+    'D-203': { x: 78.2, y: 32.2 },
+    'D-204': { x: 16.5, y: 74.4 },
+    'D-205': { x: 85.2, y: 74.4 },
+    'D-206': { x: 29.2, y: 74.4 },
+    'D-207': { x: 42.3, y: 74.4 },
+    'D-208': { x: 64.1, y: 74.4 }
+  },
+  '5.2': {
+    'E-201': { x: 28.9, y: 31.9 },
+    'E-202': { x: 65.6, y: 31.9 },
+    'E-203': { x: 86.9, y: 31.9 },
+    'E-204': { x: 78.4, y: 73.8 },
+    'E-205': { x: 54.5, y: 73.8 },
+    'E-206': { x: 31.3, y: 73.8 }
+  }
+};
@@ -0,0 +1,98 @@
+import { BrandGroup } from '../types';
+
+// Brand identity data layered over the booth rows in /public/brands.csv.
+// The CSV names a brand per booth; this file says which booths are the same brand
+// and which parent group (一汽/上汽/广汽/...) each brand belongs to.
+
+export const brandGroups: BrandGroup[] = [
+  { id: 'faw', name: '一汽集团' },
+  { id: 'saic', name: '上汽集团' },
+  { id: 'gac', name: '广汽集团' },
+  { id: 'dongfeng', name: '东风集团' },
+  { id: 'changan', name: '长安集团' },
+  { id: 'baic', name: '北汽集团' },
+  { id: 'byd', name: '比亚迪' },
+  { id: 'geely', name: '吉利控股' },
+  { id: 'chery', name: '奇瑞控股' },
+  { id: 'hima', name: '鸿蒙智行' },
+  { id: 'nio', name: '蔚来' }
+];
+
+export interface BrandCatalogEntry {
+  id: string; // Canonical brand id
+  name: string; // Display name
+  groupId?: string;
+  aliases: string[]; // Names used for this brand in the CSV
+}
+
+export const brandCatalog: BrandCatalogEntry[] = [
+  // --- 一汽 ---
+  { id: 'hongqi', name: '红旗', groupId: 'faw', aliases: ['红旗'] },
+  { id: 'faw-toyota', name: '一汽丰田', groupId: 'faw', aliases: ['一汽丰田'] },
+  { id: 'faw-audi', name: '一汽奥迪', groupId: 'faw', aliases: ['一汽奥迪'] },
+
+  // --- 上汽 ---
+  { id: 'saic', name: '上汽集团', groupId: 'saic', aliases: ['上汽集团 SAIC', '上汽集团'] },
+  { id: 'maxus', name: '上汽大通', groupId: 'saic', aliases: ['上汽大通'] },
+  { id: 'saic-audi', name: '上汽奥迪', groupId: 'saic', aliases: ['上汽奥迪'] },
+  { id: 'mg', name: '名爵 MG', groupId: 'saic', aliases: ['名爵 MG', '名爵', 'MG'] },
+  { id: 'roewe', name: '荣威 ROEWE', groupId: 'saic', aliases: ['荣威 ROEWE', '荣威'] },
+  { id: 'im', name: '智己汽车', groupId: 'saic', aliases: ['智己汽车', '智己'] },
+  { id: 'buick', name: '别克', groupId: 'saic', aliases: ['别克'] },
+  { id: 'cadillac', name: '凯迪拉克', groupId: 'saic', aliases: ['凯迪拉克'] },
+
+  // --- 广汽 ---
+  { id: 'trumpchi', name: '广汽传祺', groupId: 'gac', aliases: ['广汽传祺', '传祺'] },
+  { id: 'aion', name: '广汽埃安', groupId: 'gac', aliases: ['广汽埃安', '埃安'] },
+  { id: 'hyptec', name: '广汽昊铂', groupId: 'gac', aliases: ['广汽昊铂', '昊铂'] },
+  { id: 'gac-honda', name: '广汽本田', groupId: 'gac', aliases: ['广汽本田'] },
+  { id: 'gac-toyota', name: '广汽丰田', groupId: 'gac', aliases: ['广汽丰田'] },
+  // Powertrain supplier with its own booth, not a car brand
+  { id: 'gac-toyota-engine', name: '广汽丰田发动机', groupId: 'gac', aliases: ['广汽丰田发动机'] },
+  { id: 'gac-linkcomm', name: '广汽领程', groupId: 'gac', aliases: ['广汽领程'] },
+
+  // --- 东风 ---
+  { id: 'dongfeng', name: '东风', groupId: 'dongfeng', aliases: ['东风'] },
+  { id: 'dongfeng-nissan', name: '东风日产', groupId: 'dongfeng', aliases: ['东风日产'] },
+  { id: 'dongfeng-honda', name: '东风本田', groupId: 'dongfeng', aliases: ['东风本田'] },
+  { id: 'voyah', name: '岚图汽车', groupId: 'dongfeng', aliases: ['岚图汽车', '岚图'] },
+  { id: 'mengshi', name: '猛士', groupId: 'dongfeng', aliases: ['猛士'] },
+
+  // --- 长安 ---
+  { id: 'changan', name: '长安汽车', groupId: 'changan', aliases: ['长安汽车', '长安'] },
+  { id: 'deepal', name: '深蓝汽车', groupId: 'changan', aliases: ['深蓝汽车', '深蓝'] },
+  { id: 'avatr', name: '阿维塔', groupId: 'changan', aliases: ['阿维塔'] },
+  { id: 'changan-mazda', name: '长安马自达', groupId: 'changan', aliases: ['长安马自达'] },
+
+  // --- 北汽 ---
+  { id: 'baic', name: '北汽集团', groupId: 'baic', aliases: ['北汽集团', '北汽'] },
+  { id: 'beijing-212', name: '212越野车', groupId: 'baic', aliases: ['212越野车'] },
+
+  // --- 比亚迪 ---
+  { id: 'byd', name: '比亚迪', groupId: 'byd', aliases: ['比亚迪', 'BYD'] },
+  { id: 'yangwang', name: '仰望', groupId: 'byd', aliases: ['仰望'] },
+  { id: 'fangchengbao', name: '方程豹', groupId: 'byd', aliases: ['方程豹'] },
+  { id: 'denza', name: '腾势', groupId: 'byd', aliases: ['腾势'] },
+
+  // --- 吉利 ---
+  { id: 'geely', name: '吉利', groupId: 'geely', aliases: ['吉利'] },
+  { id: 'zeekr', name: '极氪', groupId: 'geely', aliases: ['极氪'] },
+  { id: 'lynkco', name: '领克', groupId: 'geely', aliases: ['领克'] },
+  { id: 'volvo', name: '沃尔沃', groupId: 'geely', aliases: ['沃尔沃'] },
+
+  // --- 奇瑞 ---
+  { id: 'chery', name: '奇瑞', groupId: 'chery', aliases: ['奇瑞'] },
+  { id: 'jetour', name: '捷途', groupId: 'chery', aliases: ['捷途'] },
+  { id: 'exeed', name: '星途', groupId: 'chery', aliases: ['星途'] },
+  { id: 'icar', name: 'iCAR', groupId: 'chery', aliases: ['iCAR'] },
+
+  // --- 鸿蒙智行 (HIMA) ---
+  { id: 'hima', name: '鸿蒙智行', groupId: 'hima', aliases: ['鸿蒙智行'] },
+  { id: 'aito', name: '问界', groupId: 'hima', aliases: ['问界'] },
+  { id: 'luxeed', name: '智界', groupId: 'hima', aliases: ['智界'] },
+  { id: 'maextro', name: '尊界', groupId: 'hima', aliases: ['尊界'] },
+
+  // --- 蔚来 ---
+  { id: 'nio', name: '蔚来', groupId: 'nio', aliases: ['蔚来'] },
+  { id: 'onvo', name: '乐道', groupId: 'nio', aliases: ['乐道'] }
+];
@@ -0,0 +1,37 @@
+import { ShowEvent } from '../types';
+import { exhibitionHalls } from './exhibitionData';
+import { venueLayout } from './venueLayout';
+import { venueGraph } from './venueGraph';
+import { boothPositions } from './boothPositions';
+
+// Show editions the app can switch between, newest first. Each edition points at its own
+// exhibitor CSV in /public; editions of the same show share a `series` so they can be diffed.
+// To add one, drop its CSV into public/events/ and register it here (reusing the hall skeleton,
+// layout and walking graph when the venue is unchanged; without a graph there is no route planner).
+
+export const showEvents: ShowEvent[] = [
+  {
+    id: 'guangzhou-2025',
+    series: 'guangzhou',
+    name: '广州车展',
+    year: 2025,
+    startDate: '2025-11-21',
+    endDate: '2025-11-30',
+    venue: '中国进出口商品交易会展馆',
+    dataUrl: '/brands.csv',
+    halls: exhibitionHalls,
+    layout: venueLayout,
+    graph: venueGraph,
+    boothPositions
+  }
+];
+
+export const defaultEvent = showEvents[0];
+
+export const getEvent = (id?: string): ShowEvent => showEvents.find(e => e.id === id) || defaultEvent;
+
+// The most recent earlier edition of the same show, if one is registered
+export const getPreviousEdition = (event: ShowEvent): ShowEvent | undefined =>
+  showEvents
+    .filter(e => e.series === event.series && e.year < event.year)
+    .sort((a, b) => b.year - a.year)[0];
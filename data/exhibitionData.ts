@@ -3,6 +3,7 @@ import { Hall, ZoneType } from '../types';
 
 // This file now only defines the PHYSICAL LAYOUT (The Skeleton).
 // The actual Brand and Car data is loaded from /public/brands.csv
+// Where each hall is drawn on the overview map is defined in ./venueLayout.ts
 
 export const exhibitionHalls: Hall[] = [
   // --- AREA D (2nd Floor) ---
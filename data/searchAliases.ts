@@ -0,0 +1,69 @@
+// English / romanised names visitors type for brands whose CSV name is Chinese.
+// Keyed by canonical brand id (see utils/brandIndex.ts); brands outside the catalog
+// use their normalised CSV name as id. Pinyin is matched automatically, so only
+// list spellings that differ from it (e.g. "Li Auto" for 理想, not "lixiang").
+
+export const englishAliases: Record<string, string[]> = {
+  // Catalog brands
+  'hongqi': ['Red Flag'],
+  'faw-toyota': ['FAW Toyota'],
+  'faw-audi': ['FAW Audi', 'Audi'],
+  'saic': ['SAIC'],
+  'maxus': ['Maxus', 'SAIC Maxus'],
+  'saic-audi': ['SAIC Audi', 'Audi'],
+  'mg': ['Morris Garages'],
+  'roewe': ['Roewe'],
+  'im': ['IM Motors', 'Zhiji'],
+  'buick': ['Buick'],
+  'cadillac': ['Cadillac'],
+  'trumpchi': ['Trumpchi', 'GAC Motor'],
+  'aion': ['Aion', 'GAC Aion'],
+  'hyptec': ['Hyptec', 'Hyper'],
+  'gac-honda': ['GAC Honda', 'Honda'],
+  'gac-toyota': ['GAC Toyota', 'Toyota'],
+  'gac-linkcomm': ['Linkcomm'],
+  'dongfeng': ['DFM'],
+  'dongfeng-nissan': ['Dongfeng Nissan', 'Nissan'],
+  'dongfeng-honda': ['Dongfeng Honda', 'Honda'],
+  'voyah': ['Voyah'],
+  'mengshi': ['M-Hero'],
+  'deepal': ['Deepal'],
+  'avatr': ['Avatr'],
+  'changan-mazda': ['Changan Mazda', 'Mazda'],
+  'baic': ['BAIC', 'Beijing'],
+  'beijing-212': ['BJ212', 'Beijing 212'],
+  'byd': ['Build Your Dreams'],
+  'fangchengbao': ['Formula Leopard'],
+  'denza': ['Denza'],
+  'geely': ['Geely'],
+  'zeekr': ['Zeekr'],
+  'lynkco': ['Lynk & Co', 'Lynk'],
+  'volvo': ['Volvo'],
+  'chery': ['Chery'],
+  'jetour': ['Jetour'],
+  'exeed': ['Exeed'],
+  'hima': ['HIMA', 'Harmony Intelligent Mobility', 'Huawei'],
+  'aito': ['AITO', 'Seres'],
+  'luxeed': ['Luxeed'],
+  'maextro': ['Maextro'],
+  'nio': ['NIO'],
+  'onvo': ['Onvo'],
+
+  // Brands without a catalog entry (id = normalised CSV name)
+  '小鹏': ['XPeng', 'XPEV'],
+  '理想': ['Li Auto'],
+  '小米': ['Xiaomi'],
+  '零跑汽车': ['Leapmotor', 'Leap'],
+  '宝马 / mini': ['BMW', 'MINI'],
+  '奔驰': ['Mercedes-Benz', 'Mercedes', 'Benz'],
+  '大众': ['Volkswagen', 'VW'],
+  '起亚': ['Kia'],
+  '福特': ['Ford'],
+  '雷克萨斯': ['Lexus'],
+  '长城汽车': ['Great Wall', 'GWM', 'Haval', 'Tank'],
+  '宁德时代': ['CATL'],
+  '极石 rox': ['Rox Motor'],
+  '林肯 lincoln': ['Lincoln'],
+  '克穆勒 kmuller': ['Kmuller'],
+  '罗伦士 lorinser': ['Lorinser']
+};
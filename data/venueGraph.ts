@@ -0,0 +1,82 @@
+import { VenueEdge, VenueGraph, VenueNode } from '../types';
+import { venueLayout } from './venueLayout';
+
+// Walkable graph of the Canton Fair Complex for the route planner.
+// Node positions are in the same SVG coordinates MapCanvas draws with; hall nodes are
+// placed at the centre of their block in venueLayout, so the route lines up with the map.
+
+// Map units to metres, and walking pace inside a crowded show
+export const METRES_PER_UNIT = 1.2;
+export const WALKING_METRES_PER_MINUTE = 60;
+export const FLOOR_CHANGE_MINUTES = 1.5;
+
+const hallNodes: VenueNode[] = venueLayout.areas.flatMap(area => area.halls.map(hall => ({
+  id: `h${hall.code}`,
+  label: `${hall.code}馆`,
+  kind: 'hall' as const,
+  x: area.x + hall.x + venueLayout.hallSize.width / 2,
+  y: area.y + hall.y + venueLayout.hallSize.height / 2,
+  hallId: `h${hall.code}`
+})));
+
+export const venueNodes: VenueNode[] = [
+  // --- ENTRANCES ---
+  { id: 'metro-a', label: '地铁新港东站 A出口', kind: 'entrance', x: 710, y: 800 },
+  { id: 'gate-a-south', label: 'A区南门 (新港东路)', kind: 'entrance', x: 1035, y: 820 },
+  { id: 'gate-d-south', label: 'D区南门 (新港东路)', kind: 'entrance', x: 380, y: 820 },
+  { id: 'gate-d-north', label: 'D区北门 (阅江中路)', kind: 'entrance', x: 380, y: 200 },
+
+  // --- CONNECTORS ---
+  { id: 'bridge', label: '人行天桥', kind: 'connector', x: 710, y: 390 },
+  { id: 'zhanchang-west', label: '展场西路', kind: 'connector', x: 710, y: 620 },
+
+  // --- HALLS ---
+  ...hallNodes
+];
+
+// Escalators between x.1 and x.2 of the same hall: stacked floors, so only a short walk
+const ESCALATOR_METRES = 30;
+
+export const venueEdges: VenueEdge[] = [
+  // Area D 2F halls are linked end to end
+  { from: 'h17.2', to: 'h18.2' },
+  { from: 'h18.2', to: 'h19.2' },
+  { from: 'h19.2', to: 'h20.2' },
+  { from: 'h20.1', to: 'h20.2', floorChange: true, metres: ESCALATOR_METRES },
+
+  // Area D entrances are at street level, the exhibition halls upstairs
+  { from: 'gate-d-north', to: 'h18.2', floorChange: true },
+  { from: 'gate-d-south', to: 'h19.2', floorChange: true },
+  { from: 'gate-d-south', to: 'h20.1' },
+
+  // Pedestrian bridge between the 2F concourses of Area D and Area A
+  { from: 'h20.2', to: 'bridge' },
+  { from: 'bridge', to: 'h1.2' },
+
+  // Street level along 展场西路 and past the metro exit
+  { from: 'h20.1', to: 'zhanchang-west' },
+  { from: 'zhanchang-west', to: 'h1.1' },
+  { from: 'zhanchang-west', to: 'metro-a' },
+  { from: 'metro-a', to: 'gate-d-south' },
+  { from: 'metro-a', to: 'gate-a-south' },
+
+  // Area A, 2nd floor row
+  { from: 'h1.2', to: 'h2.2' },
+  { from: 'h2.2', to: 'h3.2' },
+  { from: 'h3.2', to: 'h4.2' },
+  { from: 'h4.2', to: 'h5.2' },
+
+  // Area A, 1st floor row
+  { from: 'h1.1', to: 'h2.1' },
+  { from: 'h2.1', to: 'h3.1' },
+  { from: 'h3.1', to: 'h4.1' },
+  { from: 'h4.1', to: 'h5.1' },
+
+  // Area A escalators
+  ...['1', '2', '3', '4', '5'].map(n => ({ from: `h${n}.1`, to: `h${n}.2`, floorChange: true, metres: ESCALATOR_METRES })),
+
+  // A区南门 opens onto the middle of the 1F row
+  { from: 'gate-a-south', to: 'h3.1' }
+];
+
+export const venueGraph: VenueGraph = { nodes: venueNodes, edges: venueEdges };
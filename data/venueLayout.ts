@@ -0,0 +1,86 @@
+import { VenueLayout } from '../types';
+
+// Drawing of the Canton Fair Complex for MapCanvas: scenery, landmarks and where each hall
+// block sits. Halls are matched to exhibitionData.ts by code; a hall listed here but absent
+// from the data (or vice versa) is simply not drawn. Coordinates are SVG map units.
+
+const ROAD = '#334155';
+const ROAD_LABEL = '#94a3b8';
+
+export const venueLayout: VenueLayout = {
+  width: 1800,
+  height: 1200,
+  // 手机端强制参数: this scale keeps the 1800px-wide map readable on a phone,
+  // and the offset pushes Area D / Area A into the middle of the screen
+  initialView: { scale: 0.6, x: -600, y: 100 },
+  hallSize: { width: 110, height: 140 },
+
+  shapes: [
+    // Pearl River
+    { path: 'M -500 -200 C 200 -50, 1000 -150, 2500 -200 L 2500 -600 L -500 -600 Z', fill: '#1e293b', opacity: 0.5 },
+    // Yuejiang Middle Road
+    { path: 'M -200 50 L 2000 50 L 2000 180 L -200 180 Z', fill: ROAD },
+    { path: 'M -200 115 L 2000 115', stroke: '#475569', strokeWidth: 2, strokeDasharray: '30 30' },
+    // Xingang East Road
+    { path: 'M -200 850 L 1300 850 L 1400 1000 L -100 1000 Z', fill: ROAD },
+    // Fengpu Road
+    { path: 'M 1300 850 L 2200 850 L 2200 1000 L 1400 1000 Z', fill: ROAD },
+    // Zhanchang West Rd
+    { path: 'M 680 180 L 740 180 L 740 850 L 680 850 Z', fill: ROAD }
+  ],
+
+  labels: [
+    { text: '珠江 PEARL RIVER', x: 900, y: -200, fontSize: 50, color: '#3b82f6', opacity: 0.4, letterSpacing: 10 },
+    { text: '阅江中路 Yuejiang Middle Rd', x: 900, y: 130, fontSize: 28, color: ROAD_LABEL, letterSpacing: 2 },
+    { text: '新港东路 Xingang East Rd', x: 700, y: 940, fontSize: 28, color: ROAD_LABEL, letterSpacing: 2 },
+    { text: '凤浦中路 Fengpu Rd', x: 1800, y: 940, fontSize: 28, color: ROAD_LABEL, letterSpacing: 2 },
+    { text: '展场西路', x: 710, y: 500, fontSize: 20, color: ROAD_LABEL, vertical: true }
+  ],
+
+  landmarks: [
+    { id: 'metro-xingang-east', kind: 'metro', label: '地铁新港东站 A出口', x: 700, y: 800 },
+    { id: 'bridge-d-a', kind: 'bridge', x: 680, y: 370, width: 60, height: 40 }
+  ],
+
+  areas: [
+    {
+      id: 'D',
+      x: 200,
+      y: 300,
+      color: '#4338ca',
+      badge: { x: -60, y: 150 },
+      border: { x: -20, y: -20, width: 500, height: 460 },
+      halls: [
+        // 2nd floor row
+        { code: '17.2', x: 0, y: 0 },
+        { code: '18.2', x: 120, y: 0 },
+        { code: '19.2', x: 240, y: 0 },
+        { code: '20.2', x: 360, y: 0 },
+        // 1st floor
+        { code: '20.1', x: 360, y: 160 }
+      ]
+    },
+    {
+      id: 'A',
+      x: 740,
+      y: 300,
+      color: '#7c3aed',
+      badge: { x: 620, y: 150 },
+      border: { x: -20, y: -20, width: 620, height: 460 },
+      halls: [
+        // 2nd floor row
+        { code: '1.2', x: 0, y: 0 },
+        { code: '2.2', x: 120, y: 0 },
+        { code: '3.2', x: 240, y: 0 },
+        { code: '4.2', x: 360, y: 0 },
+        { code: '5.2', x: 480, y: 0 },
+        // 1st floor row
+        { code: '1.1', x: 0, y: 160 },
+        { code: '2.1', x: 120, y: 160 },
+        { code: '3.1', x: 240, y: 160 },
+        { code: '4.1', x: 360, y: 160 },
+        { code: '5.1', x: 480, y: 160 }
+      ]
+    }
+  ]
+};
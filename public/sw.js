@@ -0,0 +1,150 @@
+// Offline-first service worker for use inside the exhibition halls.
+//
+// - On install, precaches every file listed in /precache-manifest.json (the built app
+//   shell, brands.csv and all hall-map images; generated by the build in vite.config.ts).
+//   The build also stamps its content hash into PRECACHE_VERSION below, so every deploy ships a
+//   changed worker: the browser installs it, and activate drops the previous build's precache.
+// - Serves same-origin files cache-first, page navigations network-first (keeping the latest
+//   shell for offline use) with the cached index.html as fallback, and CDN assets (Tailwind,
+//   fonts) stale-while-revalidate.
+// - Exhibitor CSVs (brands.csv and one per show edition) are served from cache and revalidated
+//   in the background; when the published file differs, the cache is updated and open pages
+//   get a CSV_UPDATED message with the file's path. The market-data snapshot is handled the same
+//   way (MARKET_DATA_UPDATED), so a copy refreshed on the server reaches clients without a new build.
+
+// Replaced with the build's content hash by the precache-manifest plugin in vite.config.ts
+const PRECACHE_VERSION = 'dev';
+
+const CACHE_PREFIX = 'gz-carshow-';
+const PRECACHE = `${CACHE_PREFIX}${PRECACHE_VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+
+// Cross-origin hosts the page needs to render; everything else (e.g. the Gemini API) passes through
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const EXTERNAL_ASSETS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap'
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    const manifest = await response.json();
+    const cache = await caches.open(PRECACHE);
+    await cache.addAll(manifest.files.map(file => new Request(file, { cache: 'reload' })));
+
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(EXTERNAL_ASSETS.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch {
+        // Best effort: CDN assets are cached again on first use
+      }
+    }));
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter(k => k.startsWith(CACHE_PREFIX) && k !== PRECACHE && k !== RUNTIME_CACHE)
+      .map(k => caches.delete(k)));
+    await self.clients.claim();
+  })());
+});
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+};
+
+// Serve the cached data file immediately, then check the network for a newer version
+const handleRevalidated = async (request, path, messageType) => {
+  const cache = await caches.open(PRECACHE);
+  const cached = await cache.match(path);
+
+  const revalidate = (async () => {
+    try {
+      const fresh = await fetch(request, { cache: 'no-store' });
+      if (!fresh.ok) return null;
+      const freshText = await fresh.clone().text();
+      const cachedText = cached ? await cached.clone().text() : null;
+      if (freshText !== cachedText) {
+        await cache.put(path, fresh.clone());
+        if (cached) notifyClients({ type: messageType, path });
+      }
+      return fresh;
+    } catch {
+      return null;
+    }
+  })();
+
+  if (cached) {
+    revalidate.catch(() => {});
+    return cached;
+  }
+  return (await revalidate) || new Response('', { status: 503, statusText: 'Offline' });
+};
+
+// Every page is the same single-page shell (routes live in the hash), kept under '/'
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(PRECACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match('/') || await caches.match('/index.html');
+    return cached || new Response('Offline', { status: 503 });
+  }
+};
+
+const handleStatic = async (request) => {
+  const cached = await caches.match(request, { ignoreSearch: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const runtime = await caches.open(RUNTIME_CACHE);
+    runtime.put(request, response.clone());
+  }
+  return response;
+};
+
+const handleExternal = async (request) => {
+  const runtime = await caches.open(RUNTIME_CACHE);
+  const cached = await runtime.match(request);
+  const network = fetch(request)
+    .then(response => {
+      runtime.put(request, response.clone());
+      return response;
+    })
+    .catch(() => null);
+  return cached || (await network) || new Response('', { status: 503 });
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    if (CDN_HOSTS.includes(url.hostname)) event.respondWith(handleExternal(request));
+    return;
+  }
+
+  if (url.pathname.endsWith('.csv')) {
+    event.respondWith(handleRevalidated(request, url.pathname, 'CSV_UPDATED'));
+  } else if (url.pathname.endsWith('/market-data.json')) {
+    event.respondWith(handleRevalidated(request, url.pathname, 'MARKET_DATA_UPDATED'));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else {
+    event.respondWith(handleStatic(request));
+  }
+});
@@ -1,18 +1,79 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { InvestmentInsight, Brand } from '../types';
+import {
+  InvestmentInsight, Brand, CarModel, InsightContext, InsightProvider, ComparisonInsight, ComparisonSubject, BriefingScope,
+  SectorBriefing, ChatMessage, QAPassage, ShowAnswer, BrandListing
+} from '../types';
+import { formatChange } from './marketData';
+import { parseComparisonInsight, parseInvestmentInsight, parseSectorBriefing, parseShowAnswer } from './insightSchema';
+import { findCitations } from '../utils/showQA';
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const DEFAULT_MODEL_ID = "gemini-2.5-flash";
 
-export const fetchBrandInsight = async (brand: Brand): Promise<InvestmentInsight> => {
-  const modelId = "gemini-2.5-flash";
+// The client is created on first use so the app can load without an API key
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const getModelId = () => process.env.GEMINI_MODEL || DEFAULT_MODEL_ID;
+
+// CSV notes can run to a paragraph; a sentence is enough context for the model
+const MAX_NOTE_LENGTH = 80;
+
+const describeModel = (model: CarModel) => [
+  model.name,
+  model.highlight && `[${model.highlight}]`,
+  model.specs?.powertrainType || model.powertrain,
+  model.specs?.priceBand || model.price,
+  model.specs?.powerKW && `${model.specs.powerKW}kW`,
+  model.specs?.rangeKm && `纯电${model.specs.rangeKm}km`,
+  model.note && `(${model.note.length > MAX_NOTE_LENGTH ? `${model.note.slice(0, MAX_NOTE_LENGTH)}…` : model.note})`
+].filter(Boolean).join(' ');
+
+// Key models first, then the rest of the line-up
+const describeLineup = (brand: Brand) => {
+  const key = brand.models.map(describeModel);
+  const rest = (brand.fullModelList || []).map(describeModel);
+  if (key.length === 0 && rest.length === 0) return 'no models listed';
+  return [key.length > 0 && `key: ${key.join('; ')}`, rest.length > 0 && `also shown: ${rest.join('; ')}`].filter(Boolean).join(' | ');
+};
+
+const unavailableInsight = (brand: Brand): InvestmentInsight => ({
+  brandName: brand.name,
+  analysis: "AI Analysis currently unavailable. Check network connection or API key.",
+  sentiment: 'Neutral',
+  isFallback: true
+});
+
+// Ticker plus the snapshot numbers, so the model reasons from the same figures the app shows
+const describeListing = (brand: Brand, listing?: BrandListing) => {
+  const ticker = listing?.ticker || brand.stockCode;
+  if (!ticker) return 'Stock Code: N/A';
+  const quote = listing?.quote;
+  const owner = listing?.viaGroup ? ` (parent group ${listing.viaGroup})` : '';
+  if (!quote) return `Stock Code: ${ticker}${owner}`;
+  return `Stock Code: ${ticker}${owner}; ${quote.price} ${quote.currency}, ${formatChange(quote.changePercent)} on the day, ` +
+    `market cap ${quote.marketCap} hundred million CNY, P/E ${quote.pe ?? 'n/a (loss-making)'}` +
+    `${listing?.asOf ? `, as of ${listing.asOf}` : ''}`;
+};
+
+// Resolves to a fallback insight when no API key is configured.
+// Rejects when the request fails or the response is malformed, so callers can offer a retry.
+const fetchBrandInsight = async (brand: Brand, context: InsightContext): Promise<InvestmentInsight> => {
+  if (!process.env.API_KEY) {
+    return unavailableInsight(brand);
+  }
 
   const prompt = `
-    Act as a senior automotive investment analyst attending the Guangzhou Auto Show.
-    Analyze the brand "${brand.name}" (Stock Code: ${brand.stockCode || 'N/A'}).
-    
+    Act as a senior automotive investment analyst attending the ${context.eventName || 'Guangzhou Auto Show'}.
+    Analyze the brand "${brand.name}" (${describeListing(brand, context.listing)}).
+    ${context.hallCode ? `They exhibit in hall ${context.hallCode}${context.zone ? ` (${context.zone} zone)` : ''}.` : ''}
+
+    Their line-up at the show: ${describeLineup(brand)}.
+
     Focus on:
-    1. Their latest key model displayed (${brand.models.length > 0 ? brand.models[0].name : 'Generic'}).
+    1. Their key launches and how the wider line-up supports them.
     2. Market sentiment regarding their NEV transition or luxury positioning.
     3. A short, punchy verdict for an investor.
 
@@ -20,8 +81,8 @@ export const fetchBrandInsight = async (brand: Brand): Promise<InvestmentInsight
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
+    const response = await getClient().models.generateContent({
+      model: getModelId(),
       contents: prompt,
       config: {
         responseMimeType: "application/json",
@@ -40,14 +101,219 @@ export const fetchBrandInsight = async (brand: Brand): Promise<InvestmentInsight
     const text = response.text;
     if (!text) throw new Error("No response from AI");
 
-    return JSON.parse(text) as InvestmentInsight;
+    return parseInvestmentInsight(text);
+
+  } catch (error) {
+    console.error("Gemini API Error:", error);
+    throw error;
+  }
+};
+
+// One line per column: what is being compared, where it is and what it brings
+const describeSubject = ({ brand, model, context }: ComparisonSubject, index: number) => {
+  const where = context.hallCode ? `hall ${context.hallCode}${context.zone ? `, ${context.zone} zone` : ''}` : 'hall unknown';
+  const models = model ? [model] : brand.models;
+  const launches = models.map(describeModel).join('; ');
+  const subject = model ? `the model "${model.name}" from ${brand.name}` : `the brand "${brand.name}"`;
+  return `${index + 1}. ${subject} (${describeListing(brand, context.listing)}; ${where}). Key launches: ${launches || 'none listed'}.`;
+};
+
+const fetchComparison = async (subjects: ComparisonSubject[]): Promise<ComparisonInsight> => {
+  if (!process.env.API_KEY) {
+    return { analysis: "AI comparison currently unavailable. Check network connection or API key.", isFallback: true };
+  }
+
+  const eventName = subjects.find(s => s.context.eventName)?.context.eventName;
+  const prompt = `
+    Act as a senior automotive investment analyst attending the ${eventName || 'Guangzhou Auto Show'}.
+    Compare these exhibitors side by side for a portfolio manager:
+    ${subjects.map(describeSubject).join('\n    ')}
+
+    Focus on:
+    1. How their launches at this show differ in novelty, powertrain and positioning.
+    2. Which one shows the strongest product momentum, and why.
+    3. One short takeaway for an investor.
+
+    Provide the response in JSON format; "leader" is the name of the strongest one exactly as given above.
+  `;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: getModelId(),
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            analysis: { type: Type.STRING },
+            leader: { type: Type.STRING }
+          },
+          required: ['analysis']
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    return parseComparisonInsight(text);
 
   } catch (error) {
     console.error("Gemini API Error:", error);
+    throw error;
+  }
+};
+
+const fetchSectorBriefing = async (scope: BriefingScope, context: InsightContext): Promise<SectorBriefing> => {
+  if (!process.env.API_KEY) {
+    return { themes: ["AI briefing currently unavailable. Check network connection or API key."], standoutLaunches: [], verdicts: [], isFallback: true };
+  }
+
+  const exhibitors = scope.halls.flatMap(hall => hall.brands.map(brand =>
+    `- ${brand.name} (hall ${hall.code}, booth ${brand.booth}, Stock Code: ${brand.stockCode || 'N/A'})` +
+    `${brand.description ? ` — ${brand.description}` : ''}: ${describeLineup(brand)}`
+  ));
+
+  const prompt = `
+    Act as a senior automotive investment analyst attending the ${context.eventName || 'Guangzhou Auto Show'}.
+    Write a briefing on ${scope.kind === 'hall' ? `hall ${scope.label}` : `the ${scope.label} zone`} for a portfolio manager.
+    Every exhibitor, with launch tags in [brackets] (首发 = world premiere, 新车 = new model, 换代 = new generation):
+    ${exhibitors.join('\n    ')}
+
+    Provide:
+    1. "themes": 2-4 short sector themes visible across these booths (powertrain mix, pricing, smart driving, ...).
+    2. "standoutLaunches": up to 5 launches that matter most, with brand, model and why.
+    3. "verdicts": the clear winners and losers, each with a sentiment and a one-line reason; leave out brands without a clear call.
+
+    Provide the response in JSON format, using brand and model names exactly as given above.
+  `;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: getModelId(),
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            themes: { type: Type.ARRAY, items: { type: Type.STRING } },
+            standoutLaunches: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  brandName: { type: Type.STRING },
+                  modelName: { type: Type.STRING },
+                  reason: { type: Type.STRING }
+                },
+                required: ['brandName', 'modelName', 'reason']
+              }
+            },
+            verdicts: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  brandName: { type: Type.STRING },
+                  sentiment: { type: Type.STRING, enum: ['Bullish', 'Neutral', 'Bearish'] },
+                  reason: { type: Type.STRING }
+                },
+                required: ['brandName', 'sentiment', 'reason']
+              }
+            }
+          },
+          required: ['themes', 'standoutLaunches', 'verdicts']
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    return parseSectorBriefing(text);
+
+  } catch (error) {
+    console.error("Gemini API Error:", error);
+    throw error;
+  }
+};
+
+// Earlier turns sent along so follow-up questions ("which of them is cheapest?") make sense
+const MAX_HISTORY_TURNS = 6;
+
+const describePassage = ({ hall, brand, notes }: QAPassage) =>
+  `[${brand.id}] ${brand.name} — hall ${hall.code} (${hall.type}), booth ${brand.booth}` +
+  `${brand.stockCode ? `, Stock Code: ${brand.stockCode}` : ''}` +
+  `${brand.description ? `. ${brand.description}` : ''}. Line-up: ${describeLineup(brand)}` +
+  `${notes.length > 0 ? `. Analyst notes: ${notes.map(n => n.text).join(' / ')}` : ''}`;
+
+const answerQuestion = async (
+  question: string, passages: QAPassage[], history: ChatMessage[], context: InsightContext
+): Promise<ShowAnswer> => {
+  if (!process.env.API_KEY) {
     return {
-      brandName: brand.name,
-      analysis: "AI Analysis currently unavailable. Check network connection or API key.",
-      sentiment: 'Neutral'
+      text: "AI Q&A currently unavailable. Check network connection or API key.",
+      citedBrandIds: passages.map(p => p.brand.id),
+      isFallback: true
     };
   }
+
+  const conversation = history.slice(-MAX_HISTORY_TURNS)
+    .map(m => `${m.role === 'user' ? 'Analyst' : 'You'}: ${m.text}`)
+    .join('\n    ');
+
+  const prompt = `
+    You answer questions from investment analysts walking the ${context.eventName || 'Guangzhou Auto Show'}.
+    Answer only from the exhibitor data below; if it doesn't contain the answer, say so plainly instead of guessing.
+    Cite every booth you rely on inline by its id in square brackets, e.g. [${passages[0]?.brand.id || '2.1-B-102'}].
+    Answer in the language of the question, in a few sentences or a short list.
+
+    Exhibitor data:
+    ${passages.length > 0 ? passages.map(describePassage).join('\n    ') : '(nothing in the show data matched this question)'}
+    ${conversation ? `\n    Conversation so far:\n    ${conversation}\n` : ''}
+    Question: ${question}
+
+    Provide the response in JSON format; "citedBoothIds" lists the ids cited in the answer.
+  `;
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: getModelId(),
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            answer: { type: Type.STRING },
+            citedBoothIds: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ['answer', 'citedBoothIds']
+        }
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+
+    // Only booths that were actually sent can be cited; anything else would be a made-up id
+    const answer = parseShowAnswer(text);
+    const sent = new Set(passages.map(p => p.brand.id));
+    const cited = new Set([...answer.citedBrandIds.filter(id => sent.has(id)), ...findCitations(answer.text, passages)]);
+    return { text: answer.text, citedBrandIds: [...cited] };
+
+  } catch (error) {
+    console.error("Gemini API Error:", error);
+    throw error;
+  }
+};
+
+export const geminiInsightProvider: InsightProvider = {
+  id: 'gemini',
+  fetchBrandInsight,
+  fetchComparison,
+  fetchSectorBriefing,
+  answerQuestion
 };
@@ -0,0 +1,115 @@
+import {
+  Brand, BriefingScope, ComparisonInsight, ComparisonSubject, InsightContext, InvestmentInsight, SectorBriefing
+} from '../types';
+import { fetchBrandInsight, fetchComparison, fetchSectorBriefing, getInsightProvider } from './insightService';
+
+// Insights are cached per provider, show edition and brand id so re-opening a hall doesn't
+// re-bill the API (booth-based brand ids can be reused by a different exhibitor next year).
+// Listed brands are also keyed by the market snapshot date: their prompt quotes its prices.
+// The in-memory map serves the current session; localStorage survives reloads.
+const createPersistentCache = <T>(storageKey: string, label: string) => {
+  const memory = new Map<string, T>();
+  let hydrated = false;
+
+  const hydrate = () => {
+    if (hydrated) return;
+    hydrated = true;
+    try {
+      const raw = localStorage.getItem(storageKey);
+      if (!raw) return;
+      const stored = JSON.parse(raw) as Record<string, T>;
+      Object.entries(stored).forEach(([key, value]) => memory.set(key, value));
+    } catch (error) {
+      console.warn(`Failed to read ${label} cache:`, error);
+    }
+  };
+
+  const persist = () => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(memory)));
+    } catch (error) {
+      console.warn(`Failed to write ${label} cache:`, error);
+    }
+  };
+
+  return {
+    get: (key: string) => {
+      hydrate();
+      return memory.get(key) || null;
+    },
+    set: (key: string, value: T) => {
+      hydrate();
+      memory.set(key, value);
+      persist();
+    },
+    delete: (key: string) => {
+      hydrate();
+      memory.delete(key);
+      persist();
+    }
+  };
+};
+
+const insightCache = createPersistentCache<InvestmentInsight>('gz-carshow:insights', 'insight');
+
+// Date of the prices the prompt quoted, if any
+const pricedAsOf = (context: InsightContext) => context.listing?.quote && context.listing.asOf;
+
+const cacheKey = (brandId: string, context: InsightContext) =>
+  [getInsightProvider().id, context.eventId, brandId, pricedAsOf(context)].filter(Boolean).join(':');
+
+export const getCachedInsight = (brandId: string, context: InsightContext = {}): InvestmentInsight | null =>
+  insightCache.get(cacheKey(brandId, context));
+
+export const clearCachedInsight = (brandId: string, context: InsightContext = {}) =>
+  insightCache.delete(cacheKey(brandId, context));
+
+// Returns the cached insight when present, otherwise fetches and caches it.
+// Fallback ("unavailable") results are never cached so they can be retried.
+export const getBrandInsight = async (brand: Brand, context: InsightContext = {}): Promise<InvestmentInsight> => {
+  const cached = getCachedInsight(brand.id, context);
+  if (cached) return cached;
+
+  const insight = await fetchBrandInsight(brand, context);
+  if (!insight.isFallback) insightCache.set(cacheKey(brand.id, context), insight);
+  return insight;
+};
+
+// Comparisons depend on the exact set of columns, so they are only kept for the session
+const comparisonCache = new Map<string, ComparisonInsight>();
+
+const comparisonKey = (subjects: ComparisonSubject[]) =>
+  [getInsightProvider().id, subjects[0]?.context.eventId, ...subjects.map(s => `${s.brand.id}::${s.model?.name || ''}::${pricedAsOf(s.context) || ''}`)]
+    .filter(Boolean).join('|');
+
+export const getCachedComparison = (subjects: ComparisonSubject[]): ComparisonInsight | null =>
+  comparisonCache.get(comparisonKey(subjects)) || null;
+
+export const getComparisonInsight = async (subjects: ComparisonSubject[], refresh = false): Promise<ComparisonInsight> => {
+  const key = comparisonKey(subjects);
+  const cached = comparisonCache.get(key);
+  if (cached && !refresh) return cached;
+
+  const insight = await fetchComparison(subjects);
+  if (!insight.isFallback) comparisonCache.set(key, insight);
+  return insight;
+};
+
+// Briefings are stored like brand insights, keyed by scope (a hall code or a zone type) instead of brand
+const briefingCache = createPersistentCache<SectorBriefing>('gz-carshow:briefings', 'briefing');
+
+const briefingKey = (scope: BriefingScope, context: InsightContext) =>
+  [getInsightProvider().id, context.eventId, scope.kind, scope.id].filter(Boolean).join(':');
+
+export const getCachedBriefing = (scope: BriefingScope, context: InsightContext = {}): SectorBriefing | null =>
+  briefingCache.get(briefingKey(scope, context));
+
+export const getSectorBriefing = async (scope: BriefingScope, context: InsightContext = {}, refresh = false): Promise<SectorBriefing> => {
+  const key = briefingKey(scope, context);
+  const cached = briefingCache.get(key);
+  if (cached && !refresh) return cached;
+
+  const briefing = await fetchSectorBriefing(scope, context);
+  if (!briefing.isFallback) briefingCache.set(key, briefing);
+  return briefing;
+};
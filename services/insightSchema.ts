@@ -0,0 +1,134 @@
+import { BrandVerdict, ComparisonInsight, InvestmentInsight, SectorBriefing, ShowAnswer, StandoutLaunch } from '../types';
+
+// Thrown when an AI response doesn't match the shape the UI relies on
+export class InsightValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsightValidationError';
+  }
+}
+
+const SENTIMENTS: InvestmentInsight['sentiment'][] = ['Bullish', 'Neutral', 'Bearish'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+export const parseJSONResponse = (text: string): Record<string, unknown> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new InsightValidationError("Response is not valid JSON");
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new InsightValidationError("Response is not a JSON object");
+  }
+  return data as Record<string, unknown>;
+};
+
+export const parseInvestmentInsight = (text: string): InvestmentInsight => {
+  const data = parseJSONResponse(text);
+
+  if (!isNonEmptyString(data.brandName)) {
+    throw new InsightValidationError("Missing brandName");
+  }
+  if (!isNonEmptyString(data.analysis)) {
+    throw new InsightValidationError("Missing analysis");
+  }
+  if (!SENTIMENTS.includes(data.sentiment as InvestmentInsight['sentiment'])) {
+    throw new InsightValidationError(`Unknown sentiment: ${String(data.sentiment)}`);
+  }
+
+  return {
+    brandName: data.brandName.trim(),
+    analysis: data.analysis.trim(),
+    sentiment: data.sentiment as InvestmentInsight['sentiment']
+  };
+};
+
+export const parseComparisonInsight = (text: string): ComparisonInsight => {
+  const data = parseJSONResponse(text);
+
+  if (!isNonEmptyString(data.analysis)) {
+    throw new InsightValidationError("Missing analysis");
+  }
+  if (data.leader !== undefined && typeof data.leader !== 'string') {
+    throw new InsightValidationError("leader must be a string");
+  }
+
+  return {
+    analysis: data.analysis.trim(),
+    ...(isNonEmptyString(data.leader) && { leader: data.leader.trim() })
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseList = <T>(value: unknown, field: string, parseItem: (item: unknown, index: number) => T): T[] => {
+  if (!Array.isArray(value)) {
+    throw new InsightValidationError(`${field} must be an array`);
+  }
+  return value.map(parseItem);
+};
+
+const parseStandoutLaunch = (item: unknown, index: number): StandoutLaunch => {
+  if (!isObject(item) || !isNonEmptyString(item.brandName) || !isNonEmptyString(item.modelName)) {
+    throw new InsightValidationError(`standoutLaunches[${index}] is missing brandName or modelName`);
+  }
+  return {
+    brandName: item.brandName.trim(),
+    modelName: item.modelName.trim(),
+    reason: isNonEmptyString(item.reason) ? item.reason.trim() : ''
+  };
+};
+
+const parseBrandVerdict = (item: unknown, index: number): BrandVerdict => {
+  if (!isObject(item) || !isNonEmptyString(item.brandName)) {
+    throw new InsightValidationError(`verdicts[${index}] is missing brandName`);
+  }
+  if (!SENTIMENTS.includes(item.sentiment as InvestmentInsight['sentiment'])) {
+    throw new InsightValidationError(`Unknown sentiment for ${item.brandName}: ${String(item.sentiment)}`);
+  }
+  return {
+    brandName: item.brandName.trim(),
+    sentiment: item.sentiment as InvestmentInsight['sentiment'],
+    reason: isNonEmptyString(item.reason) ? item.reason.trim() : ''
+  };
+};
+
+export const parseSectorBriefing = (text: string): SectorBriefing => {
+  const data = parseJSONResponse(text);
+
+  const themes = parseList(data.themes, 'themes', (item, index) => {
+    if (!isNonEmptyString(item)) throw new InsightValidationError(`themes[${index}] is empty`);
+    return item.trim();
+  });
+  if (themes.length === 0) {
+    throw new InsightValidationError("Missing themes");
+  }
+
+  return {
+    themes,
+    standoutLaunches: parseList(data.standoutLaunches, 'standoutLaunches', parseStandoutLaunch),
+    verdicts: parseList(data.verdicts, 'verdicts', parseBrandVerdict)
+  };
+};
+
+// Cited ids are returned as-is; the caller keeps only those it actually sent
+export const parseShowAnswer = (text: string): ShowAnswer => {
+  const data = parseJSONResponse(text);
+
+  if (!isNonEmptyString(data.answer)) {
+    throw new InsightValidationError("Missing answer");
+  }
+  const cited = data.citedBoothIds === undefined ? [] : parseList(data.citedBoothIds, 'citedBoothIds', (item, index) => {
+    if (typeof item !== 'string') throw new InsightValidationError(`citedBoothIds[${index}] is not a string`);
+    return item.trim();
+  });
+
+  return {
+    text: data.answer.trim(),
+    citedBrandIds: cited.filter(Boolean)
+  };
+};
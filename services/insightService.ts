@@ -0,0 +1,36 @@
+import {
+  Brand, BriefingScope, ChatMessage, ComparisonInsight, ComparisonSubject, InsightContext, InsightProvider, InvestmentInsight,
+  QAPassage, SectorBriefing, ShowAnswer
+} from '../types';
+import { geminiInsightProvider } from './geminiService';
+import { localInsightProvider } from './localInsightService';
+
+// Selected with INSIGHT_PROVIDER in .env.local: 'gemini', 'local' or 'auto' (default).
+// 'auto' uses Gemini when GEMINI_API_KEY is set and the offline rules otherwise.
+const providers: Record<string, InsightProvider> = {
+  gemini: geminiInsightProvider,
+  local: localInsightProvider
+};
+
+export const getInsightProvider = (): InsightProvider => {
+  const configured = (process.env.INSIGHT_PROVIDER || 'auto').toLowerCase();
+  if (providers[configured]) return providers[configured];
+  if (configured !== 'auto') {
+    console.warn(`Unknown INSIGHT_PROVIDER "${configured}", falling back to auto`);
+  }
+  return process.env.API_KEY ? geminiInsightProvider : localInsightProvider;
+};
+
+export const fetchBrandInsight = (brand: Brand, context: InsightContext = {}): Promise<InvestmentInsight> =>
+  getInsightProvider().fetchBrandInsight(brand, context);
+
+export const fetchComparison = (subjects: ComparisonSubject[]): Promise<ComparisonInsight> =>
+  getInsightProvider().fetchComparison(subjects);
+
+export const fetchSectorBriefing = (scope: BriefingScope, context: InsightContext = {}): Promise<SectorBriefing> =>
+  getInsightProvider().fetchSectorBriefing(scope, context);
+
+// Answers are never cached: the same words can mean something else further into a conversation
+export const answerQuestion = (
+  question: string, passages: QAPassage[], history: ChatMessage[] = [], context: InsightContext = {}
+): Promise<ShowAnswer> => getInsightProvider().answerQuestion(question, passages, history, context);
@@ -0,0 +1,223 @@
+import {
+  Brand, BrandVerdict, BriefingScope, CarModel, ComparisonInsight, ComparisonSubject, InsightContext, InsightProvider,
+  InvestmentInsight, QAPassage, SectorBriefing, ShowAnswer, StandoutLaunch, ZoneType
+} from '../types';
+import { formatMarketCap } from './marketData';
+
+// Deterministic, offline stand-in for the AI analyst.
+// Scores a brand from its launch tags, powertrain keywords and hall zone so the
+// UI can be developed and demoed without an API key or network.
+
+// Latin abbreviations only as whole tokens ("DM-i", "DM5.0", "EV版"), not inside Chevrolet or Levante
+const NEV_PATTERN = /(?<![a-z])(?:PHEV|EV|DM)(?![a-z])|纯电|插混|增程|混动|新能源|电池|续航|电机/i;
+const SMART_PATTERN = /智驾|NOA|激光雷达|座舱|鸿蒙|辅助驾驶/i;
+const ICE_PATTERN = /燃油|汽油|EA888|\d\.\dT(?!插混)/i;
+
+const describe = (model: CarModel) => `${model.name} ${model.highlight} ${model.note || ''}`;
+
+const countTag = (models: CarModel[], tag: string) =>
+  models.filter(m => m.highlight.includes(tag)).length;
+
+// Launch, powertrain and smart-tech counts behind both the single-brand view and comparisons
+const measure = (models: CarModel[], zone?: ZoneType) => {
+  const premieres = countTag(models, '首发');
+  const newCars = countTag(models, '新车');
+  const refreshes = countTag(models, '换代');
+  const nevModels = models.filter(m => NEV_PATTERN.test(describe(m))).length;
+  const smartModels = models.filter(m => SMART_PATTERN.test(describe(m))).length;
+  const iceOnly = nevModels === 0 && models.some(m => ICE_PATTERN.test(describe(m)));
+
+  let score = premieres * 2 + newCars + refreshes * 0.5 + Math.min(nevModels, 3) + Math.min(smartModels, 2) * 0.5;
+  if (zone === ZoneType.NEV) score += 1;
+  if (iceOnly) score -= 1;
+
+  return { premieres, newCars, refreshes, nevModels, smartModels, iceOnly, score };
+};
+
+const sentimentOf = (score: number): InvestmentInsight['sentiment'] =>
+  score >= 4 ? 'Bullish' : score <= 1 ? 'Bearish' : 'Neutral';
+
+const fetchBrandInsight = async (brand: Brand, context: InsightContext): Promise<InvestmentInsight> => {
+  const allModels = [...brand.models, ...(brand.fullModelList || [])];
+
+  if (allModels.length === 0) {
+    return {
+      brandName: brand.name,
+      analysis: `${brand.name} 展台暂无车型信息，无法形成判断。建议现场确认展出内容。（本地规则估算）`,
+      sentiment: 'Neutral'
+    };
+  }
+
+  const { premieres, newCars, nevModels, smartModels, iceOnly, score } = measure(allModels, context.zone);
+
+  const sentiment = sentimentOf(score);
+
+  const points: string[] = [];
+  if (premieres + newCars > 0) {
+    points.push(`本届带来 ${premieres} 款首发、${newCars} 款新车`);
+  } else {
+    points.push('本届缺少首发或全新车型');
+  }
+  if (brand.models.length > 0) points.push(`重点车型为 ${brand.models[0].name}`);
+  if (nevModels > 0) points.push(`${nevModels} 款车型涉及电动化/混动`);
+  if (iceOnly) points.push('产品线仍以燃油动力为主，电动化转型偏慢');
+  if (smartModels > 0) points.push(`${smartModels} 款强调智驾或智能座舱`);
+  if (context.zone) points.push(`位于${context.zone}展区${context.hallCode ? ` ${context.hallCode} 馆` : ''}`);
+  const quote = context.listing?.quote;
+  if (quote) {
+    points.push(`${context.listing?.viaGroup ? `母公司${context.listing.viaGroup}` : quote.name}市值 ${formatMarketCap(quote.marketCap)}` +
+      `${quote.pe !== undefined ? `、PE ${quote.pe.toFixed(1)}` : '、尚未盈利'}`);
+  }
+
+  const verdict = sentiment === 'Bullish'
+    ? '产品节奏积极，值得重点跟踪。'
+    : sentiment === 'Bearish'
+      ? '新品动能不足，短期催化有限。'
+      : '产品更新平稳，维持观察。';
+
+  return {
+    brandName: brand.name,
+    analysis: `${points.join('；')}。${verdict}（本地规则估算）`,
+    sentiment
+  };
+};
+
+const subjectName = ({ brand, model }: ComparisonSubject) => (model ? `${brand.name} ${model.name}` : brand.name);
+
+// Names of the subjects with the highest non-zero value, e.g. "仰望、问界"
+const topBy = (rows: Array<{ name: string; value: number }>) => {
+  const best = Math.max(...rows.map(r => r.value));
+  return best > 0 ? { names: rows.filter(r => r.value === best).map(r => r.name).join('、'), value: best } : null;
+};
+
+// Ranks the columns on the same score as the single-brand view and says where each one stands out
+const fetchComparison = async (subjects: ComparisonSubject[]): Promise<ComparisonInsight> => {
+  const rows = subjects.map(subject => {
+    const models = subject.model ? [subject.model] : [...subject.brand.models, ...(subject.brand.fullModelList || [])];
+    return { name: subjectName(subject), models, ...measure(models, subject.context.zone) };
+  });
+  const withModels = rows.filter(r => r.models.length > 0);
+
+  if (withModels.length < 2) {
+    return { analysis: '可比较的车型信息不足，建议现场确认各展台展出内容。（本地规则估算）' };
+  }
+
+  const points: string[] = [];
+  const launches = topBy(withModels.map(r => ({ name: r.name, value: r.premieres + r.newCars })));
+  if (launches) points.push(`${launches.names} 首发与新车最多 (${launches.value} 款)`);
+  const nev = topBy(withModels.map(r => ({ name: r.name, value: r.nevModels })));
+  if (nev) points.push(`${nev.names} 电动化/混动车型最多 (${nev.value} 款)`);
+  const smart = topBy(withModels.map(r => ({ name: r.name, value: r.smartModels })));
+  if (smart) points.push(`${smart.names} 更强调智驾或智能座舱`);
+  const iceOnly = withModels.filter(r => r.iceOnly).map(r => r.name);
+  if (iceOnly.length > 0) points.push(`${iceOnly.join('、')} 仍以燃油动力为主`);
+
+  const ranked = [...withModels].sort((a, b) => b.score - a.score);
+  const isTie = ranked[0].score === ranked[1].score;
+  const verdict = isTie
+    ? '各方产品节奏接近，暂无明显领先者。'
+    : `综合来看 ${ranked[0].name} 新品动能最强，${ranked[ranked.length - 1].name} 相对偏弱。`;
+
+  return {
+    analysis: `${points.length > 0 ? `${points.join('；')}。` : ''}${verdict}（本地规则估算）`,
+    ...(!isTie && { leader: ranked[0].name })
+  };
+};
+
+// Most launches shown as standouts, and most brands named per verdict group
+const MAX_STANDOUTS = 5;
+const MAX_VERDICTS = 3;
+const MAX_REASON_LENGTH = 40;
+
+// CSV notes are press-release paragraphs; the first sentence is enough for a one-line reason
+const firstSentence = (note: string) => {
+  const sentence = note.split(/[。！]/)[0];
+  return sentence.length > MAX_REASON_LENGTH ? `${sentence.slice(0, MAX_REASON_LENGTH)}…` : sentence;
+};
+
+// Themes from the launch and powertrain mix across the scope, standouts from premiered key models,
+// and winners / losers from the same per-brand score as the single-brand view
+const fetchSectorBriefing = async (scope: BriefingScope): Promise<SectorBriefing> => {
+  // A brand with booths in several halls of a zone is judged once on its combined line-up
+  const byName = new Map<string, { models: CarModel[]; zone: ZoneType; keyModels: Array<{ model: CarModel; hallCode: string }> }>();
+  scope.halls.forEach(hall => hall.brands.forEach(brand => {
+    const entry = byName.get(brand.name) || { models: [], zone: hall.type, keyModels: [] };
+    entry.models.push(...brand.models, ...(brand.fullModelList || []));
+    entry.keyModels.push(...brand.models.map(model => ({ model, hallCode: hall.code })));
+    byName.set(brand.name, entry);
+  }));
+
+  const brands = [...byName.entries()]
+    .filter(([, entry]) => entry.models.length > 0)
+    .map(([name, entry]) => ({ name, ...entry, ...measure(entry.models, entry.zone) }));
+
+  if (brands.length === 0) {
+    return { themes: [`${scope.label}暂无车型信息，无法形成判断。（本地规则估算）`], standoutLaunches: [], verdicts: [] };
+  }
+
+  const total = (pick: (b: typeof brands[number]) => number) => brands.reduce((sum, b) => sum + pick(b), 0);
+  const modelCount = total(b => b.models.length);
+  const nevModels = total(b => b.nevModels);
+  const smartModels = total(b => b.smartModels);
+  const iceOnly = brands.filter(b => b.iceOnly).map(b => b.name);
+
+  const themes = [`${byName.size} 个品牌、${modelCount} 款车型，其中首发 ${total(b => b.premieres)} 款、新车 ${total(b => b.newCars)} 款`];
+  const nevShare = Math.round((nevModels / modelCount) * 100);
+  themes.push(nevShare >= 50 ? `电动化是主线：${nevShare}% 的车型涉及纯电/插混/增程` : `电动化车型占比 ${nevShare}%`);
+  if (smartModels > 0) themes.push(`${smartModels} 款车型主打智驾或智能座舱`);
+  if (iceOnly.length > 0) themes.push(`${iceOnly.slice(0, MAX_VERDICTS).join('、')} 仍以燃油动力为主`);
+  themes[themes.length - 1] += '（本地规则估算）';
+
+  const tagRank = (model: CarModel) => (model.highlight.includes('首发') ? 0 : model.highlight.includes('新车') ? 1 : 2);
+  const standoutLaunches: StandoutLaunch[] = brands
+    .flatMap(b => b.keyModels.filter(({ model }) => tagRank(model) < 2).map(({ model, hallCode }) => ({ brandName: b.name, model, hallCode })))
+    .sort((a, b) => tagRank(a.model) - tagRank(b.model))
+    .slice(0, MAX_STANDOUTS)
+    .map(({ brandName, model, hallCode }) => ({
+      brandName,
+      modelName: model.name,
+      reason: model.note ? firstSentence(model.note) : `${model.highlight} · ${hallCode}馆`
+    }));
+
+  const toVerdict = (b: typeof brands[number]): BrandVerdict => {
+    const counts = [b.premieres > 0 && `首发 ${b.premieres} 款`, b.newCars > 0 && `新车 ${b.newCars} 款`, b.nevModels > 0 && `${b.nevModels} 款电动化`];
+    return {
+      brandName: b.name,
+      sentiment: sentimentOf(b.score),
+      reason: b.premieres + b.newCars > 0
+        ? counts.filter(Boolean).join('、')
+        : b.iceOnly ? '缺少新品且以燃油为主' : '本届缺少首发或全新车型'
+    };
+  };
+  const ranked = [...brands].sort((a, b) => b.score - a.score);
+  const verdicts = [
+    ...ranked.filter(b => sentimentOf(b.score) === 'Bullish').slice(0, MAX_VERDICTS),
+    ...ranked.filter(b => sentimentOf(b.score) === 'Bearish').slice(-MAX_VERDICTS)
+  ].map(toVerdict);
+
+  return { themes, standoutLaunches, verdicts };
+};
+
+// No language model here: the answer is the keyword retrieval itself, one cited line per booth
+const answerQuestion = async (_question: string, passages: QAPassage[]): Promise<ShowAnswer> => {
+  if (passages.length === 0) {
+    return { text: '没有找到与问题相关的展位。试试换个关键词，例如品牌、车型、插混/纯电、SUV。（本地关键词检索）', citedBrandIds: [] };
+  }
+  const lines = passages.map(({ hall, brand, models }) => {
+    const shown = (models.length > 0 ? models : brand.models).slice(0, 3);
+    const modelText = shown.map(m => (m.highlight ? `${m.name}（${m.highlight}）` : m.name)).join('、');
+    return `[${brand.id}] ${hall.code}馆 ${brand.booth}${modelText ? `：${modelText}` : ''}`;
+  });
+  return {
+    text: `按关键词找到 ${passages.length} 个相关展位（本地关键词检索，未使用 AI）：\n${lines.join('\n')}`,
+    citedBrandIds: passages.map(p => p.brand.id)
+  };
+};
+
+export const localInsightProvider: InsightProvider = {
+  id: 'local',
+  fetchBrandInsight,
+  fetchComparison,
+  fetchSectorBriefing,
+  answerQuestion
+};
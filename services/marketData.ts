@@ -0,0 +1,99 @@
+import { Brand, BrandEntity, BrandListing, MarketDataSource, MarketSnapshot, StockQuote } from '../types';
+import { resolveBrandIdentity } from '../utils/brandIndex';
+
+// Prices, market caps and P/E for listed exhibitors. The bundled source reads the snapshot in
+// /public/market-data.json; a live feed only needs to implement MarketDataSource.
+
+const SNAPSHOT_PATH = '/market-data.json';
+
+export class MarketDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseTickerMap = (value: unknown, field: string): Record<string, string> => {
+  if (value === undefined) return {};
+  if (!isObject(value)) throw new MarketDataError(`${field} is not an object`);
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => isString(entry[1])));
+};
+
+// One quote; null when a field is missing so a single bad row doesn't drop the whole snapshot
+const parseQuote = (ticker: string, value: unknown): StockQuote | null => {
+  if (!isObject(value)) return null;
+  const { name, currency, price, changePercent, marketCap, pe } = value;
+  if (!isString(name) || !isString(currency)) return null;
+  if (!isFiniteNumber(price) || !isFiniteNumber(changePercent) || !isFiniteNumber(marketCap)) return null;
+  return { ticker, name, currency, price, changePercent, marketCap, ...(isFiniteNumber(pe) && { pe }) };
+};
+
+export const parseMarketSnapshot = (data: unknown): MarketSnapshot => {
+  if (!isObject(data)) throw new MarketDataError('Snapshot is not an object');
+  if (!isString(data.asOf)) throw new MarketDataError('Missing asOf');
+  if (!isObject(data.quotes)) throw new MarketDataError('Missing quotes');
+
+  const quotes: Record<string, StockQuote> = {};
+  Object.entries(data.quotes).forEach(([ticker, value]) => {
+    const quote = parseQuote(ticker, value);
+    if (quote) quotes[ticker] = quote;
+    else console.warn(`Skipping malformed market data for ${ticker}`);
+  });
+
+  return {
+    asOf: data.asOf,
+    quotes,
+    brandTickers: parseTickerMap(data.brandTickers, 'brandTickers'),
+    groupTickers: parseTickerMap(data.groupTickers, 'groupTickers')
+  };
+};
+
+// A snapshot file in the format of /public/market-data.json
+export const createSnapshotSource = (url: string): MarketDataSource => ({
+  id: 'snapshot',
+  load: async () => {
+    const response = await fetch(url);
+    if (!response.ok) throw new MarketDataError(`HTTP ${response.status} loading ${url}`);
+    return parseMarketSnapshot(await response.json());
+  }
+});
+
+// MARKET_DATA_URL in .env.local points at another snapshot, e.g. one refreshed by a scheduled job
+export const getMarketDataSource = (): MarketDataSource => createSnapshotSource(process.env.MARKET_DATA_URL || SNAPSHOT_PATH);
+
+// The brand's own listing (CSV StockCode, then the snapshot's brand mapping), else its parent group's
+export const resolveListing = (brand: Brand, snapshot: MarketSnapshot | null): BrandListing | undefined => {
+  const identity = resolveBrandIdentity(brand.name);
+  const asOf = snapshot?.asOf;
+
+  const ownTicker = brand.stockCode || snapshot?.brandTickers[identity.id];
+  if (ownTicker) return { ticker: ownTicker, quote: snapshot?.quotes[ownTicker], asOf };
+
+  const group = identity.group;
+  const groupTicker = group && snapshot?.groupTickers[group.id];
+  if (!group || !groupTicker) return undefined;
+  // Group-level exhibitors (上汽集团, 北汽集团) are the listed company itself
+  const viaGroup = group.id === identity.id ? undefined : group.name;
+  return { ticker: groupTicker, quote: snapshot?.quotes[groupTicker], viaGroup, asOf };
+};
+
+// Same for a brand across its booths; a StockCode on any booth's rows counts
+export const resolveEntityListing = (entity: BrandEntity, snapshot: MarketSnapshot | null): BrandListing | undefined => {
+  const booth = entity.booths.find(b => b.brand.stockCode) || entity.booths[0];
+  return booth && resolveListing(booth.brand, snapshot);
+};
+
+// Largest market cap first; brands without prices go last
+export const compareByMarketCap = (a?: BrandListing, b?: BrandListing) =>
+  (b?.quote?.marketCap ?? -1) - (a?.quote?.marketCap ?? -1);
+
+export const formatMarketCap = (marketCap: number) =>
+  marketCap >= 10000 ? `${(marketCap / 10000).toFixed(2)}万亿` : `${Math.round(marketCap)}亿`;
+
+export const formatChange = (changePercent: number) =>
+  `${changePercent > 0 ? '+' : ''}${changePercent.toFixed(2)}%`;
@@ -7,11 +7,30 @@ export enum ZoneType {
   COMMERCIAL = '商用车'
 }
 
+export type PowertrainType = 'BEV' | 'PHEV' | 'EREV' | 'HEV' | 'ICE';
+
+// Structured specs: from the CSV spec columns, else pulled out of the note (see utils/modelSpecs.ts)
+export interface ModelSpecs {
+  powertrainType?: PowertrainType;
+  powerKW?: number; // Peak power; the combined system figure when the note gives one
+  torqueNm?: number;
+  rangeKm?: number; // CLTC range on electricity alone
+  combinedRangeKm?: number; // Fuel plus electricity, for PHEV / EREV
+  accelSeconds?: number; // 0-100 km/h
+  priceBand?: string; // e.g., "20.68-26.98万"
+  segment?: string; // e.g., "中大型SUV", "MPV"
+}
+
 export interface CarModel {
   name: string;
   highlight: string;
   isNewLaunch: boolean;
   note?: string; // Display note from CSV if available
+  price?: string; // e.g., "20.68-26.98万"
+  powertrain?: string; // e.g., "PHEV", "BEV", "EREV"
+  launchTime?: string; // Press-conference start in venue-local time, "YYYY-MM-DDTHH:mm"
+  stage?: string; // Where the launch happens, e.g. "主舞台"
+  specs?: ModelSpecs;
 }
 
 export interface Brand {
@@ -20,11 +39,33 @@ export interface Brand {
   name: string;
   logo?: string;
   stockCode?: string; // e.g., HK.1211
+  boothPosition?: { x: number; y: number }; // Booth location on the hall map image, in % of width/height
   models: CarModel[];
   fullModelList?: CarModel[]; // Changed to CarModel[] to support structure
   description: string;
 }
 
+// Parent automotive group, e.g. 广汽集团 owning 传祺/埃安/昊铂
+export interface BrandGroup {
+  id: string;
+  name: string;
+}
+
+// One booth of a brand, pointing back at the hall it is in
+export interface BrandBooth {
+  hallId: string;
+  hallCode: string;
+  brand: Brand;
+}
+
+// A brand as a company rather than a booth: every booth it occupies across halls
+export interface BrandEntity {
+  id: string; // Canonical brand id, e.g. "byd"
+  name: string;
+  group?: BrandGroup;
+  booths: BrandBooth[];
+}
+
 export interface Hall {
   id: string;
   code: string; // e.g., "1.1", "2.1"
@@ -35,8 +76,362 @@ export interface Hall {
   occupancy: number; // 0-100%
 }
 
+// A problem found while loading brands.csv, reported instead of silently dropping the row
+export interface CSVDiagnostic {
+  line: number; // 1-based line in the CSV file (0 for file-level problems)
+  severity: 'error' | 'warning';
+  message: string;
+}
+
 export interface InvestmentInsight {
   brandName: string;
   analysis: string;
   sentiment: 'Bullish' | 'Neutral' | 'Bearish';
+  isFallback?: boolean; // True when the AI was not reachable and this is placeholder text
+}
+
+// Extra facts about where a brand is exhibiting, passed to insight providers
+export interface InsightContext {
+  zone?: ZoneType;
+  hallCode?: string;
+  eventId?: string; // Show edition; insights are cached per edition
+  eventName?: string; // e.g. "2025 广州车展"
+  listing?: BrandListing; // Market data for the brand; used by the brand and comparison prompts
+}
+
+// One listed company in the market-data snapshot
+export interface StockQuote {
+  ticker: string; // e.g., HK.1211
+  name: string;
+  currency: string; // Currency of the price: CNY, HKD, USD
+  price: number;
+  changePercent: number; // Day change, e.g. -1.2
+  marketCap: number; // 亿元 (CNY) for every market, so listings in Hong Kong, Shanghai and New York rank together
+  pe?: number; // Trailing P/E; absent when loss-making
+}
+
+export interface MarketSnapshot {
+  asOf: string; // Date of the prices, e.g. 2025-11-14
+  quotes: Record<string, StockQuote>;
+  brandTickers: Record<string, string>; // Canonical brand id (data/brandGroups.ts, or the brand name) -> ticker
+  groupTickers: Record<string, string>; // Parent group id -> ticker, for brands that aren't listed themselves
+}
+
+// Where a brand's market data comes from (the CSV StockCode column wins over the snapshot's mapping)
+export interface BrandListing {
+  ticker: string;
+  quote?: StockQuote; // Absent when the snapshot has no prices for the ticker
+  viaGroup?: string; // Parent group name when the ticker is the group's, not the brand's
+  asOf?: string;
+}
+
+// A backend for market data (the bundled snapshot file, later a live feed)
+export interface MarketDataSource {
+  id: string;
+  load: () => Promise<MarketSnapshot>;
+}
+
+// What a sector briefing covers: one hall, or every hall of a zone type
+export interface BriefingScope {
+  kind: 'hall' | 'zone';
+  id: string; // Hall code or zone type; briefings are cached per scope
+  label: string; // e.g. "2.1馆" or "新能源/科技展区"
+  halls: Hall[];
+}
+
+export interface StandoutLaunch {
+  brandName: string;
+  modelName: string;
+  reason: string;
+}
+
+export interface BrandVerdict {
+  brandName: string;
+  sentiment: InvestmentInsight['sentiment'];
+  reason: string;
+}
+
+// Hall- or zone-level briefing across every exhibitor, shown as "展馆速览" in the hall sidebar
+export interface SectorBriefing {
+  themes: string[];
+  standoutLaunches: StandoutLaunch[];
+  verdicts: BrandVerdict[]; // Winners and losers; brands without a clear call may be left out
+  isFallback?: boolean; // True when the AI was not reachable and this is placeholder text
+}
+
+// Answer to a question in the Q&A panel
+export interface ShowAnswer {
+  text: string;
+  citedBrandIds: string[]; // Only ids of passages given to the provider
+  isFallback?: boolean; // True when the AI was not reachable and this is placeholder text
+}
+
+// One column of a comparison sent to an insight provider: a booth, or a single model at it
+export interface ComparisonSubject {
+  brand: Brand;
+  model?: CarModel;
+  context: InsightContext;
+}
+
+// Comparative commentary across the brands and models in the compare view
+export interface ComparisonInsight {
+  analysis: string;
+  leader?: string; // Name of the brand or model judged strongest, when the analyst picks one
+  isFallback?: boolean; // True when the AI was not reachable and this is placeholder text
+}
+
+// A booth retrieved from the show data to ground an answer in the Q&A panel
+export interface QAPassage {
+  hall: Hall;
+  brand: Brand; // Cited in answers as [brand.id]
+  models: CarModel[]; // Models that matched the question; empty when only the booth itself did
+  notes: FieldNote[]; // Your field notes on the booth
+  score: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string; // Assistant answers may cite booths inline as [brand.id]
+  passages?: QAPassage[]; // Assistant only: what was retrieved for the question
+  citedBrandIds?: string[]; // Assistant only: booths the answer relies on
+  isFallback?: boolean; // True when the AI was not reachable and the keyword matches are shown instead
+  isError?: boolean;
+}
+
+// A backend that can produce an InvestmentInsight (Gemini, offline rules, ...)
+export interface InsightProvider {
+  id: string;
+  fetchBrandInsight: (brand: Brand, context: InsightContext) => Promise<InvestmentInsight>;
+  fetchComparison: (subjects: ComparisonSubject[]) => Promise<ComparisonInsight>;
+  fetchSectorBriefing: (scope: BriefingScope, context: InsightContext) => Promise<SectorBriefing>;
+  answerQuestion: (question: string, passages: QAPassage[], history: ChatMessage[], context: InsightContext) => Promise<ShowAnswer>;
+}
+
+// Booths and models the user has starred, and which booths they have already visited.
+// Keyed by Brand.id (hall code + booth), so entries survive a reload of brands.csv.
+export interface Favorites {
+  brandIds: string[];
+  modelKeys: string[]; // `${brandId}::${modelName}`
+  visitedBrandIds: string[];
+}
+
+// An observation jotted down at a booth, about the booth as a whole or one of its models.
+// Kept on the device per show edition; photos live in IndexedDB (see utils/photoStore.ts).
+export interface FieldNote {
+  id: string;
+  brandId: string; // Brand.id, like favourites
+  modelName?: string; // Set when the note is about one model
+  text: string;
+  photoIds: string[];
+  createdAt: string; // ISO timestamp
+  author?: string; // Colleague who wrote it, for notes merged from a team bundle; absent for your own
+}
+
+// A 1–5 star rating of a booth, yours or (after a team import) a colleague's
+export interface BrandRating {
+  brandId: string;
+  score: number;
+  author?: string; // Absent for your own ratings
+  updatedAt: string; // ISO timestamp; the newer rating wins when a merge finds two from the same person
+}
+
+// A booth, or one model at a booth, in the compare tray
+export interface CompareItem {
+  brandId: string;
+  modelName?: string; // Set when comparing a single model rather than the whole booth
+}
+
+// A point on the walkable venue graph, positioned in MapCanvas SVG coordinates
+export interface VenueNode {
+  id: string;
+  label: string;
+  kind: 'entrance' | 'hall' | 'connector';
+  x: number;
+  y: number;
+  hallId?: string; // Set for kind === 'hall'
+}
+
+// A walkable link between two nodes; floor changes (escalators) cost extra time
+export interface VenueEdge {
+  from: string;
+  to: string;
+  floorChange?: boolean;
+  metres?: number; // Overrides the distance measured on the map, e.g. for stacked floors
+}
+
+// Walkable graph of one venue, in the same SVG coordinates as its VenueLayout
+export interface VenueGraph {
+  nodes: VenueNode[];
+  edges: VenueEdge[];
+}
+
+// One hall on a planned walking route, with the booths to see there
+export interface RouteStop {
+  hall: Hall;
+  brands: Brand[];
+  legMetres: number; // Walk from the previous stop (or the entrance)
+  legMinutes: number;
+}
+
+export interface RoutePlan {
+  entrance: VenueNode;
+  stops: RouteStop[];
+  path: VenueNode[]; // Every node walked through, for drawing the route
+  totalMetres: number;
+  totalMinutes: number;
+}
+
+// --- Venue layout: everything MapCanvas draws, in SVG map coordinates ---
+
+// A hall block, positioned by its top-left corner relative to the area origin
+export interface LayoutHall {
+  code: string; // Hall.code
+  x: number;
+  y: number;
+}
+
+// A group of halls with a lettered badge and a dashed outline
+export interface LayoutArea {
+  id: Hall['area'];
+  x: number; // Origin of the group on the map
+  y: number;
+  color: string; // Badge colour
+  badge: { x: number; y: number }; // Relative to the area origin
+  border: { x: number; y: number; width: number; height: number };
+  halls: LayoutHall[];
+}
+
+// Background scenery such as roads and the river; never interactive
+export interface LayoutShape {
+  path: string;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  strokeDasharray?: string;
+  opacity?: number;
+}
+
+export interface LayoutLabel {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  color: string;
+  opacity?: number;
+  letterSpacing?: number;
+  vertical?: boolean;
+}
+
+export interface LayoutLandmark {
+  id: string;
+  kind: 'metro' | 'bridge';
+  label?: string;
+  x: number;
+  y: number;
+  width?: number; // Bridges only
+  height?: number;
+}
+
+export interface VenueLayout {
+  width: number;
+  height: number;
+  initialView: { scale: number; x: number; y: number }; // Opening zoom and pan of the map
+  hallSize: { width: number; height: number };
+  shapes: LayoutShape[];
+  labels: LayoutLabel[];
+  landmarks: LayoutLandmark[];
+  areas: LayoutArea[];
+}
+
+// Booth positions on the hall map images, keyed by hall code then booth
+export type BoothPositionTable = Record<string, Record<string, { x: number; y: number }>>;
+
+// One edition of an auto show: where and when it is, and where its exhibitor data lives
+export interface ShowEvent {
+  id: string; // e.g. "guangzhou-2025"
+  series: string; // Shared by all editions of one show, e.g. "guangzhou"
+  name: string; // e.g. "广州车展"
+  year: number;
+  startDate: string; // ISO date
+  endDate: string;
+  venue: string;
+  dataUrl: string; // Exhibitor CSV in /public
+  halls: Hall[]; // Hall skeleton, filled from dataUrl
+  layout: VenueLayout;
+  graph?: VenueGraph; // Route planner and walking times; both are off without one
+  boothPositions?: BoothPositionTable;
+}
+
+// How one brand's presence changed between two editions of a show
+export interface BrandChange {
+  id: string; // Canonical brand id
+  name: string;
+  kind: 'added' | 'removed' | 'moved' | 'unchanged';
+  before: string[]; // "2.1 B-102" labels in the previous edition
+  after: string[];
+}
+
+// Facet selections for the map and brand list. Values within a facet are OR-ed, facets are AND-ed;
+// an empty list means "any".
+export interface FacetFilter {
+  zones: ZoneType[];
+  floors: Hall['floor'][];
+  areas: Hall['area'][];
+  tags: string[]; // CarModel.highlight, e.g. 首发
+  modelKinds: Array<'key' | 'normal'>; // Key (highlight) vs Normal (full list) models
+  listing: Array<'listed' | 'private'>; // Has a stock code or not
+}
+
+// Which text a search result matched on
+export type SearchField = 'brand' | 'alias' | 'group' | 'stock' | 'hall' | 'description' | 'model' | 'tag' | 'note' | 'fieldNote';
+
+// One ranked search hit: a brand, or a single model at one booth
+export interface SearchResult {
+  kind: 'brand' | 'model';
+  entity: BrandEntity;
+  booth?: BrandBooth; // Model results only
+  model?: CarModel; // Model results only
+  score: number;
+  field: SearchField;
+  text: string; // The matched text, trimmed to a snippet for long fields
+  ranges: Array<[number, number]>; // Highlighted [start, end) character ranges within text
+}
+
+// A model launch on the show's press-conference schedule
+export interface ScheduledLaunch {
+  hall: Hall;
+  brand: Brand;
+  model: CarModel;
+  start: Date;
+}
+
+// An upcoming launch reachable from a given hall, with the walk to get there
+export interface NearbyLaunch extends ScheduledLaunch {
+  walkMinutes: number;
+}
+
+// What the overview map's hall colours encode
+export type MapColorMode = 'zone' | 'exhibitors' | 'launches' | 'occupancy' | 'favorites';
+
+// Counts for one hall, computed from the loaded exhibitor data
+export interface HallStats {
+  hall: Hall;
+  exhibitors: number; // Booths
+  models: number; // Key and full-list models
+  launches: number; // Models tagged 首发 or 新车
+}
+
+export interface ZoneStats {
+  zone: ZoneType;
+  halls: number;
+  exhibitors: number;
+  models: number;
+  launches: number;
+}
+
+export interface BrandLaunchStats {
+  entity: BrandEntity;
+  launches: number;
+  models: number;
 }
@@ -0,0 +1,47 @@
+import { Hall, BrandEntity, BrandGroup, CarModel } from '../types';
+import { brandCatalog, brandGroups } from '../data/brandGroups';
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const catalogByAlias = new Map(
+  brandCatalog.flatMap(entry => [entry.name, ...entry.aliases].map(alias => [normalizeName(alias), entry] as const))
+);
+const groupsById = new Map(brandGroups.map(g => [g.id, g]));
+
+// Resolve a CSV brand name to its canonical id and parent group.
+// Brands not in the catalog are identified by their normalised name.
+export const resolveBrandIdentity = (name: string): { id: string; name: string; group?: BrandGroup } => {
+  const entry = catalogByAlias.get(normalizeName(name));
+  if (!entry) return { id: normalizeName(name), name: name.trim() };
+  return {
+    id: entry.id,
+    name: entry.name,
+    group: entry.groupId ? groupsById.get(entry.groupId) : undefined
+  };
+};
+
+// Merge booth-level Brand rows into one entity per canonical brand
+export const buildBrandEntities = (halls: Hall[]): BrandEntity[] => {
+  const entities = new Map<string, BrandEntity>();
+
+  halls.forEach(hall => {
+    hall.brands.forEach(brand => {
+      const identity = resolveBrandIdentity(brand.name);
+      let entity = entities.get(identity.id);
+      if (!entity) {
+        entity = { ...identity, booths: [] };
+        entities.set(identity.id, entity);
+      }
+      entity.booths.push({ hallId: hall.id, hallCode: hall.code, brand });
+    });
+  });
+
+  return [...entities.values()];
+};
+
+// Every model shown across all of a brand's booths, key models first
+export const getEntityModels = (entity: BrandEntity): Array<{ model: CarModel; hallCode: string; booth: string }> => {
+  const key = entity.booths.flatMap(b => b.brand.models.map(model => ({ model, hallCode: b.hallCode, booth: b.brand.booth })));
+  const normal = entity.booths.flatMap(b => (b.brand.fullModelList || []).map(model => ({ model, hallCode: b.hallCode, booth: b.brand.booth })));
+  return [...key, ...normal];
+};
@@ -0,0 +1,61 @@
+import { Brand, CarModel, CompareItem, Hall } from '../types';
+import { getModelKey } from './favorites';
+
+// The compare tray: booths and single models picked from any hall or search result to be laid out
+// side by side (#/compare). Kept on the device per show edition, like favourites.
+const storageKey = (eventId: string) => `gz-carshow:compare:${eventId}`;
+
+// More columns than this no longer fit side by side on a laptop screen
+export const MAX_COMPARE_ITEMS = 4;
+
+export const loadCompareItems = (eventId: string): CompareItem[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(eventId));
+    return raw ? (JSON.parse(raw) as CompareItem[]) : [];
+  } catch (error) {
+    console.warn("Failed to read compare tray:", error);
+    return [];
+  }
+};
+
+export const saveCompareItems = (eventId: string, items: CompareItem[]) => {
+  try {
+    localStorage.setItem(storageKey(eventId), JSON.stringify(items));
+  } catch (error) {
+    console.warn("Failed to write compare tray:", error);
+  }
+};
+
+export const getCompareKey = (item: CompareItem) =>
+  item.modelName ? getModelKey(item.brandId, item.modelName) : item.brandId;
+
+export const isInCompare = (items: CompareItem[], item: CompareItem) =>
+  items.some(i => getCompareKey(i) === getCompareKey(item));
+
+// Add or remove an item; adding to a full tray does nothing (the toggle is disabled in the UI)
+export const toggleCompareItem = (items: CompareItem[], item: CompareItem): CompareItem[] => {
+  if (isInCompare(items, item)) return items.filter(i => getCompareKey(i) !== getCompareKey(item));
+  if (items.length >= MAX_COMPARE_ITEMS) return items;
+  return [...items, item];
+};
+
+export interface CompareColumn {
+  item: CompareItem;
+  hall: Hall;
+  brand: Brand;
+  model?: CarModel; // Set for single-model items
+}
+
+// Tray items resolved against the loaded halls; items whose booth or model is gone are skipped
+export const resolveCompareItems = (halls: Hall[], items: CompareItem[]): CompareColumn[] =>
+  items.flatMap(item => {
+    const hall = halls.find(h => h.brands.some(b => b.id === item.brandId));
+    const brand = hall?.brands.find(b => b.id === item.brandId);
+    if (!hall || !brand) return [];
+    if (!item.modelName) return [{ item, hall, brand }];
+    const model = [...brand.models, ...(brand.fullModelList || [])].find(m => m.name === item.modelName);
+    return model ? [{ item, hall, brand, model }] : [];
+  });
+
+export const columnLabel = (column: CompareColumn) =>
+  column.model ? `${column.brand.name} ${column.model.name}` : column.brand.name;
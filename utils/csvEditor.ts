@@ -0,0 +1,150 @@
+import { CSVDiagnostic, Hall, ShowEvent } from '../types';
+import { CATEGORIES, KNOWN_COLUMNS, buildHallsFromRecords } from './csvLoader';
+import { CSVRecord, formatCSVRow, parseCSV } from './csvParser';
+import { parseLaunchTime } from './schedule';
+
+// Table model behind the admin data editor (#/admin): brands.csv as editable rows, checked
+// cell by cell so mistakes are visible while editing instead of being dropped on load.
+
+export interface EditorRow {
+  id: number; // Stable React key; unrelated to the row's line in the file
+  cells: string[]; // One per column
+}
+
+export interface EditorSheet {
+  columns: string[];
+  rows: EditorRow[];
+}
+
+export interface EditorIssue {
+  rowId: number;
+  column?: string; // Cell to mark; absent for row-level problems
+  severity: CSVDiagnostic['severity'];
+  message: string;
+}
+
+let nextRowId = 1;
+export const createRow = (cells: string[]): EditorRow => ({ id: nextRowId++, cells });
+
+// File line of a row (the header is line 1), as shown in the editor and in messages
+export const lineOfRow = (sheet: EditorSheet, rowId: number) => sheet.rows.findIndex(r => r.id === rowId) + 2;
+
+// Known columns are renamed to their canonical spelling; anything else is kept as-is
+export const sheetFromCSV = (text: string): EditorSheet => {
+  const [header, ...records] = parseCSV(text);
+  const columns = (header?.fields || KNOWN_COLUMNS.slice(0, 7)).map(name =>
+    KNOWN_COLUMNS.find(known => known.toLowerCase() === name.trim().toLowerCase()) || name.trim()
+  );
+  return {
+    columns,
+    rows: records.map(record => createRow(columns.map((_, i) => record.fields[i] || '')))
+  };
+};
+
+export const sheetToCSV = (sheet: EditorSheet): string =>
+  '\uFEFF' + [sheet.columns, ...sheet.rows.map(r => r.cells)].map(formatCSVRow).join('\r\n') + '\r\n';
+
+// The halls the app would build from the sheet, through the same loader as the live data
+export const buildPreview = (sheet: EditorSheet, event: ShowEvent): { halls: Hall[]; diagnostics: CSVDiagnostic[] } => {
+  const records: CSVRecord[] = [
+    { fields: sheet.columns, line: 1 },
+    ...sheet.rows.map((row, i) => ({ fields: row.cells, line: i + 2 }))
+  ];
+  return buildHallsFromRecords(records, event.halls, event.boothPositions);
+};
+
+const isCoordinate = (value: string) => {
+  const n = Number(value);
+  return value !== '' && !isNaN(n) && n >= 0 && n <= 100;
+};
+
+export const validateSheet = (sheet: EditorSheet, hallCodes: string[]): EditorIssue[] => {
+  const issues: EditorIssue[] = [];
+  const col = (name: string) => sheet.columns.indexOf(name);
+  const missing = ['Hall', 'Booth', 'Brand', 'Category'].filter(name => col(name) === -1);
+  if (missing.length > 0) {
+    return [{ rowId: 0, severity: 'error', message: `缺少必需列: ${missing.join(', ')}` }];
+  }
+
+  // First row seen for each booth, Info row and model, for duplicate detection
+  const boothOwner = new Map<string, { brand: string; line: number }>();
+  const infoRows = new Map<string, number>();
+  const modelRows = new Map<string, number>();
+
+  sheet.rows.forEach((row, index) => {
+    const line = index + 2;
+    const get = (name: string) => (col(name) === -1 ? '' : (row.cells[col(name)] || '').trim());
+    const add = (column: string | undefined, severity: EditorIssue['severity'], message: string) =>
+      issues.push({ rowId: row.id, column, severity, message });
+
+    const hall = get('Hall');
+    const booth = get('Booth');
+    const brand = get('Brand');
+    const category = get('Category');
+    const name = get('Name');
+
+    if (!hallCodes.includes(hall)) add('Hall', 'error', hall ? `未知展馆编号 "${hall}"` : '缺少展馆编号');
+    if (!booth) add('Booth', 'error', '缺少展位号');
+    if (!brand) add('Brand', 'error', '缺少品牌名称');
+    if (!CATEGORIES.includes(category)) add('Category', 'error', `分类应为 ${CATEGORIES.join('/')}`);
+    if ((category === 'Key' || category === 'Normal') && !name) add('Name', 'warning', `${category} 行缺少车型名称`);
+
+    const launchTime = get('LaunchTime');
+    if (launchTime && !parseLaunchTime(launchTime)) add('LaunchTime', 'warning', '发布时间应为 2025-11-21 10:30');
+    const boothX = get('BoothX');
+    const boothY = get('BoothY');
+    if (boothX || boothY) {
+      if (!isCoordinate(boothX)) add('BoothX', 'warning', '展位坐标应为 0-100');
+      if (!isCoordinate(boothY)) add('BoothY', 'warning', '展位坐标应为 0-100');
+    }
+
+    if (!hall || !booth || !brand) return;
+    const boothKey = `${hall}-${booth}`;
+    const owner = boothOwner.get(boothKey);
+    if (!owner) {
+      boothOwner.set(boothKey, { brand, line });
+    } else if (owner.brand !== brand) {
+      add('Booth', 'error', `展位 ${hall} ${booth} 已被 ${owner.brand} 使用 (第 ${owner.line} 行)`);
+    }
+
+    if (category === 'Info') {
+      const first = infoRows.get(boothKey);
+      if (first) add('Category', 'warning', `重复的 Info 行 (第 ${first} 行已有简介)`);
+      else infoRows.set(boothKey, line);
+    } else if (name) {
+      const modelKey = `${boothKey}::${name}`;
+      const first = modelRows.get(modelKey);
+      if (first) add('Name', 'warning', `车型重复 (第 ${first} 行)`);
+      else modelRows.set(modelKey, line);
+    }
+  });
+
+  return issues;
+};
+
+// Unsaved edits survive a reload, one draft per show edition
+const draftKey = (eventId: string) => `gz-carshow:csv-draft:${eventId}`;
+
+export const loadDraft = (eventId: string): EditorSheet | null => {
+  try {
+    const raw = localStorage.getItem(draftKey(eventId));
+    if (!raw) return null;
+    const { columns, rows } = JSON.parse(raw) as { columns: string[]; rows: string[][] };
+    return { columns, rows: rows.map(cells => createRow(cells)) };
+  } catch (error) {
+    console.warn("Failed to read CSV draft:", error);
+    return null;
+  }
+};
+
+export const saveDraft = (eventId: string, sheet: EditorSheet | null) => {
+  try {
+    if (sheet) {
+      localStorage.setItem(draftKey(eventId), JSON.stringify({ columns: sheet.columns, rows: sheet.rows.map(r => r.cells) }));
+    } else {
+      localStorage.removeItem(draftKey(eventId));
+    }
+  } catch (error) {
+    console.warn("Failed to write CSV draft:", error);
+  }
+};
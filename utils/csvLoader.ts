@@ -1,88 +1,259 @@
+import { Hall, Brand, CSVDiagnostic, BoothPositionTable, ModelSpecs } from '../types';
+import { CSVRecord, createCSVParser } from './csvParser';
+import { boothPositions } from '../data/boothPositions';
+import { parseLaunchTime } from './schedule';
+import { normalizePowertrain, resolveSpecs } from './modelSpecs';
 
-import { Hall, Brand, CarModel } from '../types';
+export interface CSVLoadResult {
+  halls: Hall[];
+  diagnostics: CSVDiagnostic[];
+}
 
-export const parseBrandsCSV = async (csvUrl: string, skeletonHalls: Hall[]): Promise<Hall[]> => {
-  try {
-    const response = await fetch(csvUrl);
-    const text = await response.text();
-    
-    // CSV Format: Hall,Booth,Brand,Category,Name,Tag,Note
-    const rows = text.split('\n').slice(1).filter(r => r.trim() !== '');
-    
-    const updatedHalls = skeletonHalls.map(h => ({
-      ...h,
-      brands: [] as Brand[]
-    }));
-
-    const brandMap = new Map<string, Brand>();
-
-    rows.forEach(row => {
-      // Regex matches: split by comma ONLY if it's followed by an even number of quotes
-      // This handles "Comma, Inside, Quote" correctly
-      const cols = row.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => {
-          let val = c.trim();
-          // Remove surrounding quotes
-          if (val.startsWith('"') && val.endsWith('"')) {
-              val = val.slice(1, -1);
-          }
-          // Handle CSV escape for quote ("")
-          return val.replace(/""/g, '"');
-      });
-
-      if (cols.length < 3) return;
-
-      const [hallCode, booth, brandName, category, modelName, tag, note] = cols;
-
-      const hallIndex = updatedHalls.findIndex(h => h.code === hallCode);
-      if (hallIndex === -1) return;
-
-      const brandId = `${hallCode}-${booth}`;
-
-      let brand = brandMap.get(brandId);
-      if (!brand) {
-        brand = {
-          id: brandId,
-          booth: booth,
-          name: brandName,
-          description: '',
-          models: [],
-          fullModelList: []
-        };
-        brandMap.set(brandId, brand);
-        updatedHalls[hallIndex].brands.push(brand);
-      }
+// Columns are matched by header name (case-insensitive), so their order in the file doesn't matter.
+// Required: Hall,Booth,Brand,Category. Optional: Name,Tag,Note,
+// plus brand-level StockCode,Logo,BoothX,BoothY and model-level Price,Powertrain,LaunchTime,Stage
+// and the spec columns Power (kW), Torque (N·m), Range (km), Accel (0-100 in s), Segment.
+const REQUIRED_COLUMNS = ['hall', 'booth', 'brand', 'category'];
+export const CATEGORIES = ['Info', 'Key', 'Normal'];
+// Every column the loader reads, in the spelling used for new files
+export const KNOWN_COLUMNS = [
+  'Hall', 'Booth', 'Brand', 'Category', 'Name', 'Tag', 'Note',
+  'StockCode', 'Logo', 'BoothX', 'BoothY', 'Price', 'Powertrain', 'LaunchTime', 'Stage',
+  'Power', 'Torque', 'Range', 'Accel', 'Segment'
+];
+
+// Numeric spec columns and the ModelSpecs field each one fills
+const NUMERIC_SPEC_COLUMNS: Array<[string, 'powerKW' | 'torqueNm' | 'rangeKm' | 'accelSeconds']> = [
+  ['Power', 'powerKW'],
+  ['Torque', 'torqueNm'],
+  ['Range', 'rangeKm'],
+  ['Accel', 'accelSeconds']
+];
+
+// Read the response body chunk by chunk so large files are parsed as they download
+const readCSVRecords = async (response: Response): Promise<CSVRecord[]> => {
+  const parser = createCSVParser();
+  const records: CSVRecord[] = [];
+
+  if (!response.body) {
+    records.push(...parser.push(await response.text()));
+    records.push(...parser.end());
+    return records;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    records.push(...parser.push(decoder.decode(value, { stream: true })));
+  }
+  records.push(...parser.push(decoder.decode()));
+  records.push(...parser.end());
+  return records;
+};
+
+export const buildHallsFromRecords = (
+  records: CSVRecord[],
+  skeletonHalls: Hall[],
+  positions: BoothPositionTable = boothPositions
+): CSVLoadResult => {
+  const diagnostics: CSVDiagnostic[] = [];
+  const updatedHalls = skeletonHalls.map(h => ({
+    ...h,
+    brands: [] as Brand[]
+  }));
+
+  const [header, ...rows] = records;
+  if (!header) {
+    diagnostics.push({ line: 0, severity: 'error', message: 'CSV 文件为空' });
+    return { halls: updatedHalls, diagnostics };
+  }
+
+  const columnIndex = new Map<string, number>();
+  header.fields.forEach((name, i) => columnIndex.set(name.trim().toLowerCase(), i));
+
+  const missingColumns = REQUIRED_COLUMNS.filter(name => !columnIndex.has(name));
+  if (missingColumns.length > 0) {
+    diagnostics.push({ line: header.line, severity: 'error', message: `缺少必需列: ${missingColumns.join(', ')}` });
+    return { halls: updatedHalls, diagnostics };
+  }
 
-      if (category === 'Info') {
-          if (note) brand.description = note;
-      } 
-      else if (category === 'Key') {
-          if (modelName) {
-              brand.models.push({
-                  name: modelName,
-                  highlight: tag || '',
-                  isNewLaunch: true,
-                  note: note // Capture note from CSV
-              });
-          }
-      } 
-      else if (category === 'Normal') {
-          if (modelName) {
-              if (!brand.fullModelList) brand.fullModelList = [];
-              // Push full object structure instead of string
-              brand.fullModelList.push({
-                  name: modelName,
-                  highlight: tag || '',
-                  isNewLaunch: false,
-                  note: note
-              });
-          }
+  const brandMap = new Map<string, Brand>();
+  const csvPositioned = new Set<string>(); // Booths whose position came from BoothX/BoothY
+
+  rows.forEach(record => {
+    const get = (column: string) => {
+      const index = columnIndex.get(column);
+      return index === undefined ? '' : (record.fields[index] || '').trim();
+    };
+
+    if (record.unterminated) {
+      diagnostics.push({ line: record.line, severity: 'warning', message: '引号未闭合，该行可能不完整' });
+    }
+
+    const hallCode = get('hall');
+    const booth = get('booth');
+    const brandName = get('brand');
+    const category = get('category');
+    const modelName = get('name');
+    const tag = get('tag');
+    const note = get('note');
+    const price = get('price');
+    const powertrain = get('powertrain');
+    const stage = get('stage');
+    const launchTimeCell = get('launchtime');
+    const launchTime = launchTimeCell ? parseLaunchTime(launchTimeCell) : null;
+
+    const hallIndex = updatedHalls.findIndex(h => h.code === hallCode);
+    if (hallIndex === -1) {
+      diagnostics.push({ line: record.line, severity: 'error', message: `未知展馆编号 "${hallCode}"，已跳过` });
+      return;
+    }
+    if (!brandName) {
+      diagnostics.push({ line: record.line, severity: 'error', message: '缺少品牌名称 (Brand)，已跳过' });
+      return;
+    }
+    if (!booth) {
+      diagnostics.push({ line: record.line, severity: 'error', message: `${brandName} 缺少展位号 (Booth)，已跳过` });
+      return;
+    }
+
+    if (launchTimeCell && !launchTime) {
+      diagnostics.push({ line: record.line, severity: 'warning', message: `发布时间 "${launchTimeCell}" 无法识别 (应为 2025-11-21 10:30)，已忽略` });
+    }
+
+    const brandId = `${hallCode}-${booth}`;
+
+    let brand = brandMap.get(brandId);
+    if (!brand) {
+      brand = {
+        id: brandId,
+        booth: booth,
+        name: brandName,
+        description: '',
+        models: [],
+        fullModelList: [],
+        // Default from the per-hall coordinate file; a BoothX/BoothY row overrides it below
+        ...(positions[hallCode]?.[booth] && { boothPosition: positions[hallCode][booth] })
+      };
+      brandMap.set(brandId, brand);
+      updatedHalls[hallIndex].brands.push(brand);
+    } else if (brand.name !== brandName) {
+      diagnostics.push({ line: record.line, severity: 'warning', message: `展位 ${booth} 已属于 ${brand.name}，该行品牌 "${brandName}" 被并入其中` });
+    }
+
+    // Brand-level optional columns may appear on any row of the booth; first value wins
+    const stockCode = get('stockcode');
+    const logo = get('logo');
+    if (stockCode && !brand.stockCode) brand.stockCode = stockCode;
+    if (logo && !brand.logo) brand.logo = logo;
+
+    const boothX = get('boothx');
+    const boothY = get('boothy');
+    if ((boothX || boothY) && !csvPositioned.has(brandId)) {
+      csvPositioned.add(brandId);
+      const x = parseFloat(boothX);
+      const y = parseFloat(boothY);
+      if (isNaN(x) || isNaN(y) || x < 0 || x > 100 || y < 0 || y > 100) {
+        diagnostics.push({ line: record.line, severity: 'warning', message: `${brandName} 的展位坐标无效 (BoothX/BoothY 应为 0-100)` });
+      } else {
+        brand.boothPosition = { x, y };
       }
-    });
+    }
 
-    return updatedHalls;
+    // Spec columns over whatever the note says; notes are the only source in most files
+    let specs: ModelSpecs | undefined;
+    if ((category === 'Key' || category === 'Normal') && modelName) {
+        const powertrainType = powertrain ? normalizePowertrain(powertrain) : undefined;
+        const segment = get('segment');
+        const columns: ModelSpecs = {
+            ...(powertrainType && { powertrainType }),
+            ...(price && { priceBand: price }),
+            ...(segment && { segment })
+        };
+        NUMERIC_SPEC_COLUMNS.forEach(([column, field]) => {
+            const cell = get(column.toLowerCase());
+            if (!cell) return;
+            const value = parseFloat(cell);
+            if (isNaN(value) || value <= 0) {
+                diagnostics.push({ line: record.line, severity: 'warning', message: `${modelName} 的 ${column} 值 "${cell}" 不是有效数字，已忽略` });
+            } else {
+                columns[field] = value;
+            }
+        });
+        specs = resolveSpecs(modelName, tag, note, columns);
+    }
+
+    if (category === 'Info') {
+        if (note) brand.description = note;
+    }
+    else if (category === 'Key') {
+        if (modelName) {
+            brand.models.push({
+                name: modelName,
+                highlight: tag || '',
+                isNewLaunch: true,
+                note: note, // Capture note from CSV
+                ...(price && { price }),
+                ...(powertrain && { powertrain }),
+                ...(launchTime && { launchTime }),
+                ...(stage && { stage }),
+                ...(specs && { specs })
+            });
+        }
+    }
+    else if (category === 'Normal') {
+        if (modelName) {
+            if (!brand.fullModelList) brand.fullModelList = [];
+            // Push full object structure instead of string
+            brand.fullModelList.push({
+                name: modelName,
+                highlight: tag || '',
+                isNewLaunch: false,
+                note: note,
+                ...(price && { price }),
+                ...(powertrain && { powertrain }),
+                ...(launchTime && { launchTime }),
+                ...(stage && { stage }),
+                ...(specs && { specs })
+            });
+        }
+    }
+    else {
+        diagnostics.push({
+          line: record.line,
+          severity: 'warning',
+          message: `未知分类 "${category}" (应为 ${CATEGORIES.join('/')})，已忽略该行内容`
+        });
+    }
+
+    if ((category === 'Key' || category === 'Normal') && !modelName) {
+        diagnostics.push({ line: record.line, severity: 'warning', message: `${brandName} 的 ${category} 行缺少车型名称 (Name)` });
+    }
+  });
+
+  return { halls: updatedHalls, diagnostics };
+};
+
+export const parseBrandsCSV = async (
+  csvUrl: string,
+  skeletonHalls: Hall[],
+  positions: BoothPositionTable = boothPositions
+): Promise<CSVLoadResult> => {
+  try {
+    const response = await fetch(csvUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const records = await readCSVRecords(response);
+    return buildHallsFromRecords(records, skeletonHalls, positions);
 
   } catch (error) {
     console.error("Failed to load CSV data:", error);
-    return skeletonHalls;
+    return {
+      halls: skeletonHalls,
+      diagnostics: [{ line: 0, severity: 'error', message: `无法加载 ${csvUrl}: ${error instanceof Error ? error.message : String(error)}` }]
+    };
   }
 };
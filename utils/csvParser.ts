@@ -0,0 +1,118 @@
+// Incremental RFC 4180 CSV parser.
+// Feed it text chunks as they arrive (e.g. from a fetch stream) and it emits
+// complete records. Handles quoted fields containing commas, escaped quotes ("")
+// and newlines, CRLF / LF / CR line endings, and a leading UTF-8 BOM.
+
+export interface CSVRecord {
+  fields: string[];
+  line: number; // 1-based line number where the record starts
+  unterminated?: boolean; // True when the file ended inside a quoted field
+}
+
+export interface CSVParser {
+  push: (chunk: string) => CSVRecord[];
+  end: () => CSVRecord[];
+}
+
+export const createCSVParser = (): CSVParser => {
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // Saw '"' inside quotes: either an escape or the closing quote
+  let skipLF = false; // Previous char was '\r', so a following '\n' belongs to it
+  let atStart = true;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+  };
+
+  const endRecord = (out: CSVRecord[], unterminated = false) => {
+    endField();
+    // Blank lines produce a single empty field; skip them
+    if (fields.length > 1 || fields[0] !== '') {
+      out.push(unterminated ? { fields, line: recordLine, unterminated } : { fields, line: recordLine });
+    }
+    fields = [];
+  };
+
+  const push = (chunk: string): CSVRecord[] => {
+    const out: CSVRecord[] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (atStart) {
+        atStart = false;
+        if (ch === '\uFEFF') continue;
+      }
+
+      if (skipLF) {
+        skipLF = false;
+        if (ch === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (ch === '"') {
+            field += '"';
+            continue;
+          }
+          // The pending quote closed the field; handle this char as unquoted
+          inQuotes = false;
+        } else {
+          if (ch === '"') {
+            quotePending = true;
+          } else if (ch === '\r' || ch === '\n') {
+            // Normalise embedded line breaks to '\n'
+            field += '\n';
+            line++;
+            if (ch === '\r') skipLF = true;
+          } else {
+            field += ch;
+          }
+          continue;
+        }
+      }
+
+      if (ch === '"' && field === '') {
+        inQuotes = true;
+      } else if (ch === ',') {
+        endField();
+      } else if (ch === '\r' || ch === '\n') {
+        endRecord(out);
+        if (ch === '\r') skipLF = true;
+        line++;
+        recordLine = line;
+      } else {
+        field += ch;
+      }
+    }
+
+    return out;
+  };
+
+  const end = (): CSVRecord[] => {
+    const out: CSVRecord[] = [];
+    const unterminated = inQuotes && !quotePending;
+    inQuotes = false;
+    quotePending = false;
+    if (field !== '' || fields.length > 0) endRecord(out, unterminated);
+    return out;
+  };
+
+  return { push, end };
+};
+
+// Convenience wrapper for text that is already fully in memory
+export const parseCSV = (text: string): CSVRecord[] => {
+  const parser = createCSVParser();
+  return [...parser.push(text), ...parser.end()];
+};
+
+// The reverse: one record as a CSV line, quoting fields that need it
+export const formatCSVRow = (fields: string[]): string =>
+  fields.map(value => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(',');
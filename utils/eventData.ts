@@ -0,0 +1,27 @@
+import { ShowEvent } from '../types';
+import { CSVLoadResult, parseBrandsCSV } from './csvLoader';
+
+// Parsed exhibitor data per show edition, so switching back and forth doesn't refetch.
+// The service worker keeps the CSV files themselves available offline.
+const loaded = new Map<string, Promise<CSVLoadResult>>();
+
+// A file-level error (line 0) means nothing usable was loaded; let the next call retry
+const isFailedLoad = (result: CSVLoadResult) =>
+  result.diagnostics.some(d => d.line === 0 && d.severity === 'error');
+
+export const loadEventData = (event: ShowEvent): Promise<CSVLoadResult> => {
+  const cached = loaded.get(event.id);
+  if (cached) return cached;
+
+  const request = parseBrandsCSV(event.dataUrl, event.halls, event.boothPositions).then(result => {
+    if (isFailedLoad(result)) loaded.delete(event.id);
+    return result;
+  });
+  loaded.set(event.id, request);
+  return request;
+};
+
+// Drop the parsed copy, e.g. after the service worker reports a newer CSV
+export const invalidateEventData = (eventId: string) => {
+  loaded.delete(eventId);
+};
@@ -0,0 +1,28 @@
+import { BrandChange, BrandEntity, Hall } from '../types';
+import { buildBrandEntities } from './brandIndex';
+
+const boothLabels = (entity?: BrandEntity) =>
+  (entity?.booths || []).map(b => `${b.hallCode} ${b.brand.booth}`).sort();
+
+const KIND_ORDER: Record<BrandChange['kind'], number> = { added: 0, moved: 1, removed: 2, unchanged: 3 };
+
+// Compare two editions of a show brand by brand (canonical ids, so renamed CSV spellings still match)
+export const diffEditions = (previous: Hall[], current: Hall[]): BrandChange[] => {
+  const before = new Map(buildBrandEntities(previous).map(e => [e.id, e] as const));
+  const after = new Map(buildBrandEntities(current).map(e => [e.id, e] as const));
+  const ids = new Set([...before.keys(), ...after.keys()]);
+
+  const changes = [...ids].map((id): BrandChange => {
+    const prev = before.get(id);
+    const next = after.get(id);
+    const beforeLabels = boothLabels(prev);
+    const afterLabels = boothLabels(next);
+    const kind = !prev ? 'added'
+      : !next ? 'removed'
+      : beforeLabels.join('|') !== afterLabels.join('|') ? 'moved'
+      : 'unchanged';
+    return { id, name: (next || prev)!.name, kind, before: beforeLabels, after: afterLabels };
+  });
+
+  return changes.sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.name.localeCompare(b.name, 'zh-CN'));
+};
@@ -0,0 +1,91 @@
+import { Brand, CarModel, FacetFilter, Hall } from '../types';
+
+export type FacetKey = keyof FacetFilter;
+
+export const emptyFilter: FacetFilter = { zones: [], floors: [], areas: [], tags: [], modelKinds: [], listing: [] };
+
+export const countActiveFacets = (filter: FacetFilter) =>
+  (Object.keys(filter) as FacetKey[]).reduce((sum, key) => sum + filter[key].length, 0);
+
+export const toggleFacetValue = (filter: FacetFilter, key: FacetKey, value: string | number): FacetFilter => {
+  const values = filter[key] as Array<string | number>;
+  return {
+    ...filter,
+    [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+  };
+};
+
+// Known model tags first, in the order the CSV guide lists them; anything else after
+const TAG_ORDER = ['首发', '新车', '换代', '待定'];
+
+const anyOf = <T>(selected: T[], value: T) => selected.length === 0 || selected.includes(value);
+
+const modelMatches = (filter: FacetFilter, model: CarModel, kind: 'key' | 'normal') =>
+  anyOf(filter.modelKinds, kind) && anyOf(filter.tags, model.highlight);
+
+// A booth matches when its hall and brand pass every facet; tag and key/normal must hold for the same model
+export const matchesFilter = (filter: FacetFilter, hall: Hall, brand: Brand): boolean => {
+  if (!anyOf(filter.zones, hall.type) || !anyOf(filter.floors, hall.floor) || !anyOf(filter.areas, hall.area)) return false;
+  if (!anyOf(filter.listing, brand.stockCode ? 'listed' : 'private')) return false;
+  if (filter.tags.length === 0 && filter.modelKinds.length === 0) return true;
+  return brand.models.some(m => modelMatches(filter, m, 'key'))
+    || (brand.fullModelList || []).some(m => modelMatches(filter, m, 'normal'));
+};
+
+export interface FacetOption<V> {
+  value: V;
+  label: string;
+  count: number; // Booths that would match with this value selected, given the other facets
+}
+
+export interface FacetGroup {
+  key: FacetKey;
+  label: string;
+  options: FacetOption<string | number>[];
+}
+
+// Facet values present in the data, with drill-down counts (each facet ignores its own selection)
+export const buildFacetGroups = (halls: Hall[], filter: FacetFilter): FacetGroup[] => {
+  const booths = halls.flatMap(hall => hall.brands.map(brand => ({ hall, brand })));
+
+  const countFor = <K extends FacetKey>(key: K, value: FacetFilter[K][number]) => {
+    const probe = { ...filter, [key]: [value] } as FacetFilter;
+    return booths.filter(({ hall, brand }) => matchesFilter(probe, hall, brand)).length;
+  };
+
+  const option = <K extends FacetKey>(key: K, value: FacetFilter[K][number], label: string): FacetOption<string | number> =>
+    ({ value, label, count: countFor(key, value) });
+
+  const unique = <T>(values: T[]) => [...new Set(values)];
+
+  const tags = unique(booths.flatMap(({ brand }) => [...brand.models, ...(brand.fullModelList || [])].map(m => m.highlight)))
+    .filter(Boolean)
+    .sort((a, b) => {
+      const ia = TAG_ORDER.indexOf(a);
+      const ib = TAG_ORDER.indexOf(b);
+      return (ia === -1 ? TAG_ORDER.length : ia) - (ib === -1 ? TAG_ORDER.length : ib) || a.localeCompare(b, 'zh-CN');
+    });
+
+  const groups: FacetGroup[] = [
+    { key: 'zones', label: '展区类型', options: unique(halls.map(h => h.type)).map(z => option('zones', z, z)) },
+    { key: 'floors', label: '楼层', options: unique(halls.map(h => h.floor)).sort().map(f => option('floors', f, `${f}F`)) },
+    { key: 'areas', label: '区域', options: unique(halls.map(h => h.area)).sort().map(a => option('areas', a, `${a}区`)) },
+    { key: 'tags', label: '车型标签', options: tags.map(t => option('tags', t, t)) },
+    {
+      key: 'modelKinds',
+      label: '车型类别',
+      options: [option('modelKinds', 'key', '重点车型'), option('modelKinds', 'normal', '全系车型')]
+    }
+  ];
+
+  // Only offer listed/private once the data actually carries stock codes
+  if (booths.some(({ brand }) => brand.stockCode)) {
+    groups.push({
+      key: 'listing',
+      label: '上市情况',
+      options: [option('listing', 'listed', '上市公司'), option('listing', 'private', '非上市')]
+    });
+  }
+
+  return groups;
+};
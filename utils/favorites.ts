@@ -0,0 +1,68 @@
+import { Brand, CarModel, Favorites, Hall } from '../types';
+
+// Favourites and visit check-offs are personal and stay on the device, one list per show edition
+const storageKey = (eventId: string) => `gz-carshow:favorites:${eventId}`;
+
+export const emptyFavorites: Favorites = { brandIds: [], modelKeys: [], visitedBrandIds: [] };
+
+export const loadFavorites = (eventId: string): Favorites => {
+  try {
+    const raw = localStorage.getItem(storageKey(eventId));
+    if (!raw) return emptyFavorites;
+    return { ...emptyFavorites, ...(JSON.parse(raw) as Partial<Favorites>) };
+  } catch (error) {
+    console.warn("Failed to read favorites:", error);
+    return emptyFavorites;
+  }
+};
+
+export const saveFavorites = (eventId: string, favorites: Favorites) => {
+  try {
+    localStorage.setItem(storageKey(eventId), JSON.stringify(favorites));
+  } catch (error) {
+    console.warn("Failed to write favorites:", error);
+  }
+};
+
+export const getModelKey = (brandId: string, modelName: string) => `${brandId}::${modelName}`;
+
+export const toggleListItem = (list: string[], id: string): string[] =>
+  list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+// A booth is on the list when the brand itself or any of its models is starred
+export const isBoothOnList = (favorites: Favorites, brandId: string) =>
+  favorites.brandIds.includes(brandId) || favorites.modelKeys.some(key => key.startsWith(`${brandId}::`));
+
+export interface ItineraryEntry {
+  brand: Brand;
+  isBrandFavorite: boolean;
+  models: CarModel[]; // Starred models at this booth
+  visited: boolean;
+}
+
+export interface ItineraryHall {
+  hall: Hall;
+  entries: ItineraryEntry[];
+}
+
+// Favourites grouped by hall in map order, booths sorted within each hall
+export const buildItinerary = (halls: Hall[], favorites: Favorites): ItineraryHall[] =>
+  halls
+    .map(hall => ({
+      hall,
+      entries: hall.brands
+        .filter(brand => isBoothOnList(favorites, brand.id))
+        .sort((a, b) => a.booth.localeCompare(b.booth))
+        .map(brand => ({
+          brand,
+          isBrandFavorite: favorites.brandIds.includes(brand.id),
+          models: [...brand.models, ...(brand.fullModelList || [])]
+            .filter(model => favorites.modelKeys.includes(getModelKey(brand.id, model.name))),
+          visited: favorites.visitedBrandIds.includes(brand.id)
+        }))
+    }))
+    .filter(group => group.entries.length > 0);
+
+// Number of starred booths per hall id, for the badges on the overview map
+export const countFavoritesByHall = (halls: Hall[], favorites: Favorites): Record<string, number> =>
+  Object.fromEntries(halls.map(hall => [hall.id, hall.brands.filter(b => isBoothOnList(favorites, b.id)).length]));
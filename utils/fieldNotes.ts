@@ -0,0 +1,51 @@
+import { FieldNote } from '../types';
+
+// Field notes are personal and stay on the device, one set per show edition (like favourites).
+// Only the text and photo ids are kept here; the photos themselves are in IndexedDB.
+const storageKey = (eventId: string) => `gz-carshow:notes:${eventId}`;
+
+export const loadFieldNotes = (eventId: string): FieldNote[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(eventId));
+    return raw ? (JSON.parse(raw) as FieldNote[]) : [];
+  } catch (error) {
+    console.warn("Failed to read field notes:", error);
+    return [];
+  }
+};
+
+export const saveFieldNotes = (eventId: string, notes: FieldNote[]) => {
+  try {
+    localStorage.setItem(storageKey(eventId), JSON.stringify(notes));
+  } catch (error) {
+    console.warn("Failed to write field notes:", error);
+  }
+};
+
+export const createFieldNote = (brandId: string, text: string, photoIds: string[], modelName?: string): FieldNote => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  brandId,
+  ...(modelName && { modelName }),
+  text: text.trim(),
+  photoIds,
+  createdAt: new Date().toISOString()
+});
+
+// Notes about the booth as a whole (no model), oldest first
+export const getBoothNotes = (notes: FieldNote[], brandId: string) =>
+  notes.filter(note => note.brandId === brandId && !note.modelName);
+
+export const getModelNotes = (notes: FieldNote[], brandId: string, modelName: string) =>
+  notes.filter(note => note.brandId === brandId && note.modelName === modelName);
+
+export const countNotesByBrand = (notes: FieldNote[]): Record<string, number> =>
+  notes.reduce<Record<string, number>>((counts, note) => {
+    counts[note.brandId] = (counts[note.brandId] || 0) + 1;
+    return counts;
+  }, {});
+
+// "11/21 10:32"
+export const formatNoteTime = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getMonth() + 1}/${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
@@ -0,0 +1,46 @@
+import { BrandLaunchStats, CarModel, Hall, HallStats, ZoneStats, Brand } from '../types';
+import { buildBrandEntities } from './brandIndex';
+
+const TOP_BRAND_LIMIT = 10;
+
+// A model counts as a launch when tagged 首发 (world/China premiere) or 新车 (new model)
+export const isLaunchModel = (model: CarModel) => model.highlight.includes('首发') || model.highlight.includes('新车');
+
+const allModels = (brand: Brand) => [...brand.models, ...(brand.fullModelList || [])];
+
+export const computeHallStats = (hall: Hall): HallStats => {
+  const models = hall.brands.flatMap(allModels);
+  return {
+    hall,
+    exhibitors: hall.brands.length,
+    models: models.length,
+    launches: models.filter(isLaunchModel).length
+  };
+};
+
+// Per-zone totals in the order zones first appear in the hall list; halls not in use are left out
+export const computeZoneStats = (hallStats: HallStats[]): ZoneStats[] => {
+  const zones = new Map<string, ZoneStats>();
+  hallStats.filter(s => s.hall.occupancy > 0).forEach(({ hall, exhibitors, models, launches }) => {
+    const zone = zones.get(hall.type) || { zone: hall.type, halls: 0, exhibitors: 0, models: 0, launches: 0 };
+    zones.set(hall.type, {
+      ...zone,
+      halls: zone.halls + 1,
+      exhibitors: zone.exhibitors + exhibitors,
+      models: zone.models + models,
+      launches: zone.launches + launches
+    });
+  });
+  return [...zones.values()];
+};
+
+// Brands with the most 首发/新车 models across all their booths
+export const computeTopBrandsByLaunches = (halls: Hall[]): BrandLaunchStats[] =>
+  buildBrandEntities(halls)
+    .map(entity => {
+      const models = entity.booths.flatMap(b => allModels(b.brand));
+      return { entity, launches: models.filter(isLaunchModel).length, models: models.length };
+    })
+    .filter(s => s.launches > 0)
+    .sort((a, b) => b.launches - a.launches || b.models - a.models)
+    .slice(0, TOP_BRAND_LIMIT);
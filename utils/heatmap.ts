@@ -0,0 +1,43 @@
+import { HallStats, MapColorMode, ZoneType } from '../types';
+
+export const COLOR_MODES: Array<{ id: MapColorMode; label: string; unit: string }> = [
+  { id: 'zone', label: '展区类型', unit: '' },
+  { id: 'exhibitors', label: '展商数量', unit: '家' },
+  { id: 'launches', label: '首发/新车', unit: '款' },
+  { id: 'occupancy', label: '使用率', unit: '%' },
+  { id: 'favorites', label: '我的收藏', unit: '个' }
+];
+
+export const ZONE_COLORS: Record<ZoneType, string> = {
+  [ZoneType.NEV]: '#059669',
+  [ZoneType.LUXURY]: '#7c3aed',
+  [ZoneType.PASSENGER]: '#2563eb',
+  [ZoneType.COMPONENTS]: '#475569',
+  [ZoneType.COMMERCIAL]: '#334155'
+};
+
+// Cool-to-hot ramp used by every numeric mode
+export const HEAT_STOPS = ['#1e3a8a', '#0891b2', '#65a30d', '#eab308', '#f97316', '#dc2626'];
+
+export const getHallMetric = (stats: HallStats, mode: MapColorMode, favoriteCounts: Record<string, number>): number => {
+  switch (mode) {
+    case 'exhibitors': return stats.exhibitors;
+    case 'launches': return stats.launches;
+    case 'occupancy': return stats.hall.occupancy;
+    case 'favorites': return favoriteCounts[stats.hall.id] || 0;
+    default: return 0;
+  }
+};
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Colour for a value between 0 and max on the heat ramp
+export const heatColor = (value: number, max: number): string => {
+  const t = max > 0 ? Math.min(1, Math.max(0, value / max)) : 0;
+  const scaled = t * (HEAT_STOPS.length - 1);
+  const i = Math.min(HEAT_STOPS.length - 2, Math.floor(scaled));
+  const from = hexToRgb(HEAT_STOPS[i]);
+  const to = hexToRgb(HEAT_STOPS[i + 1]);
+  const mix = from.map((c, k) => Math.round(c + (to[k] - c) * (scaled - i)));
+  return `rgb(${mix.join(', ')})`;
+};
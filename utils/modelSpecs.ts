@@ -0,0 +1,153 @@
+import { ModelSpecs, PowertrainType } from '../types';
+
+// Best-effort spec extraction from the free-text CSV notes ("最大功率272马力（200kW）",
+// "CLTC纯电续航230公里", "百公里加速仅需3.9秒"). Notes often cover several versions of a model,
+// so the figures are indicative; values from the CSV spec columns always win.
+
+const HP_TO_KW = 0.7355;
+
+// Checked in order: a PHEV note still talks about "纯电续航", and most hybrids mention their engine
+const POWERTRAIN_PATTERNS: Array<[PowertrainType, RegExp]> = [
+  ['EREV', /增程|EREV/i],
+  ['PHEV', /插混|插电|PHEV|DM-?i|DM-?\d|C-DM|EM-?i|电混|超混|Hi4/i],
+  ['HEV', /油电|混动|HEV|双擎/i],
+  ['BEV', /纯电(?!续航)|BEV|电动车/i],
+  ['ICE', /发动机|汽油|柴油|燃油/]
+];
+
+const BODY_PATTERN = /SUV|MPV|轿车|轿跑|跑车|旅行车|皮卡|两厢车|越野车|猎装车/i;
+const SIZE_PATTERN = /微型|小型|紧凑型|中大型|中型|大型/;
+
+const ACCEL_PATTERNS = [
+  /(?:百公里加速|零百|0-100\s*km\/h\s*加速|零至百公里加速)(?:时间)?[^\d。；，,]{0,6}(\d+(?:\.\d+)?)\s*(?:秒|s)/gi,
+  /(\d+(?:\.\d+)?)\s*秒破百/g
+];
+const PRICE_PATTERN = /[价售][^\d。；，,]{0,6}(\d+(?:\.\d+)?(?:-\d+(?:\.\d+)?)?)\s*万/;
+
+interface NumberHit {
+  value: number;
+  before: string; // A little text either side, to tell engine power from system power, range from top speed
+  after: string;
+}
+
+// Every number followed by one of the units; for a span like "515-605km" the upper bound
+const findNumbers = (text: string, units: string): NumberHit[] => {
+  const pattern = new RegExp(`(?<![\\d.])(\\d+(?:\\.\\d+)?)(?:\\s*-\\s*(\\d+(?:\\.\\d+)?))?\\s*(?:${units})`, 'g');
+  return [...text.matchAll(pattern)].map(m => {
+    const index = m.index || 0;
+    return {
+      value: parseFloat(m[2] || m[1]),
+      before: text.slice(Math.max(0, index - 12), index),
+      after: text.slice(index + m[0].length, index + m[0].length + 8)
+    };
+  });
+};
+
+const largest = (hits: NumberHit[]) => (hits.length > 0 ? Math.max(...hits.map(h => h.value)) : undefined);
+
+// A system / combined figure beats the largest single one
+const preferCombined = (hits: NumberHit[], combined: RegExp) => {
+  const preferred = hits.filter(h => combined.test(h.before));
+  return largest(preferred.length > 0 ? preferred : hits);
+};
+
+export const normalizePowertrain = (text: string): PowertrainType | undefined =>
+  POWERTRAIN_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+// Notes cover the whole press release: "提供纯电与增程两种驱动方式", "即将推出增程版的汉兰达", industry asides.
+// An engine or a generic "混动" says nothing next to an electrified type; any other mix is left unknown.
+const notePowertrain = (note: string): PowertrainType | undefined => {
+  const found = POWERTRAIN_PATTERNS.filter(([, pattern]) => pattern.test(note)).map(([type]) => type);
+  const electrified = found.filter(type => type !== 'ICE');
+  const distinct = electrified.length > 1 ? electrified.filter(type => type !== 'HEV') : electrified;
+  if (distinct.length > 1) return undefined;
+  return distinct[0] || found[0];
+};
+
+const extractPower = (text: string) => {
+  const kw = findNumbers(text, '[kK][wW](?![hH])|千瓦(?!时)').filter(h => !/回收|充电/.test(h.before));
+  const hp = findNumbers(text, '马力|匹').map(h => ({ ...h, value: Math.round(h.value * HP_TO_KW) }));
+  // Drops "功率增加7马力" and thousands split across lines in the CSV
+  const hits = (kw.length > 0 ? kw : hp).filter(h => h.value >= 20);
+  return preferCombined(hits, /综合|总功率|系统[^，。]{0,4}功率/);
+};
+
+const extractTorque = (text: string) => {
+  const hits = findNumbers(text, '牛·米|牛米|牛顿米|N·m|N\\.m|Nm').filter(h => !/轮边/.test(h.before) && h.value >= 50);
+  return preferCombined(hits, /综合|总扭矩|系统[^，。]{0,4}扭矩/);
+};
+
+const extractRanges = (text: string) => {
+  const hits = findNumbers(text, 'km(?!\\/h)|公里(?!\\/小时|每小时)')
+    .filter(h => !/车速|时速|测试|增加|油耗/.test(h.before) && !h.before.endsWith('/'));
+  const combined = hits.filter(h => /综合|满油满电/.test(h.before));
+  const electric = hits.filter(h => !combined.includes(h) && /续航|纯电|里程/.test(h.before + h.after));
+  return { rangeKm: largest(electric), combinedRangeKm: largest(combined) };
+};
+
+const extractAccel = (text: string) => {
+  const values = ACCEL_PATTERNS.flatMap(pattern => [...text.matchAll(pattern)].map(m => parseFloat(m[1])))
+    .filter(value => value >= 1.5 && value <= 20);
+  return values.length > 0 ? Math.min(...values) : undefined;
+};
+
+const extractPriceBand = (text: string) => {
+  const match = text.match(PRICE_PATTERN);
+  return match ? `${match[1]}万` : undefined;
+};
+
+// Body style with the size class written just before it ("定位中大型纯电轿车" -> 中大型轿车); "定位…" wins
+const extractSegment = (texts: string[]) => {
+  for (const text of texts) {
+    const body = text.match(BODY_PATTERN);
+    if (body) {
+      const size = text.slice(Math.max(0, (body.index || 0) - 6), body.index).match(SIZE_PATTERN);
+      return `${size?.[0] || ''}${body[0].toUpperCase()}`;
+    }
+    const sizeOnly = text.match(new RegExp(`(?:${SIZE_PATTERN.source})车`));
+    if (sizeOnly) return sizeOnly[0];
+  }
+  return undefined;
+};
+
+export const extractSpecs = (name: string, tag: string, note = ''): ModelSpecs => {
+  const title = `${name} ${tag}`;
+  const text = `${title} ${note}`;
+  const positioning = note.match(/定位(.{0,16})/)?.[1];
+  const specs: ModelSpecs = {
+    powertrainType: (positioning && normalizePowertrain(positioning)) || normalizePowertrain(title) || notePowertrain(note),
+    powerKW: extractPower(text),
+    torqueNm: extractTorque(text),
+    ...extractRanges(text),
+    accelSeconds: extractAccel(text),
+    priceBand: extractPriceBand(note),
+    segment: extractSegment([positioning, title, note].filter((t): t is string => !!t))
+  };
+  return Object.fromEntries(Object.entries(specs).filter(([, value]) => value !== undefined)) as ModelSpecs;
+};
+
+// Specs for a CSV model row: the spec columns over whatever the note yields; undefined when nothing is known
+export const resolveSpecs = (name: string, tag: string, note: string, columns: ModelSpecs): ModelSpecs | undefined => {
+  const specs = { ...extractSpecs(name, tag, note), ...columns };
+  return Object.keys(specs).length > 0 ? specs : undefined;
+};
+
+export const POWERTRAIN_LABELS: Record<PowertrainType, string> = {
+  BEV: '纯电 BEV',
+  PHEV: '插混 PHEV',
+  EREV: '增程 EREV',
+  HEV: '混动 HEV',
+  ICE: '燃油 ICE'
+};
+
+// Label / value rows for the model sheet, in reading order; unknown specs are left out
+export const formatSpecs = (specs: ModelSpecs = {}): Array<{ label: string; value: string }> => [
+  { label: '动力', value: specs.powertrainType && POWERTRAIN_LABELS[specs.powertrainType] },
+  { label: '级别', value: specs.segment },
+  { label: '价格', value: specs.priceBand },
+  { label: '最大功率', value: specs.powerKW && `${specs.powerKW} kW (${Math.round(specs.powerKW / HP_TO_KW)} 马力)` },
+  { label: '峰值扭矩', value: specs.torqueNm && `${specs.torqueNm} N·m` },
+  { label: '纯电续航', value: specs.rangeKm && `${specs.rangeKm} km` },
+  { label: '综合续航', value: specs.combinedRangeKm && `${specs.combinedRangeKm} km` },
+  { label: '零百加速', value: specs.accelSeconds && `${specs.accelSeconds} s` }
+].filter((row): row is { label: string; value: string } => !!row.value);
@@ -0,0 +1,74 @@
+// Photos attached to field notes, stored as blobs in IndexedDB so they survive reloads
+// without filling localStorage. Nothing here leaves the device.
+
+const DB_NAME = 'gz-carshow-photos';
+const STORE = 'photos';
+// Phone photos are scaled down before storing; plenty for reading a spec board later
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.82;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // Let the next call retry
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Re-encode as JPEG no larger than MAX_DIMENSION; falls back to the original file if the browser can't decode it
+const shrinkImage = async (file: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    return blob || file;
+  } catch {
+    return file;
+  }
+};
+
+// Store a photo and return its id
+export const savePhoto = async (file: Blob): Promise<string> => {
+  const id = `photo-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const blob = await shrinkImage(file);
+  await runRequest('readwrite', store => store.put(blob, id));
+  return id;
+};
+
+export const getPhoto = async (id: string): Promise<Blob | null> => {
+  try {
+    return (await runRequest<Blob | undefined>('readonly', store => store.get(id))) || null;
+  } catch (error) {
+    console.warn("Failed to read photo:", error);
+    return null;
+  }
+};
+
+export const deletePhotos = async (ids: string[]) => {
+  try {
+    await Promise.all(ids.map(id => runRequest('readwrite', store => store.delete(id))));
+  } catch (error) {
+    console.warn("Failed to delete photos:", error);
+  }
+};
@@ -0,0 +1,40 @@
+import { BrandRating } from '../types';
+
+// Booth ratings stay on the device, one set per show edition (like favourites and notes)
+const storageKey = (eventId: string) => `gz-carshow:ratings:${eventId}`;
+
+export const MAX_RATING = 5;
+
+export const loadRatings = (eventId: string): BrandRating[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(eventId));
+    return raw ? (JSON.parse(raw) as BrandRating[]) : [];
+  } catch (error) {
+    console.warn("Failed to read ratings:", error);
+    return [];
+  }
+};
+
+export const saveRatings = (eventId: string, ratings: BrandRating[]) => {
+  try {
+    localStorage.setItem(storageKey(eventId), JSON.stringify(ratings));
+  } catch (error) {
+    console.warn("Failed to write ratings:", error);
+  }
+};
+
+export const getOwnRating = (ratings: BrandRating[], brandId: string) =>
+  ratings.find(r => r.brandId === brandId && !r.author)?.score || 0;
+
+// Replace your rating of a booth; a score of 0 clears it
+export const setOwnRating = (ratings: BrandRating[], brandId: string, score: number): BrandRating[] => {
+  const others = ratings.filter(r => r.brandId !== brandId || r.author);
+  return score > 0 ? [...others, { brandId, score, updatedAt: new Date().toISOString() }] : others;
+};
+
+// Everyone's ratings of a booth, yours included
+export const summarizeRatings = (ratings: BrandRating[], brandId: string) => {
+  const forBrand = ratings.filter(r => r.brandId === brandId);
+  const average = forBrand.length > 0 ? forBrand.reduce((sum, r) => sum + r.score, 0) / forBrand.length : 0;
+  return { average, count: forBrand.length, ratings: forBrand };
+};
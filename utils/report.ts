@@ -0,0 +1,266 @@
+import { Brand, CarModel, Favorites, FieldNote, Hall, InvestmentInsight, MarketSnapshot, ShowEvent } from '../types';
+import { getCachedInsight } from '../services/insightCache';
+import { resolveListing } from '../services/marketData';
+import { getModelKey, isBoothOnList } from './favorites';
+import { formatNoteTime, getBoothNotes, getModelNotes } from './fieldNotes';
+import { formatCSVRow } from './csvParser';
+
+// Post-show report of the booths we care about, built entirely in the browser
+
+export type ReportScope = 'favorites' | 'halls' | 'all';
+
+export interface ReportOptions {
+  scope: ReportScope;
+  hallIds: string[]; // Used when scope is 'halls'
+  includeFullModelList: boolean;
+  includeInsights: boolean;
+  includeFieldNotes: boolean;
+}
+
+export interface ReportModel {
+  model: CarModel;
+  kind: 'key' | 'normal';
+  starred: boolean;
+  notes: FieldNote[];
+}
+
+export interface ReportBooth {
+  brand: Brand;
+  starred: boolean;
+  visited: boolean;
+  models: ReportModel[];
+  notes: FieldNote[]; // Booth-level field notes; model notes sit on their model
+  insight: InvestmentInsight | null; // Cached insight only; exporting never calls the AI
+}
+
+export interface ReportHall {
+  hall: Hall;
+  booths: ReportBooth[];
+}
+
+export interface ShowReport {
+  title: string;
+  generatedAt: Date;
+  halls: ReportHall[];
+}
+
+const SENTIMENT_LABELS: Record<InvestmentInsight['sentiment'], string> = {
+  Bullish: '看多',
+  Neutral: '中性',
+  Bearish: '看空'
+};
+
+const isBoothInScope = (options: ReportOptions, hall: Hall, brand: Brand, favorites: Favorites) => {
+  if (options.scope === 'favorites') return isBoothOnList(favorites, brand.id);
+  if (options.scope === 'halls') return options.hallIds.includes(hall.id);
+  return true;
+};
+
+export const buildReport = (
+  halls: Hall[], event: ShowEvent, favorites: Favorites, fieldNotes: FieldNote[], options: ReportOptions,
+  marketData: MarketSnapshot | null = null
+): ShowReport => {
+  const isStarred = (brand: Brand, model: CarModel) => favorites.modelKeys.includes(getModelKey(brand.id, model.name));
+  const notes = options.includeFieldNotes ? fieldNotes : [];
+  const toReportModel = (brand: Brand, model: CarModel, kind: ReportModel['kind']): ReportModel =>
+    ({ model, kind, starred: isStarred(brand, model), notes: getModelNotes(notes, brand.id, model.name) });
+
+  const reportHalls = halls
+    .map(hall => ({
+      hall,
+      booths: hall.brands
+        .filter(brand => isBoothInScope(options, hall, brand, favorites))
+        .sort((a, b) => a.booth.localeCompare(b.booth))
+        .map(brand => {
+          const key = brand.models.map(model => toReportModel(brand, model, 'key'));
+          // Full-list models are only listed on request, but starred or annotated ones always make it in
+          const normal = (brand.fullModelList || [])
+            .map(model => toReportModel(brand, model, 'normal'))
+            .filter(m => options.includeFullModelList || m.starred || m.notes.length > 0);
+          return {
+            brand,
+            starred: favorites.brandIds.includes(brand.id),
+            visited: favorites.visitedBrandIds.includes(brand.id),
+            models: [...key, ...normal],
+            notes: getBoothNotes(notes, brand.id),
+            insight: options.includeInsights ? getCachedInsight(brand.id, { eventId: event.id, listing: resolveListing(brand, marketData) }) : null
+          };
+        })
+    }))
+    .filter(group => group.booths.length > 0);
+
+  return { title: `${event.year} ${event.name}`, generatedAt: new Date(), halls: reportHalls };
+};
+
+export const countReportBooths = (report: ShowReport) => report.halls.reduce((sum, h) => sum + h.booths.length, 0);
+
+const formatTimestamp = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ` +
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+// Text of a field note with its time and, for merged notes, author; photos stay on the device and are only counted
+const noteLine = (note: FieldNote) =>
+  `${formatNoteTime(note.createdAt)}${note.author ? ` ${note.author}:` : ''} ${note.text}${note.photoIds.length > 0 ? ` (照片 ${note.photoIds.length} 张)` : ''}`.trim();
+
+const modelDetails = (model: CarModel) =>
+  [model.price, model.powertrain, model.launchTime && `发布 ${model.launchTime.replace('T', ' ')}${model.stage ? ` @ ${model.stage}` : ''}`]
+    .filter(Boolean)
+    .join(' · ');
+
+// ---- Markdown ----
+
+export const reportToMarkdown = (report: ShowReport): string => {
+  const lines = [`# ${report.title} · 展位报告`, '', `生成时间: ${formatTimestamp(report.generatedAt)}`, ''];
+
+  report.halls.forEach(({ hall, booths }) => {
+    lines.push(`## ${hall.code}馆 · ${hall.floor}F · ${hall.type}`, '');
+    booths.forEach(({ brand, starred, visited, models, notes, insight }) => {
+      const flags = [starred && '★', visited && '已看'].filter(Boolean).join(' ');
+      lines.push(`### ${brand.booth} ${brand.name}${brand.stockCode ? ` (${brand.stockCode})` : ''}${flags ? ` ${flags}` : ''}`, '');
+      if (brand.description) lines.push(brand.description, '');
+      if (models.length > 0) {
+        models.forEach(({ model, kind, starred: modelStarred, notes: modelNotes }) => {
+          const tag = model.highlight ? ` \`${model.highlight}\`` : '';
+          const details = modelDetails(model);
+          lines.push(`- ${modelStarred ? '★ ' : ''}**${model.name}**${tag}${kind === 'normal' ? ' (全系)' : ''}${details ? ` — ${details}` : ''}`);
+          if (model.note) lines.push(`  - ${model.note}`);
+          modelNotes.forEach(note => lines.push(`  - 📝 ${noteLine(note)}`));
+        });
+        lines.push('');
+      }
+      if (notes.length > 0) {
+        lines.push('**现场笔记**', '', ...notes.map(note => `- ${noteLine(note)}`), '');
+      }
+      if (insight) {
+        lines.push(`> **AI 观点 (${SENTIMENT_LABELS[insight.sentiment]})**: ${insight.analysis}`, '');
+      }
+    });
+  });
+
+  return lines.join('\n');
+};
+
+// ---- Printable HTML ----
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Self-contained document; the print stylesheet keeps booths from splitting across pages
+export const reportToHTML = (report: ShowReport): string => {
+  const sections = report.halls.map(({ hall, booths }) => `
+    <section>
+      <h2>${escapeHTML(`${hall.code}馆 · ${hall.floor}F · ${hall.type}`)}</h2>
+      ${booths.map(({ brand, starred, visited, models, notes, insight }) => `
+        <article>
+          <h3><span class="booth">${escapeHTML(brand.booth)}</span> ${escapeHTML(brand.name)}
+            ${brand.stockCode ? `<span class="chip">${escapeHTML(brand.stockCode)}</span>` : ''}
+            ${starred ? '<span class="chip star">★</span>' : ''}${visited ? '<span class="chip">已看</span>' : ''}</h3>
+          ${brand.description ? `<p class="desc">${escapeHTML(brand.description)}</p>` : ''}
+          ${models.length > 0 ? `<ul>${models.map(({ model, kind, starred: modelStarred, notes: modelNotes }) => `
+            <li>${modelStarred ? '★ ' : ''}<strong>${escapeHTML(model.name)}</strong>
+              ${model.highlight ? `<span class="chip">${escapeHTML(model.highlight)}</span>` : ''}
+              ${kind === 'normal' ? '<span class="muted">全系</span>' : ''}
+              ${modelDetails(model) ? `<span class="muted">${escapeHTML(modelDetails(model))}</span>` : ''}
+              ${model.note ? `<div class="note">${escapeHTML(model.note)}</div>` : ''}
+              ${modelNotes.map(note => `<div class="field-note">📝 ${escapeHTML(noteLine(note))}</div>`).join('')}
+            </li>`).join('')}</ul>` : ''}
+          ${notes.length > 0 ? `<div class="field-notes"><strong>现场笔记</strong>${notes.map(note => `<div class="field-note">${escapeHTML(noteLine(note))}</div>`).join('')}</div>` : ''}
+          ${insight ? `<blockquote><strong>AI 观点 (${SENTIMENT_LABELS[insight.sentiment]})</strong> ${escapeHTML(insight.analysis)}</blockquote>` : ''}
+        </article>`).join('')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHTML(report.title)} · 展位报告</title>
+<style>
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #0f172a; max-width: 820px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0; }
+  h2 { font-size: 1.2rem; border-bottom: 2px solid #f59e0b; padding-bottom: .25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin: 1rem 0 .25rem; }
+  .booth { font-family: ui-monospace, monospace; color: #b45309; }
+  .chip { font-size: .7rem; border: 1px solid #cbd5e1; border-radius: 4px; padding: 0 .3rem; margin-left: .3rem; font-weight: normal; }
+  .star { color: #b45309; border-color: #f59e0b; }
+  .muted, .generated { color: #64748b; font-size: .8rem; margin-left: .3rem; }
+  .generated { margin-left: 0; }
+  .desc { color: #334155; margin: .25rem 0; }
+  .note { color: #475569; font-size: .85rem; }
+  .field-notes { margin: .5rem 0; padding: .5rem .75rem; border-left: 3px solid #8b5cf6; background: #f5f3ff; font-size: .9rem; }
+  .field-note { color: #4c1d95; font-size: .85rem; white-space: pre-wrap; }
+  ul { margin: .25rem 0; padding-left: 1.2rem; }
+  blockquote { margin: .5rem 0; padding: .5rem .75rem; border-left: 3px solid #3b82f6; background: #eff6ff; font-size: .9rem; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    article { break-inside: avoid; }
+    h2 { break-after: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(report.title)} · 展位报告</h1>
+<p class="generated">生成时间: ${formatTimestamp(report.generatedAt)}</p>
+${sections}
+</body>
+</html>`;
+};
+
+// ---- Flat CSV (one row per model, or per booth when it has none) ----
+
+const CSV_HEADER = [
+  'Hall', 'Floor', 'Zone', 'Booth', 'Brand', 'StockCode', 'Starred', 'Visited', 'Description',
+  'Model', 'Category', 'Tag', 'Price', 'Powertrain', 'LaunchTime', 'Stage', 'Note', 'BoothFieldNotes', 'ModelFieldNotes',
+  'Sentiment', 'Insight'
+];
+
+export const reportToCSV = (report: ShowReport): string => {
+  const rows: string[][] = [CSV_HEADER];
+  report.halls.forEach(({ hall, booths }) => {
+    booths.forEach(({ brand, starred, visited, models, notes, insight }) => {
+      const boothNotes = notes.map(noteLine).join('\n');
+      const boothFields = (isStarred: boolean) => [
+        hall.code, String(hall.floor), hall.type, brand.booth, brand.name, brand.stockCode || '',
+        isStarred ? 'Y' : '', visited ? 'Y' : '', brand.description
+      ];
+      const insightFields = insight ? [insight.sentiment, insight.analysis] : ['', ''];
+      if (models.length === 0) {
+        rows.push([...boothFields(starred), '', '', '', '', '', '', '', '', boothNotes, '', ...insightFields]);
+        return;
+      }
+      models.forEach(({ model, kind, starred: modelStarred, notes: modelNotes }) => rows.push([
+        ...boothFields(starred || modelStarred),
+        model.name, kind === 'key' ? 'Key' : 'Normal', model.highlight, model.price || '', model.powertrain || '',
+        model.launchTime?.replace('T', ' ') || '', model.stage || '', model.note || '',
+        boothNotes, modelNotes.map(noteLine).join('\n'),
+        ...insightFields
+      ]));
+    });
+  });
+  // Leading BOM so Excel opens the file as UTF-8
+  return '\uFEFF' + rows.map(formatCSVRow).join('\r\n');
+};
+
+// ---- Delivery ----
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Open the HTML report in a new tab and bring up the print dialog ("Save as PDF")
+export const printReport = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false; // Blocked pop-up
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 300); // Let the new tab lay out first
+  return true;
+};
@@ -0,0 +1,202 @@
+import { Brand, Hall, RoutePlan, RouteStop, VenueGraph, VenueNode } from '../types';
+import { METRES_PER_UNIT, WALKING_METRES_PER_MINUTE, FLOOR_CHANGE_MINUTES } from '../data/venueGraph';
+
+interface Link {
+  to: string;
+  metres: number;
+  minutes: number;
+}
+
+interface ShortestPaths {
+  minutes: Map<string, number>;
+  metres: Map<string, number>;
+  prev: Map<string, string>;
+}
+
+interface GraphIndex {
+  nodesById: Map<string, VenueNode>;
+  adjacency: Map<string, Link[]>;
+}
+
+// Built once per venue graph (each show edition points at one)
+const indexes = new WeakMap<VenueGraph, GraphIndex>();
+
+const getIndex = (graph: VenueGraph): GraphIndex => {
+  const cached = indexes.get(graph);
+  if (cached) return cached;
+
+  const nodesById = new Map(graph.nodes.map(n => [n.id, n]));
+  const adjacency = new Map<string, Link[]>(graph.nodes.map(n => [n.id, []]));
+  graph.edges.forEach(edge => {
+    const a = nodesById.get(edge.from);
+    const b = nodesById.get(edge.to);
+    if (!a || !b) {
+      console.warn(`Venue edge ${edge.from} -> ${edge.to} references an unknown node`);
+      return;
+    }
+    const metres = edge.metres ?? Math.hypot(a.x - b.x, a.y - b.y) * METRES_PER_UNIT;
+    const minutes = metres / WALKING_METRES_PER_MINUTE + (edge.floorChange ? FLOOR_CHANGE_MINUTES : 0);
+    adjacency.get(a.id)!.push({ to: b.id, metres, minutes });
+    adjacency.get(b.id)!.push({ to: a.id, metres, minutes });
+  });
+
+  const index = { nodesById, adjacency };
+  indexes.set(graph, index);
+  return index;
+};
+
+export const getEntrances = (graph: VenueGraph): VenueNode[] => graph.nodes.filter(n => n.kind === 'entrance');
+
+export const getHallNode = (graph: VenueGraph, hallId: string): VenueNode | undefined =>
+  graph.nodes.find(n => n.kind === 'hall' && n.hallId === hallId);
+
+// Dijkstra over walking time; the graph has a few dozen nodes so a linear scan is enough
+const shortestPathsFrom = ({ adjacency }: GraphIndex, sourceId: string): ShortestPaths => {
+  const minutes = new Map<string, number>([[sourceId, 0]]);
+  const metres = new Map<string, number>([[sourceId, 0]]);
+  const prev = new Map<string, string>();
+  const done = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    minutes.forEach((m, id) => {
+      if (!done.has(id) && (current === null || m < minutes.get(current)!)) current = id;
+    });
+    if (current === null) break;
+    const from: string = current;
+    done.add(from);
+
+    adjacency.get(from)!.forEach(link => {
+      const candidate = minutes.get(from)! + link.minutes;
+      if (candidate < (minutes.get(link.to) ?? Infinity)) {
+        minutes.set(link.to, candidate);
+        metres.set(link.to, metres.get(from)! + link.metres);
+        prev.set(link.to, from);
+      }
+    });
+  }
+
+  return { minutes, metres, prev };
+};
+
+// Walking minutes from one hall to every reachable hall, keyed by hall id
+export const getWalkingMinutesFrom = (graph: VenueGraph, hallId: string): Map<string, number> => {
+  const minutes = new Map<string, number>([[hallId, 0]]);
+  const node = getHallNode(graph, hallId);
+  if (!node) return minutes;
+  const index = getIndex(graph);
+  shortestPathsFrom(index, node.id).minutes.forEach((m, id) => {
+    const target = index.nodesById.get(id);
+    if (target?.hallId) minutes.set(target.hallId, m);
+  });
+  return minutes;
+};
+
+const tracePath = (paths: ShortestPaths, targetId: string): string[] => {
+  const ids = [targetId];
+  while (paths.prev.has(ids[0])) ids.unshift(paths.prev.get(ids[0])!);
+  return ids;
+};
+
+// Above this many halls the exact search gets slow; fall back to nearest-neighbour
+const MAX_EXACT_STOPS = 12;
+
+// Cheapest open path from the start through every target (Held-Karp over walking minutes)
+const orderExact = (startCost: number[], cost: number[][]): number[] => {
+  const n = startCost.length;
+  const size = 1 << n;
+  const best = new Float64Array(size * n).fill(Infinity);
+  const parent = new Int8Array(size * n).fill(-1);
+  for (let j = 0; j < n; j++) best[(1 << j) * n + j] = startCost[j];
+
+  for (let mask = 1; mask < size; mask++) {
+    for (let j = 0; j < n; j++) {
+      const here = best[mask * n + j];
+      if (!(mask & (1 << j)) || here === Infinity) continue;
+      for (let k = 0; k < n; k++) {
+        if (mask & (1 << k)) continue;
+        const next = (mask | (1 << k)) * n + k;
+        if (here + cost[j][k] < best[next]) {
+          best[next] = here + cost[j][k];
+          parent[next] = j;
+        }
+      }
+    }
+  }
+
+  const full = size - 1;
+  let last = 0;
+  for (let j = 1; j < n; j++) if (best[full * n + j] < best[full * n + last]) last = j;
+
+  const order: number[] = [];
+  let mask = full;
+  while (last !== -1) {
+    order.unshift(last);
+    const p = parent[mask * n + last];
+    mask &= ~(1 << last);
+    last = p;
+  }
+  return order;
+};
+
+const orderGreedy = (startCost: number[], cost: number[][]): number[] => {
+  const remaining = new Set(startCost.map((_, i) => i));
+  const order: number[] = [];
+  let costs = startCost;
+  while (remaining.size > 0) {
+    const next = [...remaining].reduce((a, b) => (costs[b] < costs[a] ? b : a));
+    order.push(next);
+    remaining.delete(next);
+    costs = cost[next];
+  }
+  return order;
+};
+
+// Visiting order for the halls holding the given booths, starting from an entrance.
+// Returns null when there is nothing reachable to visit.
+export const planRoute = (graph: VenueGraph, halls: Hall[], brandIds: string[], entranceId: string): RoutePlan | null => {
+  const index = getIndex(graph);
+  const entrance = index.nodesById.get(entranceId);
+  if (!entrance) return null;
+
+  const targets = halls
+    .map(hall => ({
+      hall,
+      node: getHallNode(graph, hall.id),
+      brands: hall.brands.filter(b => brandIds.includes(b.id)).sort((a, b) => a.booth.localeCompare(b.booth))
+    }))
+    .filter((t): t is { hall: Hall; node: VenueNode; brands: Brand[] } => !!t.node && t.brands.length > 0);
+
+  const fromEntrance = shortestPathsFrom(index, entrance.id);
+  const reachable = targets.filter(t => fromEntrance.minutes.has(t.node.id));
+  if (reachable.length === 0) return null;
+
+  const fromTarget = reachable.map(t => shortestPathsFrom(index, t.node.id));
+  const startCost = reachable.map(t => fromEntrance.minutes.get(t.node.id)!);
+  const cost = fromTarget.map(paths => reachable.map(t => paths.minutes.get(t.node.id) ?? Infinity));
+
+  const order = reachable.length <= MAX_EXACT_STOPS ? orderExact(startCost, cost) : orderGreedy(startCost, cost);
+
+  const stops: RouteStop[] = [];
+  const pathIds: string[] = [entrance.id];
+  let previous = fromEntrance;
+  order.forEach(i => {
+    const target = reachable[i];
+    stops.push({
+      hall: target.hall,
+      brands: target.brands,
+      legMetres: previous.metres.get(target.node.id)!,
+      legMinutes: previous.minutes.get(target.node.id)!
+    });
+    pathIds.push(...tracePath(previous, target.node.id).slice(1));
+    previous = fromTarget[i];
+  });
+
+  return {
+    entrance,
+    stops,
+    path: pathIds.map(id => index.nodesById.get(id)!),
+    totalMetres: stops.reduce((sum, s) => sum + s.legMetres, 0),
+    totalMinutes: stops.reduce((sum, s) => sum + s.legMinutes, 0)
+  };
+};
@@ -0,0 +1,144 @@
+// Hash-based routing so app state can be shared as a link and the back button
+// closes overlays instead of leaving the app.
+//
+//   #/hall/2.1                     hall sidebar open
+//   #/hall/2.1/brand/2.1-B-102     ... scrolled to a booth
+//   #/.../brand/2.1-B-102/model/汉L ... and to one of its models
+//   #/search?q=仰望                 search overlay (may follow a hall path)
+//   #/detail/byd                   brand detail overlay (may follow a hall or search path)
+//   #/list                         "my list" favourites overlay (may follow a hall path)
+//   #/changes                      changes vs the previous edition of the show
+//   #/schedule                     press-conference timeline
+//   #/stats                        statistics dashboard
+//   #/export                       report export (Markdown / print / CSV)
+//   #/share                        team sharing: export / import a bundle
+//   #/share?d=...                  ... opened from a QR code, with a colleague's bundle to import
+//   #/admin                        exhibitor CSV editor (not linked from the UI)
+//   #/compare                      side-by-side comparison of the compare tray
+//   #/event/guangzhou-2025/...     any of the above for a specific show edition (default: latest)
+
+export interface AppRoute {
+  eventId?: string; // Show edition; absent for the default one
+  hallCode?: string;
+  brandId?: string;
+  modelName?: string; // Model row to bring into view within the brand's card
+  search?: string; // Present (possibly empty) when the search overlay is open
+  detailId?: string; // Canonical brand id shown in the brand detail overlay
+  list?: boolean; // Favourites overlay open
+  changes?: boolean; // Edition diff overlay open
+  schedule?: boolean; // Launch timeline overlay open
+  stats?: boolean; // Statistics dashboard open
+  export?: boolean; // Report export overlay open
+  share?: boolean; // Team sharing overlay open
+  shareData?: string; // Encoded team bundle from a QR-code link (see utils/teamBundle.ts)
+  admin?: boolean; // CSV editor open
+  compare?: boolean; // Comparison view open
+}
+
+interface HistoryState {
+  depth: number; // Number of in-app entries behind this one
+  prev?: string; // Hash of the entry directly behind this one
+}
+
+export const parseRoute = (hash: string): AppRoute => {
+  const [path, queryString = ''] = hash.replace(/^#/, '').split('?');
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const query = new URLSearchParams(queryString);
+  const route: AppRoute = {};
+
+  for (let i = 0; i < segments.length; i++) {
+    const key = segments[i];
+    if (key === 'event' && segments[i + 1]) route.eventId = segments[++i];
+    else if (key === 'hall' && segments[i + 1]) route.hallCode = segments[++i];
+    else if (key === 'brand' && segments[i + 1]) route.brandId = segments[++i];
+    else if (key === 'model' && segments[i + 1]) route.modelName = segments[++i];
+    else if (key === 'detail' && segments[i + 1]) route.detailId = segments[++i];
+    else if (key === 'search') route.search = query.get('q') || '';
+    else if (key === 'list') route.list = true;
+    else if (key === 'changes') route.changes = true;
+    else if (key === 'schedule') route.schedule = true;
+    else if (key === 'stats') route.stats = true;
+    else if (key === 'export') route.export = true;
+    else if (key === 'admin') route.admin = true;
+    else if (key === 'compare') route.compare = true;
+    else if (key === 'share') {
+      route.share = true;
+      const data = query.get('d');
+      if (data) route.shareData = data;
+    }
+  }
+
+  // A brand only makes sense inside its hall, a model inside its brand
+  if (!route.hallCode) delete route.brandId;
+  if (!route.brandId) delete route.modelName;
+  return route;
+};
+
+export const formatRoute = (route: AppRoute): string => {
+  const segments: string[] = [];
+  if (route.eventId) segments.push('event', route.eventId);
+  if (route.hallCode) {
+    segments.push('hall', route.hallCode);
+    if (route.brandId) {
+      segments.push('brand', route.brandId);
+      if (route.modelName) segments.push('model', route.modelName);
+    }
+  }
+  if (route.search !== undefined) segments.push('search');
+  if (route.list) segments.push('list');
+  if (route.changes) segments.push('changes');
+  if (route.schedule) segments.push('schedule');
+  if (route.stats) segments.push('stats');
+  if (route.export) segments.push('export');
+  if (route.share) segments.push('share');
+  if (route.admin) segments.push('admin');
+  if (route.compare) segments.push('compare');
+  if (route.detailId) segments.push('detail', route.detailId);
+
+  const path = '#/' + segments.map(encodeURIComponent).join('/');
+  const params = [
+    route.search && `q=${encodeURIComponent(route.search)}`,
+    route.share && route.shareData && `d=${encodeURIComponent(route.shareData)}`
+  ].filter(Boolean);
+  return params.length > 0 ? `${path}?${params.join('&')}` : path;
+};
+
+const currentState = (): HistoryState => (window.history.state as HistoryState | null) || { depth: 0 };
+
+// Push a new history entry (or replace the current one) for the given route
+export const writeRoute = (route: AppRoute, replace = false) => {
+  const hash = formatRoute(route);
+  if (hash === window.location.hash) return;
+  const state = currentState();
+  if (replace) {
+    window.history.replaceState(state, '', hash);
+  } else {
+    window.history.pushState({ depth: state.depth + 1, prev: window.location.hash || '#/' }, '', hash);
+  }
+};
+
+// Close an overlay: step back if the previous entry is exactly the target route,
+// otherwise rewrite the current entry so back doesn't reopen what was just closed.
+// Returns true when navigation happens asynchronously via popstate.
+export const closeToRoute = (route: AppRoute): boolean => {
+  const state = currentState();
+  if (state.depth > 0 && state.prev === formatRoute(route)) {
+    window.history.back();
+    return true;
+  }
+  writeRoute(route, true);
+  return false;
+};
+
+// For deep links, slot an empty root entry underneath so back closes the view instead of leaving
+export const initHistory = () => {
+  if (window.history.state) return; // Reload within an existing session
+  const route = parseRoute(window.location.hash);
+  const hash = formatRoute(route);
+  if (hash === '#/') {
+    window.history.replaceState({ depth: 0 }, '', hash);
+    return;
+  }
+  window.history.replaceState({ depth: 0 }, '', '#/');
+  window.history.pushState({ depth: 1, prev: '#/' }, '', hash);
+};
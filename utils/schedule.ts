@@ -0,0 +1,69 @@
+import { Hall, NearbyLaunch, ScheduledLaunch, VenueGraph } from '../types';
+import { getWalkingMinutesFrom } from './routePlanner';
+
+// Halls with a launch starting within this many minutes are highlighted on the map
+export const LAUNCH_SOON_MINUTES = 30;
+// "Next up near me" looks this far ahead and suggests this many launches
+const NEARBY_HORIZON_MINUTES = 120;
+const NEARBY_LIMIT = 3;
+
+const MINUTE = 60 * 1000;
+
+// Normalise a LaunchTime cell ("2025-11-21 10:30", "2025/11/21 10:30" or "2025-11-21T10:30")
+// to "YYYY-MM-DDTHH:mm"; null when it isn't a valid date and time
+export const parseLaunchTime = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})[ T](\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute] = match;
+  if (+hour > 23 || +minute > 59) return null;
+  // Date rolls 2025-11-31 over to Dec 01; a day the month doesn't have comes back changed
+  const date = new Date(+year, +month - 1, +day);
+  if (date.getFullYear() !== +year || date.getMonth() !== +month - 1 || date.getDate() !== +day) return null;
+  const pad = (n: string) => n.padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${minute}`;
+};
+
+// Every model with a launch time, earliest first. Times carry no zone and are read as
+// device-local, which is venue time for visitors at the show.
+export const buildLaunchSchedule = (halls: Hall[]): ScheduledLaunch[] =>
+  halls
+    .flatMap(hall => hall.brands.flatMap(brand =>
+      [...brand.models, ...(brand.fullModelList || [])]
+        .filter(model => model.launchTime)
+        .map(model => ({ hall, brand, model, start: new Date(model.launchTime!) }))
+    ))
+    .sort((a, b) => a.start.getTime() - b.start.getTime() || a.brand.booth.localeCompare(b.brand.booth));
+
+export const minutesUntil = (launch: ScheduledLaunch, now: Date) => (launch.start.getTime() - now.getTime()) / MINUTE;
+
+export const getHallsLaunchingSoon = (schedule: ScheduledLaunch[], now: Date): Set<string> =>
+  new Set(schedule
+    .filter(launch => {
+      const minutes = minutesUntil(launch, now);
+      return minutes >= 0 && minutes <= LAUNCH_SOON_MINUTES;
+    })
+    .map(launch => launch.hall.id));
+
+// Upcoming launches you can still walk to from a hall in time, closest first.
+// Empty for venues without a walking graph.
+export const findNearbyLaunches = (
+  schedule: ScheduledLaunch[], hallId: string, now: Date, graph?: VenueGraph
+): NearbyLaunch[] => {
+  if (!graph) return [];
+  const walking = getWalkingMinutesFrom(graph, hallId);
+  return schedule
+    .filter(launch => minutesUntil(launch, now) <= NEARBY_HORIZON_MINUTES)
+    .flatMap(launch => {
+      const walkMinutes = walking.get(launch.hall.id);
+      if (walkMinutes === undefined || walkMinutes > minutesUntil(launch, now)) return [];
+      return [{ ...launch, walkMinutes }];
+    })
+    .sort((a, b) => a.walkMinutes - b.walkMinutes || a.start.getTime() - b.start.getTime())
+    .slice(0, NEARBY_LIMIT);
+};
+
+export const formatClock = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export const formatDay = (date: Date) =>
+  `${date.getMonth() + 1}月${date.getDate()}日 周${'日一二三四五六'[date.getDay()]}`;
@@ -0,0 +1,295 @@
+import { pinyin } from 'pinyin-pro';
+import { BrandBooth, BrandEntity, CarModel, FieldNote, Hall, SearchField, SearchResult } from '../types';
+import { brandCatalog } from '../data/brandGroups';
+import { englishAliases } from '../data/searchAliases';
+import { buildBrandEntities } from './brandIndex';
+import { getBoothNotes, getModelNotes } from './fieldNotes';
+
+// Romanised form of a short text, for pinyin, initials and typo matching.
+// Every character of `full` points back at the source character it came from.
+interface Phonetic {
+  full: string; // e.g. "yangwangu8" for 仰望U8
+  fullSource: number[];
+  starts: number[]; // Offsets in `full` where a syllable or latin word begins
+  initials: string; // e.g. "ywu" for 仰望U8
+  initialsSource: number[];
+}
+
+interface FieldText {
+  field: SearchField;
+  text: string;
+  lower: string;
+  phonetic?: Phonetic; // Short fields only; notes and descriptions match literally
+}
+
+interface SearchDoc {
+  kind: SearchResult['kind'];
+  entity: BrandEntity;
+  booth?: BrandBooth;
+  model?: CarModel;
+  fields: FieldText[];
+}
+
+export interface SearchIndex {
+  docs: SearchDoc[];
+}
+
+interface Match {
+  score: number;
+  ranges: Array<[number, number]>;
+}
+
+// Match quality, best first
+const SCORE = {
+  exact: 100,
+  prefix: 90,
+  substring: 75,
+  infix: 50, // Inside a latin word, e.g. "ld" in "Build"
+  pinyinPrefix: 70,
+  pinyin: 60,
+  initialsPrefix: 55,
+  initials: 45,
+  typo: 40 // Minus 10 per edit
+};
+
+// How much a match in each field counts towards the result's rank
+const FIELD_WEIGHT: Record<SearchField, number> = {
+  brand: 1,
+  alias: 0.95,
+  model: 0.95,
+  group: 0.7,
+  stock: 0.7,
+  hall: 0.6,
+  tag: 0.6,
+  note: 0.45,
+  fieldNote: 0.45,
+  description: 0.4
+};
+
+const PHONETIC_FIELDS: SearchField[] = ['brand', 'alias', 'group', 'model', 'tag'];
+const MAX_RESULTS = 80;
+const SNIPPET_RADIUS = 16;
+
+const CJK = /[\u3400-\u9fff]/;
+const ROMAN = /^[a-z0-9]+$/;
+
+const normalizeQuery = (query: string) => query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const buildPhonetic = (text: string): Phonetic | undefined => {
+  const syllables = pinyin(text, { toneType: 'none', type: 'array', v: true });
+  if (syllables.length !== text.length) return undefined; // Surrogate pairs etc.; literal matching still works
+
+  const phonetic: Phonetic = { full: '', fullSource: [], starts: [], initials: '', initialsSource: [] };
+  let inWord = false;
+  syllables.forEach((syllable, i) => {
+    const token = syllable.toLowerCase();
+    if (!ROMAN.test(token)) {
+      inWord = false;
+      return;
+    }
+    const isCJK = CJK.test(text[i]);
+    if (isCJK || !inWord) {
+      phonetic.starts.push(phonetic.full.length);
+      phonetic.initials += token[0];
+      phonetic.initialsSource.push(i);
+    }
+    for (const c of token) {
+      phonetic.full += c;
+      phonetic.fullSource.push(i);
+    }
+    inWord = !isCJK;
+  });
+  return phonetic;
+};
+
+const makeField = (field: SearchField, text: string): FieldText => ({
+  field,
+  text,
+  lower: text.toLowerCase(),
+  phonetic: PHONETIC_FIELDS.includes(field) ? buildPhonetic(text) : undefined
+});
+
+// Edit distance (with adjacent transpositions) between the query and the best-matching
+// prefix of the target, plus that prefix's length
+const prefixDistance = (query: string, target: string): { distance: number; length: number } => {
+  const rows: number[][] = [Array.from({ length: target.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= query.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1;
+      row[j] = Math.min(rows[i - 1][j] + 1, row[j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && query[i - 1] === target[j - 2] && query[i - 2] === target[j - 1]) {
+        row[j] = Math.min(row[j], rows[i - 2][j - 2] + 1);
+      }
+    }
+    rows.push(row);
+  }
+  const last = rows[query.length];
+  let length = 0;
+  last.forEach((d, j) => {
+    if (d < last[length] || (d === last[length] && Math.abs(j - query.length) < Math.abs(length - query.length))) length = j;
+  });
+  return { distance: last[length], length };
+};
+
+const matchPhonetic = (phonetic: Phonetic, query: string, allowTypos: boolean): Match | null => {
+  const q = query.replace(/ /g, '');
+  if (!ROMAN.test(q)) return null;
+  const span = (source: number[], from: number, length: number): Array<[number, number]> =>
+    [[source[from], source[from + length - 1] + 1]];
+
+  // Full pinyin, starting on a syllable ("wang" finds 仰望, "ang" doesn't)
+  const start = phonetic.starts.find(s => phonetic.full.startsWith(q, s));
+  if (start !== undefined) {
+    return { score: start === 0 ? SCORE.pinyinPrefix : SCORE.pinyin, ranges: span(phonetic.fullSource, start, q.length) };
+  }
+
+  // Initials, e.g. "lx" for 理想
+  if (q.length >= 2) {
+    const at = phonetic.initials.indexOf(q);
+    if (at !== -1) {
+      return { score: at === 0 ? SCORE.initialsPrefix : SCORE.initials, ranges: span(phonetic.initialsSource, at, q.length) };
+    }
+  }
+
+  // Typos against the pinyin or latin spelling, e.g. "yangwnag"; the first letter has to be right
+  if (allowTypos && q.length >= 4) {
+    const maxEdits = q.length >= 8 ? 2 : 1;
+    let best: { distance: number; start: number; length: number } | null = null;
+    phonetic.starts.forEach(s => {
+      if (phonetic.full[s] !== q[0]) return;
+      const { distance, length } = prefixDistance(q, phonetic.full.slice(s, s + q.length + maxEdits));
+      if (length > 0 && distance <= maxEdits && (!best || distance < best.distance)) best = { distance, start: s, length };
+    });
+    if (best) {
+      const { distance, start: s, length } = best;
+      return { score: SCORE.typo - 10 * (distance - 1), ranges: span(phonetic.fullSource, s, length) };
+    }
+  }
+  return null;
+};
+
+const matchField = (field: FieldText, query: string, allowTypos: boolean): Match | null => {
+  const at = field.lower.indexOf(query);
+  if (at !== -1) {
+    const insideWord = at > 0 && /[a-z0-9]/.test(field.lower[at - 1]) && /[a-z0-9]/.test(query[0]);
+    const score = field.lower === query ? SCORE.exact : at === 0 ? SCORE.prefix : insideWord ? SCORE.infix : SCORE.substring;
+    return { score, ranges: [[at, at + query.length]] };
+  }
+  return field.phonetic ? matchPhonetic(field.phonetic, query, allowTypos) : null;
+};
+
+// Long texts are cut down to a window around the first highlight
+const toSnippet = (text: string, ranges: Array<[number, number]>) => {
+  if (text.length <= SNIPPET_RADIUS * 3) return { text, ranges };
+  const from = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const to = Math.min(text.length, ranges[0][1] + SNIPPET_RADIUS);
+  const prefix = from > 0 ? '…' : '';
+  const shift = prefix.length - from;
+  return {
+    text: prefix + text.slice(from, to) + (to < text.length ? '…' : ''),
+    ranges: ranges
+      .filter(([start]) => start >= from && start < to)
+      .map(([start, end]): [number, number] => [start + shift, Math.min(end, to) + shift])
+  };
+};
+
+const brandFields = (entity: BrandEntity): FieldText[] => {
+  const booths = entity.booths.map(b => b.brand);
+  const names = new Set([entity.name, ...booths.map(b => b.name.trim())]);
+  const catalogAliases = brandCatalog.find(e => e.id === entity.id)?.aliases || [];
+  const aliases = new Set([...catalogAliases, ...(englishAliases[entity.id] || [])].filter(a => !names.has(a)));
+  const stockCodes = new Set(booths.map(b => b.stockCode).filter((c): c is string => !!c));
+  const descriptions = new Set(booths.map(b => b.description).filter(Boolean));
+
+  return [
+    ...[...names].map(n => makeField('brand', n)),
+    ...[...aliases].map(a => makeField('alias', a)),
+    ...(entity.group ? [makeField('group', entity.group.name)] : []),
+    ...[...stockCodes].map(c => makeField('stock', c)),
+    ...[...new Set(entity.booths.map(b => b.hallCode))].map(c => makeField('hall', c)),
+    ...[...descriptions].map(d => makeField('description', d))
+  ];
+};
+
+const fieldNoteFields = (notes: FieldNote[]) => notes.filter(n => n.text).map(n => makeField('fieldNote', n.text));
+
+// One document per brand, plus one per model at each booth (key and full-list models alike).
+// The user's field notes are searchable on the booth or model they were written about.
+export const buildSearchIndex = (halls: Hall[], fieldNotes: FieldNote[] = []): SearchIndex => {
+  const docs: SearchDoc[] = [];
+  buildBrandEntities(halls).forEach(entity => {
+    const boothNotes = entity.booths.flatMap(b => getBoothNotes(fieldNotes, b.brand.id));
+    docs.push({ kind: 'brand', entity, fields: [...brandFields(entity), ...fieldNoteFields(boothNotes)] });
+
+    entity.booths.forEach(booth => {
+      const seen = new Set<string>();
+      [...booth.brand.models, ...(booth.brand.fullModelList || [])].forEach(model => {
+        if (seen.has(model.name)) return;
+        seen.add(model.name);
+        docs.push({
+          kind: 'model',
+          entity,
+          booth,
+          model,
+          fields: [
+            makeField('model', model.name),
+            ...(model.highlight ? [makeField('tag', model.highlight)] : []),
+            ...(model.note ? [makeField('note', model.note)] : []),
+            ...fieldNoteFields(getModelNotes(fieldNotes, booth.brand.id, model.name))
+          ]
+        });
+      });
+    });
+  });
+  return { docs };
+};
+
+const collectMatches = (index: SearchIndex, q: string, allowTypos: boolean): SearchResult[] => {
+  const results: SearchResult[] = [];
+  index.docs.forEach(doc => {
+    let best: { field: FieldText; match: Match; score: number } | null = null;
+    doc.fields.forEach(field => {
+      const match = matchField(field, q, allowTypos);
+      if (!match) return;
+      const score = match.score * FIELD_WEIGHT[field.field];
+      if (!best || score > best.score) best = { field, match, score };
+    });
+    if (!best) return;
+
+    const { field, match, score } = best;
+    const shown = field.field === 'note' || field.field === 'fieldNote' || field.field === 'description'
+      ? toSnippet(field.text, match.ranges)
+      : { text: field.text, ranges: match.ranges };
+    results.push({
+      kind: doc.kind,
+      entity: doc.entity,
+      booth: doc.booth,
+      model: doc.model,
+      score,
+      field: field.field,
+      text: shown.text,
+      ranges: shown.ranges
+    });
+  });
+  return results;
+};
+
+// Ranked brand and model hits for a query; empty for a blank query.
+// Typo tolerance only kicks in when nothing matches as typed, so it never buries real hits.
+export const findMatches = (index: SearchIndex, query: string): SearchResult[] => {
+  const q = normalizeQuery(query);
+  if (!q) return [];
+
+  const exact = collectMatches(index, q, false);
+  const results = exact.length > 0 ? exact : collectMatches(index, q, true);
+
+  // Brands before their own models on ties, then by name
+  return results
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.kind === b.kind ? 0 : a.kind === 'brand' ? -1 : 1) ||
+      (a.model?.name || a.entity.name).localeCompare(b.model?.name || b.entity.name, 'zh-CN')
+    )
+    .slice(0, MAX_RESULTS);
+};
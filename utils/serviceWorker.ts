@@ -0,0 +1,24 @@
+// Registers public/sw.js (production builds only) and relays its messages
+
+interface ServiceWorkerHandlers {
+  onCSVUpdated: (path: string) => void; // Path of the exhibitor CSV that changed
+  onMarketDataUpdated?: () => void; // The market-data snapshot changed on the server
+}
+
+export const registerServiceWorker = ({ onCSVUpdated, onMarketDataUpdated }: ServiceWorkerHandlers): (() => void) => {
+  if (process.env.ENABLE_SERVICE_WORKER !== 'true' || !('serviceWorker' in navigator)) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'CSV_UPDATED') onCSVUpdated(event.data.path);
+    if (event.data?.type === 'MARKET_DATA_UPDATED') onMarketDataUpdated?.();
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+
+  navigator.serviceWorker.register('/sw.js').catch(error => {
+    console.error("Service worker registration failed:", error);
+  });
+
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,136 @@
+import { Brand, CarModel, FieldNote, Hall, QAPassage } from '../types';
+import { SearchIndex, findMatches } from './searchIndex';
+
+// Retrieval for the Q&A panel: picks the booths and models a free-text question is about, using the
+// search index for each keyword so pinyin, aliases and notes count. The passages ground the AI's
+// answer, and are the answer themselves when no AI is available.
+
+export const MAX_PASSAGES = 12;
+
+// Question words that say nothing about which booth is meant; removed before keywords are cut out
+const STOP_WORDS = [
+  '请问', '哪些', '哪个', '哪家', '哪几', '什么', '有没有', '是否', '多少', '怎么', '如何', '为什么', '一下',
+  '这里', '这次', '本届', '今年', '车展', '展会', '现场', '品牌', '车型', '汽车', '推出', '展出', '发布', '亮相',
+  '正在', '可以', '我们', '他们', '还有', '以及'
+];
+const STOP_CHARS = /[的了吗呢吧啊在和与及或是有个款家些把被都也就还要会能]/g;
+
+// Spellings that mean the same thing in questions, tags and notes; any one of them pulls in the rest
+const SYNONYM_GROUPS = [
+  ['phev', '插混', '插电', 'dm-i', 'dmi'],
+  ['bev', '纯电', '电动'],
+  ['erev', '增程'],
+  ['hev', '混动', '油电'],
+  ['suv', '越野'],
+  ['轿车', 'sedan'],
+  ['mpv', '商务车'],
+  ['首发', '全球首发', 'premiere'],
+  ['上市', '新车'],
+  ['智驾', '辅助驾驶', '自动驾驶', 'noa'],
+  ['座舱', '车机']
+];
+
+// Filler in English questions ("which brands are launching a PHEV SUV here?")
+const ENGLISH_STOP_WORDS = new Set([
+  'which', 'what', 'where', 'who', 'how', 'are', 'is', 'the', 'an', 'any', 'here', 'there', 'this', 'at', 'in', 'of',
+  'do', 'does', 'with', 'show', 'brand', 'brands', 'model', 'models', 'car', 'cars', 'launch', 'launching', 'new'
+]);
+
+const containsWord = (text: string, word: string) =>
+  /^[a-z0-9-]+$/.test(word) ? new RegExp(`(^|[^a-z0-9])${word}([^a-z0-9]|$)`).test(text) : text.includes(word);
+
+export interface Keyword {
+  term: string;
+  concept: string; // Synonyms, and the bigrams of one Chinese phrase, share a concept and count once
+  weight: number;
+}
+
+// Keywords and how much each counts; synonyms and latin words (PHEV, SUV) say more than a Chinese bigram
+export const extractKeywords = (question: string): Keyword[] => {
+  const lower = question.toLowerCase();
+  const keywords = new Map<string, Keyword>();
+  const add = (term: string, concept: string, weight: number) => {
+    if (!keywords.has(term)) keywords.set(term, { term, concept, weight });
+  };
+
+  SYNONYM_GROUPS.forEach(group => {
+    if (group.some(word => containsWord(lower, word))) group.forEach(word => add(word, group[0], 2));
+  });
+
+  const stripped = STOP_WORDS.reduce((text, word) => text.split(word).join(' '), lower).replace(STOP_CHARS, ' ');
+  (stripped.match(/[a-z0-9][a-z0-9-]*/g) || [])
+    .filter(token => token.length >= 2 && !ENGLISH_STOP_WORDS.has(token))
+    .forEach(token => add(token, token, 2));
+  (stripped.match(/[\u3400-\u9fff]+/g) || []).forEach(run => {
+    if (run.length >= 2 && run.length <= 4) add(run, run, 1.5);
+    for (let i = 0; i + 2 <= run.length; i++) add(run.slice(i, i + 2), run, 1);
+  });
+  return [...keywords.values()];
+};
+
+interface Candidate {
+  hall: Hall;
+  brand: Brand;
+  models: Map<string, CarModel>;
+  conceptScores: Map<string, number>; // Best match per concept, so a concept counts once per booth
+}
+
+// A keyword naming the brand itself is a much stronger signal than one found in a tag or note
+const NAME_BOOST = 3;
+const NAME_FIELDS = ['brand', 'alias', 'group'];
+
+// Booths ranked by how many of the question's concepts they match, then by match quality
+export const retrievePassages = (question: string, halls: Hall[], index: SearchIndex, fieldNotes: FieldNote[] = []): QAPassage[] => {
+  const keywords = extractKeywords(question);
+  if (keywords.length === 0) return [];
+
+  const hallOf = new Map<string, Hall>();
+  halls.forEach(hall => hall.brands.forEach(brand => hallOf.set(brand.id, hall)));
+
+  const candidates = new Map<string, Candidate>();
+  const credit = (brand: Brand, concept: string, score: number, model?: CarModel) => {
+    const hall = hallOf.get(brand.id);
+    if (!hall) return;
+    const candidate = candidates.get(brand.id) || { hall, brand, models: new Map(), conceptScores: new Map() };
+    candidate.conceptScores.set(concept, Math.max(candidate.conceptScores.get(concept) || 0, score));
+    if (model) candidate.models.set(model.name, model);
+    candidates.set(brand.id, candidate);
+  };
+
+  keywords.forEach(({ term, concept, weight }) => {
+    findMatches(index, term).forEach(result => {
+      const score = result.score * weight * (NAME_FIELDS.includes(result.field) ? NAME_BOOST : 1);
+      if (result.kind === 'model' && result.booth && result.model) {
+        credit(result.booth.brand, concept, score, result.model);
+      } else {
+        result.entity.booths.forEach(booth => credit(booth.brand, concept, score));
+      }
+    });
+    // The CSV Powertrain column isn't in the search index
+    halls.forEach(hall => hall.brands.forEach(brand => {
+      [...brand.models, ...(brand.fullModelList || [])]
+        .filter(model => model.powertrain && containsWord(model.powertrain.toLowerCase(), term))
+        .forEach(model => credit(brand, concept, 60 * weight, model));
+    }));
+  });
+
+  return [...candidates.values()]
+    .map(candidate => {
+      const total = [...candidate.conceptScores.values()].reduce((sum, s) => sum + s, 0);
+      return {
+        hall: candidate.hall,
+        brand: candidate.brand,
+        models: [...candidate.models.values()],
+        notes: fieldNotes.filter(note => note.brandId === candidate.brand.id),
+        score: total * candidate.conceptScores.size
+      };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PASSAGES);
+};
+
+// Booth ids cited inline as [id] in an answer
+export const findCitations = (text: string, passages: QAPassage[]): string[] => {
+  const ids = new Set(passages.map(p => p.brand.id));
+  return [...new Set([...text.matchAll(/\[([^\]]+)\]/g)].map(m => m[1]).filter(id => ids.has(id)))];
+};
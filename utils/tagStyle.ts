@@ -0,0 +1,7 @@
+// Badge colours for the CSV Tag column (新车/首发/换代/...)
+export const getTagStyle = (tag: string) => {
+    if (tag.includes('新车')) return 'bg-red-900/60 text-red-200 border border-red-700';
+    if (tag.includes('首发')) return 'bg-purple-900/60 text-purple-200 border border-purple-700';
+    if (tag.includes('换代')) return 'bg-blue-900/60 text-blue-200 border border-blue-700';
+    return 'bg-slate-700 text-slate-200 border border-slate-600';
+};
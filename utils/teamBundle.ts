@@ -0,0 +1,251 @@
+import { BrandRating, Favorites, FieldNote } from '../types';
+import { emptyFavorites } from './favorites';
+import { MAX_RATING } from './ratings';
+
+// Portable snapshot of one analyst's favourites, visits, notes and ratings for one show edition,
+// shared as a file or a QR-code link and merged on a colleague's device. There is no server.
+// Everything is keyed by Brand.id (hall code + booth), which is the same on every device.
+//
+// Version history:
+//   1  favourites, visited booths, field notes (text only) and ratings
+
+export const BUNDLE_FORMAT = 'gz-carshow-team';
+export const BUNDLE_VERSION = 1;
+
+export interface TeamBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  eventId: string;
+  author: string;
+  exportedAt: string; // ISO timestamp
+  favorites: Favorites;
+  notes: FieldNote[]; // Photos stay on the device; photoIds are always empty
+  ratings: BrandRating[];
+}
+
+// Your own data plus whatever you have merged from colleagues
+export interface TeamData {
+  favorites: Favorites;
+  notes: FieldNote[];
+  ratings: BrandRating[];
+}
+
+export interface MergeOptions {
+  includeFavorites: boolean; // Also add their starred and visited booths to your list
+}
+
+export interface MergeSummary {
+  notesAdded: number;
+  notesSkipped: number; // Already merged before
+  ratingsAdded: number;
+  ratingsUpdated: number; // Same person rated the booth again since the last merge
+  ratingsKept: number; // Conflicting rating where the copy on this device is newer
+  favoritesAdded: number;
+}
+
+// Thrown when a file or link isn't a bundle this version of the app can read
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+const AUTHOR_KEY = 'gz-carshow:author';
+
+export const loadAuthorName = () => {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveAuthorName = (name: string) => {
+  try {
+    localStorage.setItem(AUTHOR_KEY, name.trim());
+  } catch (error) {
+    console.warn("Failed to write author name:", error);
+  }
+};
+
+// Your own entries are signed with your name; entries merged from others keep theirs
+export const createBundle = (eventId: string, author: string, data: TeamData): TeamBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  eventId,
+  author,
+  exportedAt: new Date().toISOString(),
+  favorites: data.favorites,
+  notes: data.notes.map(note => ({ ...note, author: note.author || author, photoIds: [] })),
+  ratings: data.ratings.map(rating => ({ ...rating, author: rating.author || author }))
+});
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const stringList = (value: unknown): string[] => (Array.isArray(value) ? value.filter(isString) : []);
+
+const readNote = (value: unknown): FieldNote | null => {
+  if (!isObject(value) || !isString(value.id) || !isString(value.brandId) || !isString(value.text) || !isString(value.createdAt)) {
+    return null;
+  }
+  return {
+    id: value.id,
+    brandId: value.brandId,
+    ...(isString(value.modelName) && value.modelName && { modelName: value.modelName }),
+    text: value.text,
+    photoIds: [],
+    createdAt: value.createdAt,
+    ...(isString(value.author) && value.author && { author: value.author })
+  };
+};
+
+const readRating = (value: unknown): BrandRating | null => {
+  if (!isObject(value) || !isString(value.brandId) || !isString(value.updatedAt)) return null;
+  const score = Number(value.score);
+  if (!Number.isInteger(score) || score < 1 || score > MAX_RATING) return null;
+  return {
+    brandId: value.brandId,
+    score,
+    updatedAt: value.updatedAt,
+    ...(isString(value.author) && value.author && { author: value.author })
+  };
+};
+
+// Validate a bundle read from a file or link; malformed entries are dropped rather than failing the import
+export const parseBundle = (text: string): TeamBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BundleError('不是有效的 JSON 文件');
+  }
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new BundleError('不是团队共享文件');
+  }
+  const version = Number(data.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BundleError('文件缺少版本号');
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new BundleError('文件来自更新版本的应用，请先刷新页面');
+  }
+  if (!isString(data.eventId) || !isString(data.author) || !data.author.trim()) {
+    throw new BundleError('文件缺少车展或作者信息');
+  }
+
+  const favorites = isObject(data.favorites) ? data.favorites : {};
+  return {
+    format: BUNDLE_FORMAT,
+    version,
+    eventId: data.eventId,
+    author: data.author.trim(),
+    exportedAt: isString(data.exportedAt) ? data.exportedAt : '',
+    favorites: {
+      ...emptyFavorites,
+      brandIds: stringList(favorites.brandIds),
+      modelKeys: stringList(favorites.modelKeys),
+      visitedBrandIds: stringList(favorites.visitedBrandIds)
+    },
+    notes: (Array.isArray(data.notes) ? data.notes : []).map(readNote).filter((n): n is FieldNote => !!n),
+    ratings: (Array.isArray(data.ratings) ? data.ratings : []).map(readRating).filter((r): r is BrandRating => !!r)
+  };
+};
+
+const union = (mine: string[], theirs: string[]) => [...mine, ...theirs.filter(id => !mine.includes(id))];
+
+const withAuthor = <T extends { author?: string }>(entry: T, author: string | undefined): T => {
+  const copy = { ...entry };
+  if (author) copy.author = author;
+  else delete copy.author;
+  return copy;
+};
+
+// Merge a colleague's bundle into your data. Entries signed with your own name (your bundle coming
+// back to you) count as yours again. Notes are matched by id; ratings by booth and author, and when
+// both sides have one the more recently updated rating wins.
+export const mergeBundle = (
+  local: TeamData, bundle: TeamBundle, localAuthor: string, options: MergeOptions
+): { data: TeamData; summary: MergeSummary } => {
+  const summary: MergeSummary = { notesAdded: 0, notesSkipped: 0, ratingsAdded: 0, ratingsUpdated: 0, ratingsKept: 0, favoritesAdded: 0 };
+  const me = localAuthor.trim();
+  const ownAuthor = (author?: string) => (author && author !== me ? author : undefined);
+
+  const noteIds = new Set(local.notes.map(note => note.id));
+  const notes = [...local.notes];
+  bundle.notes.forEach(note => {
+    if (noteIds.has(note.id)) {
+      summary.notesSkipped++;
+      return;
+    }
+    notes.push(withAuthor(note, ownAuthor(note.author)));
+    noteIds.add(note.id);
+    summary.notesAdded++;
+  });
+
+  const ratings = [...local.ratings];
+  bundle.ratings.forEach(rating => {
+    const incoming = withAuthor(rating, ownAuthor(rating.author));
+    const at = ratings.findIndex(r => r.brandId === incoming.brandId && r.author === incoming.author);
+    if (at === -1) {
+      ratings.push(incoming);
+      summary.ratingsAdded++;
+    } else if (ratings[at].score !== incoming.score || ratings[at].updatedAt !== incoming.updatedAt) {
+      if (incoming.updatedAt > ratings[at].updatedAt) {
+        ratings[at] = incoming;
+        summary.ratingsUpdated++;
+      } else {
+        summary.ratingsKept++;
+      }
+    }
+  });
+
+  let favorites = local.favorites;
+  if (options.includeFavorites) {
+    favorites = {
+      brandIds: union(local.favorites.brandIds, bundle.favorites.brandIds),
+      modelKeys: union(local.favorites.modelKeys, bundle.favorites.modelKeys),
+      visitedBrandIds: union(local.favorites.visitedBrandIds, bundle.favorites.visitedBrandIds)
+    };
+    summary.favoritesAdded =
+      favorites.brandIds.length - local.favorites.brandIds.length +
+      favorites.modelKeys.length - local.favorites.modelKeys.length;
+  }
+
+  return { data: { favorites, notes, ratings }, summary };
+};
+
+export const bundleFilename = (bundle: TeamBundle) =>
+  `${bundle.eventId}-${bundle.author.replace(/[\\/:*?"<>|\s]+/g, '_')}-team.json`;
+
+// ---- QR-code links ----
+// The bundle travels in the URL hash (#/share?d=...), deflated and base64url-encoded, so a
+// colleague can scan it with the phone camera and land straight in the import screen.
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeBundlePayload = async (bundle: TeamBundle) =>
+  toBase64Url(await pipeThrough(new TextEncoder().encode(JSON.stringify(bundle)), new CompressionStream('deflate-raw')));
+
+export const decodeBundlePayload = async (payload: string): Promise<TeamBundle> => {
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new BundleError('链接已损坏或不完整');
+  }
+  return parseBundle(text);
+};
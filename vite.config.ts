@@ -1,7 +1,51 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes dist/precache-manifest.json listing every built file (app shell, brands.csv,
+// hall maps) with a content hash as version. public/sw.js precaches these on install; the
+// hash is also stamped into dist/sw.js so each build ships a worker the browser reinstalls.
+const precacheManifest = (): Plugin => {
+    let outDir = '';
+    return {
+      name: 'precache-manifest',
+      apply: 'build',
+      configResolved(config) {
+        outDir = path.resolve(config.root, config.build.outDir);
+      },
+      closeBundle() {
+        const skip = new Set(['sw.js', 'precache-manifest.json']);
+        const hash = crypto.createHash('sha256');
+        const files: string[] = [];
+
+        const walk = (dir: string) => {
+          fs.readdirSync(dir, { withFileTypes: true })
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .forEach(entry => {
+              const fullPath = path.join(dir, entry.name);
+              const urlPath = '/' + path.relative(outDir, fullPath).split(path.sep).join('/');
+              if (entry.isDirectory()) return walk(fullPath);
+              if (skip.has(entry.name) || entry.name.endsWith('.map')) return;
+              files.push(urlPath);
+              hash.update(urlPath).update(fs.readFileSync(fullPath));
+            });
+        };
+        walk(outDir);
+
+        const manifest = { version: hash.digest('hex').slice(0, 12), files: ['/', ...files] };
+        fs.writeFileSync(path.join(outDir, 'precache-manifest.json'), JSON.stringify(manifest, null, 2));
+
+        const swPath = path.join(outDir, 'sw.js');
+        const worker = fs.readFileSync(swPath, 'utf8');
+        const versionLine = /^const PRECACHE_VERSION = '[^']*';$/m;
+        if (!versionLine.test(worker)) throw new Error('PRECACHE_VERSION line not found in sw.js');
+        fs.writeFileSync(swPath, worker.replace(versionLine, `const PRECACHE_VERSION = '${manifest.version}';`));
+      }
+    };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +53,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.INSIGHT_PROVIDER': JSON.stringify(env.INSIGHT_PROVIDER),
+        'process.env.MARKET_DATA_URL': JSON.stringify(env.MARKET_DATA_URL),
+        // The service worker only runs against a build (npm run build && npm run preview)
+        'process.env.ENABLE_SERVICE_WORKER': JSON.stringify(mode === 'production' ? 'true' : '')
       },
       resolve: {
         alias: {